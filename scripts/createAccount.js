@@ -0,0 +1,39 @@
+const { randomBytes, randomUUID, createHash } = require('crypto');
+const { Client } = require('pg');
+
+require('dotenv').config();
+
+async function createAccount() {
+  const name = process.argv[2];
+  if (!name) {
+    console.log('Usage: npm run create-account -- <account name>');
+    process.exit(1);
+  }
+
+  // Only the hash is stored, so the key is shown once
+  const apiKey = randomBytes(32).toString('base64url');
+  const apiKeyHash = createHash('sha256').update(apiKey).digest('hex');
+  const accountId = randomUUID();
+
+  const client = new Client({ connectionString: process.env.DATABASE_URL });
+  await client.connect();
+
+  try {
+    await client.query(
+      'INSERT INTO accounts (id, name, api_key_hash) VALUES ($1, $2, $3)',
+      [accountId, name, apiKeyHash]
+    );
+  } finally {
+    await client.end();
+  }
+
+  // Display information
+  console.log(`Account ID: ${accountId}`);
+  console.log(`API Key: ${apiKey}`);
+}
+
+// Run the script
+createAccount().catch((error) => {
+  console.error('Failed to create account:', error.message);
+  process.exit(1);
+});
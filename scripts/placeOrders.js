@@ -2,6 +2,7 @@
 const fetch = require('node-fetch');
 
 const API_URL = "http://127.0.0.1:3000/api/orders/execute";
+const API_KEY = process.env.API_KEY; // from npm run create-account
 
 // Order configurations
 const orders = [
@@ -18,6 +19,7 @@ async function placeOrder(orderData, orderNumber) {
   
   const myHeaders = new Headers();
   myHeaders.append("Content-Type", "application/json");
+  myHeaders.append("X-API-Key", API_KEY);
 
   const raw = JSON.stringify(orderData);
 
@@ -0,0 +1,138 @@
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import { Keypair, SystemInstruction, SystemProgram, Transaction } from '@solana/web3.js';
+import bs58 from 'bs58';
+import { BundleSubmitter } from '../services/bundleSubmitter';
+import { KeypairSigner } from '../services/signers/keypairSigner';
+import { BuiltSwap, SubmissionMode, TradingWallet } from '../types';
+
+describe('BundleSubmitter - Block Engine Submission Tests', () => {
+    const tipAccount = Keypair.generate().publicKey;
+    const blockhash = Keypair.generate().publicKey.toBase58();
+    const wallet: TradingWallet = { id: 'engine', signer: new KeypairSigner(Keypair.generate()) };
+
+    let server: Server;
+    let url: string;
+    let requests: { method: string; params: any[] }[];
+    let rejectBundles: boolean;
+    let connection: any;
+
+    const readBody = async (request: IncomingMessage): Promise<string> => {
+        let body = '';
+        for await (const chunk of request) {
+            body += chunk;
+        }
+        return body;
+    };
+
+    // A swap stand-in: any transaction paid by the wallet
+    const swap = (): BuiltSwap => {
+        const transaction = new Transaction().add(SystemProgram.transfer({
+            fromPubkey: wallet.signer.publicKey,
+            toPubkey: Keypair.generate().publicKey,
+            lamports: 1000
+        }));
+        transaction.feePayer = wallet.signer.publicKey;
+        return { dex: 'raydium', transaction, signers: [], amountIn: '1000', minAmountOut: '1' };
+    };
+
+    // Stub of the block engine's bundle JSON-RPC endpoint
+    beforeAll(async () => {
+        server = createServer(async (request, response) => {
+            const { id, method, params } = JSON.parse(await readBody(request));
+            requests.push({ method, params });
+
+            const reply = (body: object) => {
+                response.writeHead(200, { 'content-type': 'application/json' });
+                response.end(JSON.stringify({ jsonrpc: '2.0', id, ...body }));
+            };
+
+            switch (method) {
+                case 'getTipAccounts':
+                    return reply({ result: [tipAccount.toBase58()] });
+                case 'sendBundle':
+                    return rejectBundles
+                        ? reply({ error: { code: -32602, message: 'bundle contains an already processed transaction' } })
+                        : reply({ result: 'bundle-1' });
+                default:
+                    return reply({ error: { code: -32601, message: 'Method not found' } });
+            }
+        });
+
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/v1/bundles`;
+    });
+
+    afterAll(async () => {
+        await new Promise(resolve => server.close(resolve));
+    });
+
+    beforeEach(() => {
+        requests = [];
+        rejectBundles = false;
+        connection = {
+            getLatestBlockhash: jest.fn(async () => ({ blockhash, lastValidBlockHeight: 1000 })),
+            sendRawTransaction: jest.fn(async () => 'rpc-signature')
+        };
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    test('should send the signed swap with a tip transfer in one bundle', async () => {
+        const submitter = new BundleSubmitter(connection, url, { tipLamports: 25000, inclusionTimeoutMs: 5000 });
+
+        const sent = await submitter.send(swap(), wallet);
+
+        const sendBundle = requests.find(request => request.method === 'sendBundle')!;
+        const [swapTransaction, tipTransaction] = sendBundle.params[0].map((encoded: string) => Transaction.from(Buffer.from(encoded, 'base64')));
+        const tip = SystemInstruction.decodeTransfer(tipTransaction.instructions[0]);
+
+        expect(sendBundle.params[1]).toEqual({ encoding: 'base64' });
+        expect(swapTransaction.verifySignatures()).toBe(true);
+        expect(tipTransaction.verifySignatures()).toBe(true);
+        expect(tipTransaction.recentBlockhash).toBe(swapTransaction.recentBlockhash);
+        expect(tip).toEqual({ fromPubkey: wallet.signer.publicKey, toPubkey: tipAccount, lamports: BigInt(25000) });
+        expect(sent).toEqual({
+            signature: bs58.encode(swapTransaction.signature!),
+            lastValidBlockHeight: 1000,
+            submittedVia: SubmissionMode.BUNDLE,
+            bundleId: 'bundle-1',
+            tipSignature: bs58.encode(tipTransaction.signature!),
+            tipLamports: 25000,
+            fallback: { afterMs: 5000, send: expect.any(Function) }
+        });
+        expect(connection.sendRawTransaction).not.toHaveBeenCalled();
+    });
+
+    test('should return once the bundle is accepted, leaving the RPC send of the same swap as its fallback', async () => {
+        const submitter = new BundleSubmitter(connection, url);
+
+        const sent = await submitter.send(swap(), wallet);
+
+        expect(requests.map(request => request.method)).toEqual(['getTipAccounts', 'sendBundle']);
+        expect(connection.sendRawTransaction).not.toHaveBeenCalled();
+        expect(sent.fallback!.afterMs).toBe(15000);
+
+        await sent.fallback!.send();
+
+        const [bundledSwap] = requests.find(request => request.method === 'sendBundle')!.params[0];
+        const [rpcSwap] = connection.sendRawTransaction.mock.calls[0];
+        expect(Buffer.from(rpcSwap).toString('base64')).toBe(bundledSwap);
+    });
+
+    test('should fall back to RPC when the block engine rejects the bundle', async () => {
+        rejectBundles = true;
+        const submitter = new BundleSubmitter(connection, url);
+
+        const sent = await submitter.send(swap(), wallet);
+
+        expect(connection.sendRawTransaction).toHaveBeenCalledTimes(1);
+        expect(sent.submittedVia).toBe(SubmissionMode.RPC);
+        expect(sent.tipSignature).toBeUndefined();
+        expect(sent.fallback).toBeUndefined();
+    });
+});
@@ -0,0 +1,187 @@
+import { Keypair, SignatureStatus } from '@solana/web3.js';
+import { ConfirmationTracker } from '../services/confirmationTracker';
+
+describe('ConfirmationTracker - Confirmation and Resubmission Tests', () => {
+    let statuses: Map<string, (SignatureStatus | null)[]>; // signature -> statuses returned by successive polls
+    let blockHeight: number;
+    let connection: any;
+
+    const status = (confirmationStatus: SignatureStatus['confirmationStatus'], err: SignatureStatus['err'] = null): SignatureStatus => ({
+        slot: 100, confirmations: null, err, confirmationStatus
+    });
+
+    // Each poll takes the next status queued for the signature, repeating the last one
+    const nextStatus = (signature: string): SignatureStatus | null => {
+        const queue = statuses.get(signature) ?? [null];
+        return queue.length > 1 ? queue.shift()! : queue[0];
+    };
+
+    beforeEach(() => {
+        statuses = new Map();
+        blockHeight = 900;
+        connection = {
+            getSignatureStatuses: jest.fn(async ([signature]: string[]) => ({ value: [nextStatus(signature)] })),
+            getBlockHeight: jest.fn(async () => blockHeight),
+            getTransaction: jest.fn(async () => ({
+                meta: { logMessages: ['Program log: Error: exceeds desired slippage limit', 'Program amm failed: custom program error: 0x1e'] }
+            }))
+        };
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    test('should wait past processed until the transaction is confirmed', async () => {
+        statuses.set('sig-1', [null, status('processed'), status('confirmed')]);
+        const tracker = new ConfirmationTracker(connection, { pollIntervalMs: 0 });
+
+        const confirmation = await tracker.confirm(async () => ({ signature: 'sig-1', lastValidBlockHeight: 1000 }));
+
+        expect(confirmation).toEqual({ signature: 'sig-1', status: 'confirmed', slot: 100, resubmits: 0 });
+        expect(connection.getSignatureStatuses).toHaveBeenCalledTimes(3);
+    });
+
+    test('should hold out for finalized when configured to', async () => {
+        statuses.set('sig-1', [status('confirmed'), status('confirmed'), status('finalized')]);
+        const tracker = new ConfirmationTracker(connection, { pollIntervalMs: 0, commitment: 'finalized' });
+
+        const confirmation = await tracker.confirm(async () => ({ signature: 'sig-1', lastValidBlockHeight: 1000 }));
+
+        expect(confirmation.status).toBe('finalized');
+        expect(connection.getSignatureStatuses).toHaveBeenCalledTimes(3);
+    });
+
+    test('should report the decoded on-chain error of a failed transaction', async () => {
+        statuses.set('sig-1', [status('confirmed', { InstructionError: [2, { Custom: 30 }] })]);
+        const tracker = new ConfirmationTracker(connection, { pollIntervalMs: 0 });
+
+        const confirmation = await tracker.confirm(async () => ({ signature: 'sig-1', lastValidBlockHeight: 1000 }));
+
+        expect(confirmation).toEqual({
+            signature: 'sig-1',
+            status: 'failed',
+            slot: 100,
+            error: 'Instruction 2 failed in program amm: custom program error 0x1e (exceeds desired slippage limit)',
+            resubmits: 0
+        });
+    });
+
+    test('should re-sign and resubmit once the blockhash expires, then confirm', async () => {
+        blockHeight = 1001;
+        statuses.set('sig-2', [status('confirmed')]);
+        const send = jest.fn()
+            .mockResolvedValueOnce({ signature: 'sig-1', lastValidBlockHeight: 1000 })
+            .mockResolvedValueOnce({ signature: 'sig-2', lastValidBlockHeight: 1150 });
+        const tracker = new ConfirmationTracker(connection, { pollIntervalMs: 0 });
+
+        const confirmation = await tracker.confirm(send);
+
+        expect(send).toHaveBeenCalledTimes(2);
+        expect(confirmation).toEqual({ signature: 'sig-2', status: 'confirmed', slot: 100, resubmits: 1 });
+    });
+
+    test('should follow a transaction sent by the caller, sending only to resubmit', async () => {
+        blockHeight = 1001;
+        statuses.set('sig-2', [status('confirmed')]);
+        const send = jest.fn(async () => ({ signature: 'sig-2', lastValidBlockHeight: 1150 }));
+        const tracker = new ConfirmationTracker(connection, { pollIntervalMs: 0 });
+
+        const confirmation = await tracker.confirm(send, { signature: 'sig-1', lastValidBlockHeight: 1000 });
+
+        expect(send).toHaveBeenCalledTimes(1);
+        expect(confirmation).toEqual({ signature: 'sig-2', status: 'confirmed', slot: 100, resubmits: 1 });
+    });
+
+    test('should give up as expired once the resubmission limit is used', async () => {
+        blockHeight = 2000;
+        let sent = 0;
+        const send = jest.fn(async () => ({ signature: `sig-${++sent}`, lastValidBlockHeight: 1000 }));
+        const tracker = new ConfirmationTracker(connection, { pollIntervalMs: 0, maxResubmits: 2 });
+
+        const confirmation = await tracker.confirm(send);
+
+        expect(send).toHaveBeenCalledTimes(3);
+        expect(confirmation).toEqual({ signature: 'sig-3', status: 'expired', resubmits: 2 });
+    });
+
+    test('should keep polling through RPC errors, and give up without resubmitting when they persist', async () => {
+        statuses.set('sig-1', [null, status('confirmed')]);
+        connection.getSignatureStatuses.mockRejectedValueOnce(new Error('503 Service Unavailable'));
+        const send = jest.fn(async () => ({ signature: 'sig-1', lastValidBlockHeight: 1000 }));
+        const tracker = new ConfirmationTracker(connection, { pollIntervalMs: 0, maxPollErrors: 2 });
+
+        expect((await tracker.confirm(send)).status).toBe('confirmed');
+
+        connection.getBlockHeight.mockClear().mockRejectedValue(new Error('503 Service Unavailable'));
+        statuses.set('sig-1', [null]);
+
+        await expect(tracker.confirm(send)).rejects.toThrow('Could not poll transaction sig-1: 503 Service Unavailable');
+        expect(send).toHaveBeenCalledTimes(2);
+        expect(connection.getBlockHeight).toHaveBeenCalledTimes(3); // the first error and two retries
+    });
+
+    test('should not resubmit a transaction that landed just as its blockhash expired', async () => {
+        blockHeight = 1001;
+        statuses.set('sig-1', [null, status('confirmed')]);
+        const send = jest.fn(async () => ({ signature: 'sig-1', lastValidBlockHeight: 1000 }));
+        const tracker = new ConfirmationTracker(connection, { pollIntervalMs: 0 });
+
+        const confirmation = await tracker.confirm(send);
+
+        expect(send).toHaveBeenCalledTimes(1);
+        expect(confirmation.status).toBe('confirmed');
+    });
+
+    test('should send through the fallback once when the transaction is not seen in time', async () => {
+        statuses.set('sig-1', [null, null, null, status('confirmed')]);
+        const fallback = { afterMs: 0, send: jest.fn().mockRejectedValue(new Error('Transaction already processed')) };
+        const tracker = new ConfirmationTracker(connection, { pollIntervalMs: 0 });
+
+        const confirmation = await tracker.confirm(jest.fn(), { signature: 'sig-1', lastValidBlockHeight: 1000, fallback });
+
+        expect(confirmation.status).toBe('confirmed');
+        expect(fallback.send).toHaveBeenCalledTimes(1);
+    });
+
+    test('should not use the fallback of a transaction that lands in time', async () => {
+        statuses.set('sig-1', [null, status('confirmed')]);
+        const fallback = { afterMs: 60000, send: jest.fn() };
+        const tracker = new ConfirmationTracker(connection, { pollIntervalMs: 0 });
+
+        await tracker.confirm(jest.fn(), { signature: 'sig-1', lastValidBlockHeight: 1000, fallback });
+
+        expect(fallback.send).not.toHaveBeenCalled();
+    });
+
+    test('should tell whether a transaction landed without error', async () => {
+        statuses.set('tip-1', [status('confirmed')]);
+        statuses.set('tip-2', [status('confirmed', { InstructionError: [0, 'InsufficientFunds'] })]);
+        const tracker = new ConfirmationTracker(connection, { pollIntervalMs: 0 });
+
+        expect(await tracker.hasLanded('tip-1')).toBe(true);
+        expect(await tracker.hasLanded('tip-2')).toBe(false);
+        expect(await tracker.hasLanded('tip-3')).toBe(false);
+    });
+
+    test('should read the amount a wallet received from the transaction balances', async () => {
+        const owner = Keypair.generate().publicKey;
+        const balance = (accountIndex: number, mint: string, amount: string, holder = owner.toString()) => ({
+            accountIndex, mint, owner: holder, uiTokenAmount: { amount, decimals: 6, uiAmount: null, uiAmountString: amount }
+        });
+        connection.getTransaction.mockResolvedValueOnce({
+            meta: {
+                preTokenBalances: [balance(1, 'USDC', '1000000'), balance(2, 'USDC', '5000000000', 'pool-vault')],
+                postTokenBalances: [balance(1, 'USDC', '251400000'), balance(2, 'USDC', '4749600000', 'pool-vault')]
+            }
+        });
+        const tracker = new ConfirmationTracker(connection, { pollIntervalMs: 0 });
+
+        await expect(tracker.amountReceived('sig-1', owner, 'USDC')).resolves.toBe('250400000');
+
+        connection.getTransaction.mockRejectedValueOnce(new Error('503 Service Unavailable'));
+        await expect(tracker.amountReceived('sig-1', owner, 'USDC')).resolves.toBeUndefined();
+    });
+});
@@ -0,0 +1,178 @@
+import { Keypair } from '@solana/web3.js';
+import { Queue, Worker } from 'bullmq';
+import { DcaScheduler } from '../services/dcaScheduler';
+import { Database, RiskLimitError } from '../database/connection';
+import { TokenRegistry } from '../services/tokenRegistry';
+import { KeypairSigner } from '../services/signers/keypairSigner';
+import { OrderStatus, OrderType, Schedule, ScheduleStatus } from '../types';
+
+// Mock dependencies
+jest.mock('bullmq');
+jest.mock('ioredis');
+jest.mock('../database/connection');
+
+describe('DcaScheduler - Recurring Order Tests', () => {
+    let scheduler: DcaScheduler;
+    let mockDatabase: jest.Mocked<Database>;
+    let mockQueue: any;
+    let mockOrderQueue: any;
+    let mockSolanaManager: any;
+    let mockWalletManager: any;
+    let mockRiskManager: any;
+
+    const wallet = { id: 'wallet-1', signer: new KeypairSigner(Keypair.generate()) };
+
+    // 50 USDC of SOL every 6 hours, until 1,000 USDC is spent
+    const schedule = (overrides: Partial<Schedule> = {}): Schedule => ({
+        id: 'schedule-1',
+        accountId: 'account-1',
+        tokenIn: 'USDC',
+        tokenOut: 'SOL',
+        tokenInMint: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+        tokenOutMint: 'So11111111111111111111111111111111111111112',
+        amountIn: '50000000',
+        totalAmount: '1000000000',
+        intervalMs: 6 * 60 * 60 * 1000,
+        slippageBps: 50,
+        status: ScheduleStatus.ACTIVE,
+        orderCount: 0,
+        skippedTicks: 0,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        ...overrides
+    });
+
+    beforeEach(() => {
+        mockQueue = {
+            upsertJobScheduler: jest.fn().mockResolvedValue(undefined),
+            removeJobScheduler: jest.fn().mockResolvedValue(true)
+        };
+        (Queue as unknown as jest.Mock).mockImplementation(() => mockQueue);
+        (Worker as unknown as jest.Mock).mockImplementation(() => ({ on: jest.fn() }));
+
+        mockDatabase = new Database('test') as jest.Mocked<Database>;
+        mockDatabase.getSchedule = jest.fn().mockResolvedValue(schedule());
+        mockDatabase.getScheduleSpent = jest.fn().mockResolvedValue('0');
+        mockDatabase.getAccount = jest.fn().mockResolvedValue({ id: 'account-1', name: 'Test', createdAt: new Date() });
+        mockDatabase.updateScheduleStatus = jest.fn().mockResolvedValue(true);
+        mockDatabase.recordScheduleTick = jest.fn().mockResolvedValue(undefined);
+        mockDatabase.createOrder = jest.fn().mockResolvedValue(undefined);
+
+        mockOrderQueue = { addOrder: jest.fn().mockResolvedValue(undefined) };
+        mockSolanaManager = { getBalance: jest.fn().mockResolvedValue('500.0') };
+        mockWalletManager = { walletFor: jest.fn().mockResolvedValue(wallet) };
+        mockRiskManager = {
+            checkOrder: jest.fn().mockResolvedValue({ isValid: true }),
+            guard: jest.fn().mockReturnValue({ since: new Date(), evaluate: jest.fn() })
+        };
+
+        scheduler = new DcaScheduler(
+            { host: 'localhost', port: 6379 },
+            mockDatabase,
+            mockOrderQueue,
+            mockSolanaManager,
+            mockWalletManager,
+            mockRiskManager,
+            TokenRegistry.fromFile()
+        );
+
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+        jest.clearAllMocks();
+    });
+
+    test('should tick through a repeatable job scheduler keyed by the schedule', async () => {
+        await scheduler.start(schedule());
+        await scheduler.stop('schedule-1');
+
+        expect(mockQueue.upsertJobScheduler).toHaveBeenCalledWith(
+            'schedule-1',
+            { every: 21600000 },
+            expect.objectContaining({ data: { scheduleId: 'schedule-1' } })
+        );
+        expect(mockQueue.removeJobScheduler).toHaveBeenCalledWith('schedule-1');
+    });
+
+    test('should place and queue a market order linked to its schedule', async () => {
+        await scheduler.runTick('schedule-1');
+
+        const [order] = mockDatabase.createOrder.mock.calls[0];
+        expect(order).toEqual(expect.objectContaining({
+            type: OrderType.MARKET,
+            status: OrderStatus.PENDING,
+            accountId: 'account-1',
+            scheduleId: 'schedule-1',
+            tokenInMint: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+            amountIn: '50000000'
+        }));
+        expect(mockSolanaManager.getBalance).toHaveBeenCalledWith(wallet.signer.publicKey, order.tokenInMint);
+        expect(mockOrderQueue.addOrder).toHaveBeenCalledWith(order);
+        expect(mockDatabase.recordScheduleTick).toHaveBeenCalledWith('schedule-1');
+    });
+
+    test('should size the last order to what is left of the budget', async () => {
+        mockDatabase.getScheduleSpent.mockResolvedValue('980000000');
+
+        await scheduler.runTick('schedule-1');
+
+        expect(mockDatabase.createOrder).toHaveBeenCalledWith(expect.objectContaining({ amountIn: '20000000' }), expect.anything());
+    });
+
+    test('should complete and stop once the budget is spent', async () => {
+        mockDatabase.getScheduleSpent.mockResolvedValue('1000000000');
+
+        await scheduler.runTick('schedule-1');
+
+        expect(mockDatabase.updateScheduleStatus).toHaveBeenCalledWith('schedule-1', ScheduleStatus.COMPLETED, [ScheduleStatus.ACTIVE]);
+        expect(mockQueue.removeJobScheduler).toHaveBeenCalledWith('schedule-1');
+        expect(mockDatabase.createOrder).not.toHaveBeenCalled();
+    });
+
+    test('should skip the tick when the wallet balance is too low', async () => {
+        mockSolanaManager.getBalance.mockResolvedValue('49.5');
+
+        await scheduler.runTick('schedule-1');
+
+        expect(mockDatabase.createOrder).not.toHaveBeenCalled();
+        expect(mockOrderQueue.addOrder).not.toHaveBeenCalled();
+        expect(mockDatabase.recordScheduleTick).toHaveBeenCalledWith(
+            'schedule-1',
+            'Insufficient USDC balance: 49.5 available, 50.0 needed'
+        );
+    });
+
+    test('should skip the tick when the order breaks the account risk limits', async () => {
+        mockRiskManager.checkOrder.mockResolvedValue({ isValid: false, error: 'Daily volume limit reached' });
+
+        await scheduler.runTick('schedule-1');
+
+        expect(mockDatabase.createOrder).not.toHaveBeenCalled();
+        expect(mockDatabase.recordScheduleTick).toHaveBeenCalledWith('schedule-1', 'Daily volume limit reached');
+    });
+
+    test('should skip the tick when the account reached its risk limits before the order was stored', async () => {
+        const message = 'Account has 50 open orders, the limit is 50';
+        mockDatabase.createOrder.mockRejectedValue(Object.assign(new RiskLimitError(message), { message }));
+
+        await scheduler.runTick('schedule-1');
+
+        const [order, check] = mockDatabase.createOrder.mock.calls[0];
+        expect(check).toBe(mockRiskManager.guard.mock.results[0].value);
+        expect(mockRiskManager.guard).toHaveBeenCalledWith(expect.objectContaining({ id: 'account-1' }), [order]);
+        expect(mockOrderQueue.addOrder).not.toHaveBeenCalled();
+        expect(mockDatabase.recordScheduleTick).toHaveBeenCalledWith('schedule-1', message);
+    });
+
+    test('should place nothing for a paused schedule', async () => {
+        mockDatabase.getSchedule.mockResolvedValue(schedule({ status: ScheduleStatus.PAUSED }));
+
+        await scheduler.runTick('schedule-1');
+
+        expect(mockSolanaManager.getBalance).not.toHaveBeenCalled();
+        expect(mockDatabase.createOrder).not.toHaveBeenCalled();
+        expect(mockDatabase.recordScheduleTick).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,420 @@
+import BN from 'bn.js';
+import { Keypair } from '@solana/web3.js';
+import { dexRouter } from '../services/dexRouter';
+import { DexRegistry } from '../services/dexRegistry';
+import { ConfirmationTracker } from '../services/confirmationTracker';
+import { FeeStrategy } from '../services/feeStrategy';
+import { BundleSubmitter } from '../services/bundleSubmitter';
+import { TokenRegistry } from '../services/tokenRegistry';
+import { KeypairSigner } from '../services/signers/keypairSigner';
+import { BuiltSwap, DexAdapter, DexHealth, DexQuoter, ExecutionErrorCode, Order, OrderStatus, OrderType, PoolConfig, SubmissionMode, SwapSimulation, TokenInfo, TradingWallet } from '../types';
+import { buildQuote, decodeTransactionError } from '../services/adapters/swapHelpers';
+
+const SOL_MINT = 'So11111111111111111111111111111111111111112';
+const USDC_MINT = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const BONK_MINT = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+const JUP_MINT = 'JUPyiwrYJFskUPiHa7hkeR8VUtAeFoSYbKedZNsDvCN';
+
+const engineSigner = new KeypairSigner(Keypair.generate());
+
+// Constant-product venue quoting at `price` (tokenOut per tokenIn, SOL -> USDC unless
+// priced per pair) with `liquidity` tokenIn of depth
+class FakeAdapter implements DexAdapter {
+    buildSwap = jest.fn(async (pool: PoolConfig, tokenIn: TokenInfo, tokenOut: TokenInfo, amountIn: string, minAmountOut: string, wallet: TradingWallet): Promise<BuiltSwap> => ({
+        dex: this.name, transaction: {} as any, signers: [], amountIn, minAmountOut
+    }));
+    simulateSwap = jest.fn(async (swap: BuiltSwap): Promise<SwapSimulation> => ({
+        amountOut: swap.minAmountOut, unitsConsumed: 60000, logs: []
+    }));
+    executeSwap = jest.fn(async () => ({ signature: `${this.name}-signature`, lastValidBlockHeight: 1000 }));
+
+    constructor(readonly name: string, private price: number | Record<string, number>, private liquidity: number, private failing = false) {}
+
+    async initialize(): Promise<void> {}
+
+    async loadQuoter(pool: PoolConfig, tokenIn: TokenInfo, tokenOut: TokenInfo): Promise<DexQuoter> {
+        if (this.failing) {
+            throw new Error('RPC unavailable');
+        }
+
+        const price = typeof this.price === 'number' ? this.price : this.price[`${tokenIn.symbol}/${tokenOut.symbol}`];
+
+        return (amountIn: string) => {
+            const unitsIn = Number(amountIn) / 10 ** tokenIn.decimals;
+            const unitsOut = unitsIn * price * this.liquidity / (this.liquidity + unitsIn);
+            return {
+                ...buildQuote(this.name, tokenIn, tokenOut, amountIn, new BN(Math.floor(unitsOut * 10 ** tokenOut.decimals)), new BN(0), unitsIn / (this.liquidity + unitsIn)),
+                poolAddress: pool.address
+            };
+        };
+    }
+
+    async checkHealth(): Promise<DexHealth> {
+        return { dex: this.name, healthy: !this.failing };
+    }
+}
+
+describe('dexRouter - Venue Registry Routing Tests', () => {
+    const order = (overrides: Partial<Order> = {}): Order => ({
+        id: 'router-order',
+        type: OrderType.MARKET,
+        tokenIn: 'SOL',
+        tokenOut: 'USDC',
+        tokenInMint: SOL_MINT,
+        tokenOutMint: USDC_MINT,
+        amountIn: '1000000000',
+        status: OrderStatus.PENDING,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        retryCount: 0,
+        ...overrides
+    });
+
+    // Confirms every sent swap straight away unless a test says otherwise
+    let confirmationTracker: jest.Mocked<ConfirmationTracker>;
+    // Budgets every swap its simulated units at a flat price
+    let feeStrategy: jest.Mocked<FeeStrategy>;
+    // Accepts every bundle with a flat tip
+    let bundleSubmitter: jest.Mocked<BundleSubmitter>;
+
+    // One SOL/USDC pool per venue
+    const routerWith = (adapters: DexAdapter[], enabledDexes?: string[]) => {
+        const registry = new DexRegistry(enabledDexes);
+        adapters.forEach(adapter => registry.register(adapter));
+
+        const tokenRegistry = new TokenRegistry({
+            tokens: [
+                { symbol: 'SOL', mint: SOL_MINT, decimals: 9 },
+                { symbol: 'USDC', mint: USDC_MINT, decimals: 6 }
+            ],
+            pools: adapters.map(adapter => ({ dex: adapter.name, address: `${adapter.name}-pool`, mints: [SOL_MINT, USDC_MINT] }))
+        });
+
+        return new dexRouter({ signer: engineSigner } as any, registry, tokenRegistry, undefined, confirmationTracker, feeStrategy, bundleSubmitter);
+    };
+
+    beforeEach(() => {
+        confirmationTracker = {
+            confirm: jest.fn(async (send: () => Promise<{ signature: string }>, firstSent?: { signature: string }) => ({
+                signature: (firstSent ?? await send()).signature, status: 'confirmed', resubmits: 0
+            })),
+            amountReceived: jest.fn().mockResolvedValue(undefined),
+            hasLanded: jest.fn().mockResolvedValue(true)
+        } as any;
+        feeStrategy = {
+            getFee: jest.fn(async (order: Order, swap: BuiltSwap, unitsConsumed?: number) => ({
+                computeUnitLimit: unitsConsumed!, computeUnitPrice: 10000, priorityFeeLamports: 600, feeLamports: 5600
+            })),
+            applyFee: jest.fn(async (swap: BuiltSwap) => ({ ...swap, transaction: { budgeted: true } as any }))
+        } as any;
+        bundleSubmitter = {
+            send: jest.fn(async (swap: BuiltSwap) => ({
+                signature: `${swap.dex}-bundled-signature`, lastValidBlockHeight: 1000, submittedVia: SubmissionMode.BUNDLE,
+                bundleId: 'bundle-1', tipSignature: 'tip-signature', tipLamports: 10000
+            }))
+        } as any;
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    test('should route to any registered venue with the best output', async () => {
+        const router = routerWith([
+            new FakeAdapter('raydium', 250, 100000),
+            new FakeAdapter('meteora', 249, 100000),
+            new FakeAdapter('orca', 251, 100000)
+        ]);
+
+        const result = await router.selectBestDex('SOL', 'USDC', '1000000000');
+
+        expect(result.dex).toBe('orca');
+        expect(result.allQuotes.map(quote => quote.dex)).toEqual(['raydium', 'meteora', 'orca']);
+        expect(result.splits).toBeUndefined();
+    });
+
+    test('should leave disabled venues out of routing and execution', async () => {
+        const orca = new FakeAdapter('orca', 251, 100000);
+        const router = routerWith([new FakeAdapter('raydium', 250, 100000), orca], ['raydium']);
+
+        const route = await router.selectBestDex('SOL', 'USDC', '1000000000');
+        const execution = await router.executeSwap('orca', order());
+
+        expect(route.dex).toBe('raydium');
+        expect(route.allQuotes).toHaveLength(1);
+        expect(execution).toEqual({ success: false, error: 'Unsupported DEX: orca' });
+        expect(orca.executeSwap).not.toHaveBeenCalled();
+    });
+
+    test('should route around a venue that cannot quote', async () => {
+        const router = routerWith([
+            new FakeAdapter('raydium', 250, 100000, true),
+            new FakeAdapter('meteora', 249, 100000)
+        ]);
+
+        const result = await router.selectBestDex('SOL', 'USDC', '1000000000');
+
+        expect(result.dex).toBe('meteora');
+        expect(result.routingReason).toContain('only venue');
+    });
+
+    test('should split large orders across the two best venues', async () => {
+        const router = routerWith([
+            new FakeAdapter('raydium', 250, 1000),
+            new FakeAdapter('meteora', 250, 1000),
+            new FakeAdapter('orca', 200, 1000)
+        ]);
+
+        const result = await router.selectBestDex('SOL', 'USDC', '500000000000'); // 500 SOL
+
+        expect(result.splits!.map(split => split.dex).sort()).toEqual(['meteora', 'raydium']);
+        expect(result.splits!.reduce((total, split) => total + BigInt(split.amountIn), BigInt(0))).toBe(BigInt('500000000000'));
+    });
+
+    test('should build and execute on the chosen adapter with the slippage floor', async () => {
+        const raydium = new FakeAdapter('raydium', 250, 100000);
+        const router = routerWith([raydium]);
+
+        const result = await router.executeSwap('raydium', order({ slippageBps: 100 }));
+
+        const [pool, , , amountIn, minAmountOut, wallet] = raydium.buildSwap.mock.calls[0];
+        expect(pool.address).toBe('raydium-pool');
+        expect(amountIn).toBe('1000000000');
+        expect(Number(minAmountOut)).toBeCloseTo(250 * 0.99 * 1e6, -4);
+        expect(wallet.id).toBe('engine'); // orders without an account sign with the engine wallet
+        expect(raydium.executeSwap).toHaveBeenCalledWith(expect.objectContaining({ dex: 'raydium', minAmountOut }), wallet);
+        expect(result).toEqual(expect.objectContaining({ success: true, txHash: 'raydium-signature', confirmationStatus: 'confirmed' }));
+    });
+
+    test('should report the output the wallet received rather than the quote', async () => {
+        const raydium = new FakeAdapter('raydium', 250, 100000);
+        const router = routerWith([raydium]);
+        confirmationTracker.amountReceived.mockResolvedValueOnce('251000000');
+
+        const result = await router.executeSwap('raydium', order({ slippageBps: 100 }));
+
+        const [, , , , , wallet] = raydium.buildSwap.mock.calls[0];
+        expect(confirmationTracker.amountReceived).toHaveBeenCalledWith('raydium-signature', wallet.signer.publicKey, expect.any(String));
+        expect(result).toEqual(expect.objectContaining({ success: true, amountReceived: '251000000', actualAmountOut: 251 }));
+    });
+
+    test('should send the swap with a compute budget sized from its simulation and report the fee', async () => {
+        const raydium = new FakeAdapter('raydium', 250, 100000);
+        const router = routerWith([raydium]);
+
+        const result = await router.executeSwap('raydium', order({ type: OrderType.SNIPER }));
+
+        expect(feeStrategy.getFee).toHaveBeenCalledWith(expect.objectContaining({ type: OrderType.SNIPER }), expect.objectContaining({ dex: 'raydium' }), 60000);
+        expect(raydium.executeSwap).toHaveBeenCalledWith(expect.objectContaining({ transaction: { budgeted: true } }), expect.anything());
+        expect(result.fee).toEqual({ computeUnitLimit: 60000, computeUnitPrice: 10000, priorityFeeLamports: 600, feeLamports: 5600 });
+    });
+
+    test('should send bundle-mode orders through the block engine and charge the tip', async () => {
+        const raydium = new FakeAdapter('raydium', 250, 100000);
+        const router = routerWith([raydium]);
+
+        const result = await router.executeSwap('raydium', order({ submissionMode: SubmissionMode.BUNDLE }));
+
+        expect(bundleSubmitter.send).toHaveBeenCalledWith(expect.objectContaining({ transaction: { budgeted: true } }), expect.objectContaining({ id: 'engine' }));
+        expect(raydium.executeSwap).not.toHaveBeenCalled();
+        expect(result).toEqual(expect.objectContaining({ success: true, txHash: 'raydium-bundled-signature', submittedVia: SubmissionMode.BUNDLE }));
+        expect(result.fee).toEqual(expect.objectContaining({ tipLamports: 10000, feeLamports: 5600 + 10000 + 5000 }));
+        expect(confirmationTracker.hasLanded).toHaveBeenCalledWith('tip-signature');
+
+        await router.executeSwap('raydium', order());
+        expect(bundleSubmitter.send).toHaveBeenCalledTimes(1); // orders default to public RPC
+        expect(raydium.executeSwap).toHaveBeenCalledTimes(1);
+    });
+
+    test('should charge no tip when the swap landed over the RPC fallback instead of its bundle', async () => {
+        const router = routerWith([new FakeAdapter('raydium', 250, 100000)]);
+        confirmationTracker.hasLanded.mockResolvedValueOnce(false);
+
+        const result = await router.executeSwap('raydium', order({ submissionMode: SubmissionMode.BUNDLE }));
+
+        expect(result).toEqual(expect.objectContaining({ success: true, submittedVia: SubmissionMode.RPC }));
+        expect(result.fee).toEqual({ computeUnitLimit: 60000, computeUnitPrice: 10000, priorityFeeLamports: 600, feeLamports: 5600 });
+    });
+
+    test('should fail with the on-chain error when the sent swap fails to confirm', async () => {
+        const raydium = new FakeAdapter('raydium', 250, 100000);
+        const router = routerWith([raydium]);
+
+        confirmationTracker.confirm.mockResolvedValueOnce({
+            signature: 'raydium-signature', status: 'failed', error: 'Instruction 2 failed: custom program error 0x1e', resubmits: 0
+        });
+        expect(await router.executeSwap('raydium', order())).toEqual(expect.objectContaining({
+            success: false,
+            txHash: 'raydium-signature',
+            error: 'Transaction failed on-chain: Instruction 2 failed: custom program error 0x1e',
+            errorCode: ExecutionErrorCode.TRANSACTION_FAILED
+        }));
+
+        confirmationTracker.confirm.mockResolvedValueOnce({ signature: 'raydium-signature', status: 'expired', resubmits: 2 });
+        expect(await router.executeSwap('raydium', order())).toEqual(expect.objectContaining({
+            success: false,
+            error: 'Transaction expired without landing after 2 resubmissions',
+            errorCode: ExecutionErrorCode.TRANSACTION_EXPIRED
+        }));
+    });
+
+    test('should fail as final with an unknown outcome when following the sent swap fails', async () => {
+        const raydium = new FakeAdapter('raydium', 250, 100000);
+        const router = routerWith([raydium]);
+
+        confirmationTracker.confirm.mockRejectedValueOnce(new Error('Could not poll transaction raydium-signature: 503 Service Unavailable'));
+
+        expect(await router.executeSwap('raydium', order())).toEqual(expect.objectContaining({
+            success: false,
+            txHash: 'raydium-signature',
+            error: 'Swap sent but its outcome is unknown: Could not poll transaction raydium-signature: 503 Service Unavailable',
+            errorCode: ExecutionErrorCode.OUTCOME_UNKNOWN
+        }));
+    });
+
+    test('should free the wallet once the swap is sent, taking it again only to resubmit', async () => {
+        const raydium = new FakeAdapter('raydium', 250, 100000);
+        const router = routerWith([raydium]);
+
+        let landFirst!: () => void;
+        confirmationTracker.confirm.mockImplementationOnce(async (send) => {
+            await new Promise<void>(resolve => { landFirst = resolve; });
+            return { signature: (await send()).signature, status: 'confirmed', resubmits: 1 };
+        });
+
+        const first = router.executeSwap('raydium', order());
+        await router.executeSwap('raydium', order({ id: 'order-2' }));
+        expect(raydium.executeSwap).toHaveBeenCalledTimes(2); // sent while the first swap was still confirming
+
+        landFirst();
+        expect(await first).toEqual(expect.objectContaining({ success: true, resubmits: 1 }));
+        expect(raydium.executeSwap).toHaveBeenCalledTimes(3);
+    });
+
+    test('should simulate the built swap before sending it and never send a failing one', async () => {
+        const raydium = new FakeAdapter('raydium', 250, 100000);
+        const router = routerWith([raydium]);
+        const onSimulated = jest.fn(async () => {
+            expect(raydium.executeSwap).not.toHaveBeenCalled();
+        });
+
+        const result = await router.executeSwap('raydium', order(), undefined, onSimulated);
+
+        expect(raydium.simulateSwap).toHaveBeenCalledWith(expect.objectContaining({ dex: 'raydium', minAmountOut: raydium.buildSwap.mock.calls[0][4] }));
+        expect(onSimulated).toHaveBeenCalledWith(expect.objectContaining({ unitsConsumed: 60000 }));
+        expect(result.simulation).toEqual(expect.objectContaining({ unitsConsumed: 60000 }));
+
+        raydium.executeSwap.mockClear();
+        onSimulated.mockClear();
+        raydium.simulateSwap.mockResolvedValueOnce({ logs: [], error: 'Instruction 2 failed: custom program error 0x1e' });
+
+        const failed = await router.executeSwap('raydium', order(), undefined, onSimulated);
+
+        expect(failed).toEqual(expect.objectContaining({
+            success: false,
+            error: 'Simulation failed: Instruction 2 failed: custom program error 0x1e',
+            errorCode: ExecutionErrorCode.SIMULATION_FAILED
+        }));
+        expect(onSimulated).not.toHaveBeenCalled();
+        expect(raydium.executeSwap).not.toHaveBeenCalled();
+    });
+
+    test('should decode the failing program and its message from transaction errors', () => {
+        const logs = [
+            'Program 675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8 invoke [1]',
+            'Program log: Error: exceeds desired slippage limit',
+            'Program 675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8 failed: custom program error: 0x1e'
+        ];
+
+        expect(decodeTransactionError({ InstructionError: [2, { Custom: 30 }] }, logs)).toBe(
+            'Instruction 2 failed in program 675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8: custom program error 0x1e (exceeds desired slippage limit)'
+        );
+        expect(decodeTransactionError({ InstructionError: [0, 'InvalidAccountData'] }, [])).toBe('Instruction 0 failed: InvalidAccountData');
+        expect(decodeTransactionError('InsufficientFundsForFee', [])).toBe('Transaction failed: InsufficientFundsForFee');
+    });
+
+    test('should report health for enabled venues only', async () => {
+        const router = routerWith([
+            new FakeAdapter('raydium', 250, 100000),
+            new FakeAdapter('meteora', 249, 100000, true)
+        ], ['raydium', 'meteora']);
+
+        const health = await router.checkHealth();
+
+        expect(health).toEqual([
+            { dex: 'raydium', healthy: true },
+            { dex: 'meteora', healthy: false }
+        ]);
+    });
+
+    describe('multi-hop routes', () => {
+        // BONK and JUP only trade against base tokens, plus an optional thin direct pool
+        const hopRouter = (adapters: DexAdapter[], pools: PoolConfig[]) => {
+            const registry = new DexRegistry();
+            adapters.forEach(adapter => registry.register(adapter));
+
+            const tokenRegistry = new TokenRegistry({
+                tokens: [
+                    { symbol: 'SOL', mint: SOL_MINT, decimals: 9 },
+                    { symbol: 'USDC', mint: USDC_MINT, decimals: 6 },
+                    { symbol: 'BONK', mint: BONK_MINT, decimals: 5 },
+                    { symbol: 'JUP', mint: JUP_MINT, decimals: 6 }
+                ],
+                pools,
+                baseTokens: ['SOL', 'USDC']
+            });
+
+            return new dexRouter({} as any, registry, tokenRegistry);
+        };
+
+        const basePools: PoolConfig[] = [
+            { dex: 'raydium', address: 'bonk-sol', mints: [BONK_MINT, SOL_MINT] },
+            { dex: 'meteora', address: 'sol-jup', mints: [SOL_MINT, JUP_MINT] }
+        ];
+
+        test('should route through a base token when the pair has no pool', async () => {
+            const router = hopRouter([
+                new FakeAdapter('raydium', { 'BONK/SOL': 0.0000001 }, 1e12),
+                new FakeAdapter('meteora', { 'SOL/JUP': 200 }, 1e6)
+            ], basePools);
+
+            const result = await router.selectBestDex('BONK', 'JUP', '100000000000'); // 1M BONK
+
+            expect(result.dex).toBe('raydium>meteora');
+            expect(result.hops!.map(hop => [hop.tokenIn, hop.tokenOut, hop.dex])).toEqual([
+                ['BONK', 'SOL', 'raydium'],
+                ['SOL', 'JUP', 'meteora']
+            ]);
+            expect(result.hops![0].amountIn).toBe('100000000000');
+            expect(result.hops![1].amountIn).toBe(result.hops![0].quote.amountOut);
+            expect(result.expectedAmountOut).toBe(result.hops![1].quote.amountOut);
+            expect(result.bestQuote.price).toBeCloseTo(0.00002, 7);
+        });
+
+        test('should prefer the path with the highest output over a thin direct pool', async () => {
+            const router = hopRouter([
+                new FakeAdapter('raydium', { 'BONK/SOL': 0.0000001 }, 1e12),
+                new FakeAdapter('meteora', { 'SOL/JUP': 200 }, 1e6),
+                new FakeAdapter('orca', { 'BONK/JUP': 0.00002 }, 1e4)
+            ], [...basePools, { dex: 'orca', address: 'bonk-jup', mints: [BONK_MINT, JUP_MINT] }]);
+
+            const small = await router.selectBestDex('BONK', 'JUP', '100000'); // 1 BONK
+            const large = await router.selectBestDex('BONK', 'JUP', '100000000000');
+
+            expect(small.dex).toBe('orca');
+            expect(small.hops).toBeUndefined();
+            expect(large.dex).toBe('raydium>meteora');
+            expect(large.routingReason).toContain('BONK -> SOL -> JUP');
+            expect(large.routingReason).toContain('on orca');
+        });
+    });
+
+    test('should reject registering the same venue twice', () => {
+        const registry = new DexRegistry();
+        registry.register(new FakeAdapter('raydium', 250, 100000));
+
+        expect(() => registry.register(new FakeAdapter('raydium', 250, 100000))).toThrow('DEX raydium is already registered');
+    });
+});
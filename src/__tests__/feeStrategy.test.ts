@@ -0,0 +1,127 @@
+import { ComputeBudgetInstruction, ComputeBudgetProgram, Keypair, SystemProgram, Transaction, TransactionMessage, VersionedTransaction } from '@solana/web3.js';
+import { FeeStrategy } from '../services/feeStrategy';
+import { BuiltSwap, Order, OrderStatus, OrderType } from '../types';
+
+describe('FeeStrategy - Priority Fee and Compute Budget Tests', () => {
+    const payer = Keypair.generate().publicKey;
+    const pool = Keypair.generate().publicKey;
+    const blockhash = Keypair.generate().publicKey.toBase58();
+
+    let recentFees: number[];
+    let connection: any;
+
+    const order = (type: OrderType): Order => ({
+        id: 'fee-order',
+        type,
+        tokenIn: 'SOL',
+        tokenOut: 'USDC',
+        tokenInMint: 'So11111111111111111111111111111111111111112',
+        tokenOutMint: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+        amountIn: '1000000000',
+        status: OrderStatus.ROUTING,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        retryCount: 0
+    });
+
+    // A swap stand-in writing to the pool, with a compute budget the venue already set
+    const legacySwap = (): BuiltSwap => {
+        const transaction = new Transaction().add(
+            ComputeBudgetProgram.setComputeUnitPrice({ microLamports: 1 }),
+            SystemProgram.transfer({ fromPubkey: payer, toPubkey: pool, lamports: 1000 })
+        );
+        transaction.feePayer = payer;
+        transaction.recentBlockhash = blockhash;
+        return { dex: 'meteora', transaction, signers: [], amountIn: '1000000000', minAmountOut: '1' };
+    };
+
+    const versionedSwap = (): BuiltSwap => {
+        const message = new TransactionMessage({
+            payerKey: payer,
+            recentBlockhash: blockhash,
+            instructions: [SystemProgram.transfer({ fromPubkey: payer, toPubkey: pool, lamports: 1000 })]
+        });
+        return { dex: 'raydium', transaction: new VersionedTransaction(message.compileToV0Message()), signers: [], amountIn: '1000000000', minAmountOut: '1' };
+    };
+
+    beforeEach(() => {
+        recentFees = [0, 100, 200, 300, 400, 500, 600, 700, 800, 900, 5000, 20000];
+        connection = {
+            getRecentPrioritizationFees: jest.fn(async () => recentFees.map((prioritizationFee, slot) => ({ slot, prioritizationFee }))),
+            getAddressLookupTable: jest.fn()
+        };
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    test('should bid higher percentiles of recent fees for more urgent order types', async () => {
+        const strategy = new FeeStrategy(connection, { minComputeUnitPrice: 0 });
+
+        const sniper = await strategy.getFee(order(OrderType.SNIPER), legacySwap(), 100000);
+        const market = await strategy.getFee(order(OrderType.MARKET), legacySwap(), 100000);
+        const limit = await strategy.getFee(order(OrderType.LIMIT), legacySwap(), 100000);
+
+        expect([sniper.computeUnitPrice, market.computeUnitPrice, limit.computeUnitPrice]).toEqual([5000, 800, 500]);
+        expect(connection.getRecentPrioritizationFees).toHaveBeenCalledWith({
+            lockedWritableAccounts: expect.arrayContaining([payer, pool])
+        });
+    });
+
+    test('should size the unit limit from simulation and charge the priority fee on it', async () => {
+        const strategy = new FeeStrategy(connection, { minComputeUnitPrice: 0 });
+
+        const fee = await strategy.getFee(order(OrderType.MARKET), legacySwap(), 100000);
+
+        expect(fee).toEqual({
+            computeUnitLimit: 120300,
+            computeUnitPrice: 800,
+            priorityFeeLamports: 97, // 120300 CU * 800 micro-lamports, rounded up
+            feeLamports: 5097
+        });
+        expect((await strategy.getFee(order(OrderType.MARKET), legacySwap())).computeUnitLimit).toBe(200000);
+        expect((await strategy.getFee(order(OrderType.MARKET), legacySwap(), 2000000)).computeUnitLimit).toBe(1400000);
+    });
+
+    test('should keep the price within bounds and bid the minimum without recent fees', async () => {
+        const strategy = new FeeStrategy(connection, { minComputeUnitPrice: 1000, maxComputeUnitPrice: 3000 });
+
+        expect((await strategy.getFee(order(OrderType.SNIPER), legacySwap(), 100000)).computeUnitPrice).toBe(3000);
+        expect((await strategy.getFee(order(OrderType.LIMIT), legacySwap(), 100000)).computeUnitPrice).toBe(1000);
+
+        connection.getRecentPrioritizationFees.mockRejectedValueOnce(new Error('Method not found'));
+        expect((await strategy.getFee(order(OrderType.SNIPER), legacySwap(), 100000)).computeUnitPrice).toBe(1000);
+    });
+
+    test('should replace the venue compute budget with its own in front of the swap', async () => {
+        const strategy = new FeeStrategy(connection);
+        const fee = { computeUnitLimit: 120300, computeUnitPrice: 800, priorityFeeLamports: 97, feeLamports: 5097 };
+
+        const { transaction } = await strategy.applyFee(legacySwap(), fee);
+        const instructions = (transaction as Transaction).instructions;
+
+        expect(instructions).toHaveLength(3);
+        expect(ComputeBudgetInstruction.decodeSetComputeUnitLimit(instructions[0]).units).toBe(120300);
+        expect(BigInt(ComputeBudgetInstruction.decodeSetComputeUnitPrice(instructions[1]).microLamports)).toBe(BigInt(800));
+        expect(instructions[2].programId.equals(SystemProgram.programId)).toBe(true);
+        expect((transaction as Transaction).feePayer!.equals(payer)).toBe(true);
+    });
+
+    test('should add the compute budget to versioned swaps', async () => {
+        const strategy = new FeeStrategy(connection);
+        const fee = { computeUnitLimit: 80000, computeUnitPrice: 5000, priorityFeeLamports: 400, feeLamports: 5400 };
+
+        const { transaction } = await strategy.applyFee(versionedSwap(), fee);
+        const decompiled = TransactionMessage.decompile((transaction as VersionedTransaction).message);
+
+        expect(decompiled.instructions.map(instruction => instruction.programId.toBase58())).toEqual([
+            ComputeBudgetProgram.programId.toBase58(),
+            ComputeBudgetProgram.programId.toBase58(),
+            SystemProgram.programId.toBase58()
+        ]);
+        expect(ComputeBudgetInstruction.decodeSetComputeUnitLimit(decompiled.instructions[0]).units).toBe(80000);
+        expect(decompiled.payerKey.equals(payer)).toBe(true);
+    });
+});
@@ -1,4 +1,4 @@
-import { FastifyInstance } from 'fastify';
+import { FastifyInstance, InjectOptions } from 'fastify';
 import { orderRoutes } from '../routes/orders';
 import { WebSocketManager } from '../services/websocketManager';
 import { Database } from '../database/connection';
@@ -6,6 +6,18 @@ import { OrderQueue } from '../services/queue';
 import { OrderExecutionEngine } from '../services/orderExecutionEngine';
 import { MockDexRouter } from '../services/mockDexRouter';
 import { SolanaConnectionManager } from '../services/solanaConnection';
+import { TokenRegistry } from '../services/tokenRegistry';
+import { authPlugin, hashApiKey } from '../plugins/auth';
+import { RiskManager } from '../services/riskManager';
+import { WalletManager } from '../services/walletManager';
+import { walletRoutes } from '../routes/wallets';
+import { scheduleRoutes } from '../routes/schedules';
+import { DcaScheduler } from '../services/dcaScheduler';
+import { QuoteCache } from '../services/quoteCache';
+import { RiskLimitError, WalletExistsError } from '../database/connection';
+import { Keypair } from '@solana/web3.js';
+import { KeypairSigner } from '../services/signers/keypairSigner';
+import { randomBytes } from 'crypto';
 
 // Mock external dependencies
 jest.mock('../database/connection');
@@ -13,10 +25,19 @@ jest.mock('../services/solanaConnection');
 jest.mock('ioredis');
 jest.mock('bullmq');
 
+const API_KEY = 'test-api-key';
+const ACCOUNT_ID = 'account-1';
+
 describe('Integration Tests - API and WebSocket', () => {
   let app: FastifyInstance;
   let port: number;
 
+  // Requests from the account that owns the mocked orders
+  const inject = (options: InjectOptions) => app.inject({
+    ...options,
+    headers: { 'x-api-key': API_KEY, ...options.headers }
+  });
+
   beforeAll(async () => {
     // Build the app
     app = await build({ logger: false });
@@ -36,7 +57,7 @@ describe('Integration Tests - API and WebSocket', () => {
   });
 
   test('should accept valid order submission', async () => {
-    const response = await app.inject({
+    const response = await inject({
       method: 'POST',
       url: '/api/orders/execute',
       payload: {
@@ -56,7 +77,7 @@ describe('Integration Tests - API and WebSocket', () => {
   });
 
   test('should reject invalid order - missing tokenIn', async () => {
-    const response = await app.inject({
+    const response = await inject({
       method: 'POST',
       url: '/api/orders/execute',
       payload: {
@@ -71,7 +92,7 @@ describe('Integration Tests - API and WebSocket', () => {
   });
 
   test('should reject invalid order - zero amount', async () => {
-    const response = await app.inject({
+    const response = await inject({
       method: 'POST',
       url: '/api/orders/execute',
       payload: {
@@ -87,7 +108,7 @@ describe('Integration Tests - API and WebSocket', () => {
   });
 
   test('should reject invalid order - same tokens', async () => {
-    const response = await app.inject({
+    const response = await inject({
       method: 'POST',
       url: '/api/orders/execute',
       payload: {
@@ -103,7 +124,7 @@ describe('Integration Tests - API and WebSocket', () => {
   });
 
   test('should reject invalid order - invalid amount', async () => {
-    const response = await app.inject({
+    const response = await inject({
       method: 'POST',
       url: '/api/orders/execute',
       payload: {
@@ -120,7 +141,7 @@ describe('Integration Tests - API and WebSocket', () => {
 
   test('should handle concurrent order submissions', async () => {
     const orderPromises = Array.from({ length: 10 }, (_, i) => 
-      app.inject({
+      inject({
         method: 'POST',
         url: '/api/orders/execute',
         payload: {
@@ -146,9 +167,298 @@ describe('Integration Tests - API and WebSocket', () => {
     expect(uniqueIds.size).toBe(orderIds.length);
   });
 
+  test('should accept order with slippage tolerance and minimum out', async () => {
+    const response = await inject({
+      method: 'POST',
+      url: '/api/orders/execute',
+      payload: {
+        tokenIn: 'SOL',
+        tokenOut: 'USDC',
+        amountIn: 1,
+        slippageBps: 50,
+        minAmountOut: 245.5
+      }
+    });
+
+    expect(response.statusCode).toBe(201);
+  });
+
+  test('should reject order with out-of-range slippage tolerance', async () => {
+    const response = await inject({
+      method: 'POST',
+      url: '/api/orders/execute',
+      payload: {
+        tokenIn: 'SOL',
+        tokenOut: 'USDC',
+        amountIn: 1,
+        slippageBps: 20000
+      }
+    });
+
+    expect(response.statusCode).toBe(400);
+  });
+
+  test('should accept tokens given by mint address', async () => {
+    const response = await inject({
+      method: 'POST',
+      url: '/api/orders/execute',
+      payload: {
+        tokenIn: 'So11111111111111111111111111111111111111112',
+        tokenOut: 'usdc',
+        amountIn: 1
+      }
+    });
+
+    expect(response.statusCode).toBe(201);
+  });
+
+  test('should reject order for an unknown token', async () => {
+    const response = await inject({
+      method: 'POST',
+      url: '/api/orders/execute',
+      payload: {
+        tokenIn: 'SOL',
+        tokenOut: 'NOTATOKEN',
+        amountIn: 1
+      }
+    });
+
+    expect(response.statusCode).toBe(400);
+    const body = JSON.parse(response.body);
+    expect(body).toHaveProperty('message', 'Unsupported token: NOTATOKEN');
+  });
+
+  test('should reject order for a pair no pool serves', async () => {
+    const response = await inject({
+      method: 'POST',
+      url: '/api/orders/limit',
+      payload: {
+        tokenIn: 'SOL',
+        tokenOut: 'USDT',
+        amountIn: 1,
+        limitPrice: 250
+      }
+    });
+
+    expect(response.statusCode).toBe(400);
+    const body = JSON.parse(response.body);
+    expect(body).toHaveProperty('message', 'Unsupported pair: SOL/USDT');
+  });
+
+  test('should replay the original order for a repeated idempotency key', async () => {
+    const submit = (payload: object) => inject({
+      method: 'POST',
+      url: '/api/orders/execute',
+      headers: { 'idempotency-key': 'retry-after-timeout' },
+      payload
+    });
+
+    const first = await submit({ tokenIn: 'SOL', tokenOut: 'USDC', amountIn: 3 });
+    const retry = await submit({ amountIn: 3, tokenOut: 'USDC', tokenIn: 'SOL' });
+
+    expect(first.statusCode).toBe(201);
+    expect(retry.statusCode).toBe(201);
+    expect(retry.headers['idempotent-replayed']).toBe('true');
+    expect(JSON.parse(retry.body)).toEqual(JSON.parse(first.body));
+  });
+
+  test('should reject a reused idempotency key with a different body', async () => {
+    const submit = (amountIn: number) => inject({
+      method: 'POST',
+      url: '/api/orders/execute',
+      headers: { 'idempotency-key': 'reused-key' },
+      payload: { tokenIn: 'SOL', tokenOut: 'USDC', amountIn }
+    });
+
+    await submit(1);
+    const conflict = await submit(2);
+
+    expect(conflict.statusCode).toBe(409);
+    expect(JSON.parse(conflict.body)).toHaveProperty('error', 'Idempotency key conflict');
+  });
+
+  test('should accept valid limit order submission', async () => {
+    const response = await inject({
+      method: 'POST',
+      url: '/api/orders/limit',
+      payload: {
+        tokenIn: 'SOL',
+        tokenOut: 'USDC',
+        amountIn: 1,
+        limitPrice: 260
+      }
+    });
+
+    expect(response.statusCode).toBe(201);
+    const body = JSON.parse(response.body);
+    expect(body).toHaveProperty('orderId');
+    expect(body).toHaveProperty('status', 'waiting_trigger');
+    expect(body).toHaveProperty('limitPrice', 260);
+    expect(body).toHaveProperty('expiresAt');
+
+    // 1 SOL at 260 USDC, in USDC base units, so the swap cannot fill below the limit
+    expect(mockDatabase.createOrder).toHaveBeenLastCalledWith(expect.objectContaining({ id: body.orderId, minAmountOut: '260000000' }), expect.anything());
+  });
+
+  test('should reject limit order without limit price', async () => {
+    const response = await inject({
+      method: 'POST',
+      url: '/api/orders/limit',
+      payload: {
+        tokenIn: 'SOL',
+        tokenOut: 'USDC',
+        amountIn: 1
+      }
+    });
+
+    expect(response.statusCode).toBe(400);
+  });
+
+  test('should reject limit order that has already expired', async () => {
+    const response = await inject({
+      method: 'POST',
+      url: '/api/orders/limit',
+      payload: {
+        tokenIn: 'SOL',
+        tokenOut: 'USDC',
+        amountIn: 1,
+        limitPrice: 260,
+        expiresAt: new Date(Date.now() - 60000).toISOString()
+      }
+    });
+
+    expect(response.statusCode).toBe(400);
+    const body = JSON.parse(response.body);
+    expect(body).toHaveProperty('message', 'Expiry time must be in the future');
+  });
+
+  test('should schedule a TWAP order as delayed slices held to its limit price', async () => {
+    const response = await inject({
+      method: 'POST',
+      url: '/api/orders/twap',
+      payload: {
+        tokenIn: 'SOL',
+        tokenOut: 'USDC',
+        amountIn: 1,
+        limitPrice: 250,
+        slices: 4,
+        durationSeconds: 60
+      }
+    });
+
+    expect(response.statusCode).toBe(201);
+    const body = JSON.parse(response.body);
+    expect(body).toHaveProperty('status', 'submitted');
+    expect(body).toHaveProperty('slices', 4);
+    expect(body).toHaveProperty('intervalMs', 15000);
+
+    const [order, slices] = mockDatabase.createTwapOrder.mock.calls[0];
+    expect(order).toEqual(expect.objectContaining({ type: 'twap', amountIn: '1000000000', limitPrice: 250 }));
+    expect(order.twap).toEqual(expect.objectContaining({ slices: 4, settledSlices: 0, amountRemaining: '1000000000' }));
+    expect(slices).toHaveLength(4);
+    slices.forEach(slice => expect(slice).toEqual(expect.objectContaining({
+      type: 'market',
+      status: 'pending',
+      parentOrderId: order.id,
+      amountIn: '250000000',
+      minAmountOut: '62500000' // a quarter SOL at 250 USDC
+    })));
+    expect(mockOrderQueue.addOrder.mock.calls.slice(-4).map(([queued, delayMs]) => [queued.id, delayMs]))
+      .toEqual(slices.map((slice, index) => [slice.id, index * 15000]));
+  });
+
+  test('should reject TWAP order with fewer than two slices', async () => {
+    const response = await inject({
+      method: 'POST',
+      url: '/api/orders/twap',
+      payload: { tokenIn: 'SOL', tokenOut: 'USDC', amountIn: 1, limitPrice: 250, slices: 1, durationSeconds: 60 }
+    });
+
+    expect(response.statusCode).toBe(400);
+  });
+
+  test('should accept stop-loss and take-profit orders', async () => {
+    for (const [url, type] of [['/api/orders/stop-loss', 'stop_loss'], ['/api/orders/take-profit', 'take_profit']]) {
+      const response = await inject({
+        method: 'POST',
+        url,
+        payload: { tokenIn: 'SOL', tokenOut: 'USDC', amountIn: 1, triggerPrice: 200 }
+      });
+
+      expect(response.statusCode).toBe(201);
+      const body = JSON.parse(response.body);
+      expect(body).toHaveProperty('type', type);
+      expect(body).toHaveProperty('status', 'waiting_trigger');
+      expect(body).toHaveProperty('triggerPrice', 200);
+      expect(mockDatabase.createOrder).toHaveBeenLastCalledWith(expect.objectContaining({ id: body.orderId, type, triggerPrice: 200 }), expect.anything());
+    }
+  });
+
+  test('should store both orders of an OCO pair linked to each other', async () => {
+    const response = await inject({
+      method: 'POST',
+      url: '/api/orders/oco',
+      payload: { tokenIn: 'SOL', tokenOut: 'USDC', amountIn: 1, stopLossPrice: 200, takeProfitPrice: 300 }
+    });
+
+    expect(response.statusCode).toBe(201);
+    const body = JSON.parse(response.body);
+    const [stopLoss, takeProfit] = mockDatabase.createOcoOrders.mock.calls[0];
+    expect(stopLoss).toEqual(expect.objectContaining({ type: 'stop_loss', triggerPrice: 200, ocoOrderId: takeProfit.id, status: 'waiting_trigger' }));
+    expect(takeProfit).toEqual(expect.objectContaining({ type: 'take_profit', triggerPrice: 300, ocoOrderId: stopLoss.id, status: 'waiting_trigger' }));
+    expect(body.stopLoss).toHaveProperty('orderId', stopLoss.id);
+    expect(body.takeProfit).toHaveProperty('orderId', takeProfit.id);
+  });
+
+  test('should reject OCO order with the stop-loss above the take-profit', async () => {
+    const response = await inject({
+      method: 'POST',
+      url: '/api/orders/oco',
+      payload: { tokenIn: 'SOL', tokenOut: 'USDC', amountIn: 1, stopLossPrice: 300, takeProfitPrice: 200 }
+    });
+
+    expect(response.statusCode).toBe(400);
+    expect(JSON.parse(response.body)).toHaveProperty('message', 'Stop-loss price must be below the take-profit price');
+  });
+
+  test('should arm valid sniper order', async () => {
+    const response = await inject({
+      method: 'POST',
+      url: '/api/orders/sniper',
+      payload: {
+        tokenIn: 'SOL',
+        targetMint: 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263',
+        amountIn: 0.5,
+        maxPrice: 0.001
+      }
+    });
+
+    expect(response.statusCode).toBe(201);
+    const body = JSON.parse(response.body);
+    expect(body).toHaveProperty('status', 'waiting_trigger');
+    expect(body).toHaveProperty('targetMint', 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263');
+  });
+
+  test('should reject sniper order with invalid target mint', async () => {
+    const response = await inject({
+      method: 'POST',
+      url: '/api/orders/sniper',
+      payload: {
+        tokenIn: 'SOL',
+        targetMint: '0000000000000000000000000000000000000000',
+        amountIn: 0.5,
+        maxPrice: 0.001
+      }
+    });
+
+    expect(response.statusCode).toBe(400);
+    const body = JSON.parse(response.body);
+    expect(body).toHaveProperty('message', 'Target mint is not a valid address');
+  });
+
   test('should get order details by ID', async () => {
     // First create an order
-    const createResponse = await app.inject({
+    const createResponse = await inject({
       method: 'POST',
       url: '/api/orders/execute',
       payload: {
@@ -161,7 +471,7 @@ describe('Integration Tests - API and WebSocket', () => {
     const { orderId } = JSON.parse(createResponse.body);
 
     // Then get the order details
-    const getResponse = await app.inject({
+    const getResponse = await inject({
       method: 'GET',
       url: `/api/orders/${orderId}`
     });
@@ -174,7 +484,7 @@ describe('Integration Tests - API and WebSocket', () => {
   });
 
   test('should return 404 for non-existent order', async () => {
-    const response = await app.inject({
+    const response = await inject({
       method: 'GET',
       url: '/api/orders/non-existent-id'
     });
@@ -184,6 +494,414 @@ describe('Integration Tests - API and WebSocket', () => {
     expect(body).toHaveProperty('error', 'Order not found');
   });
 
+  test('should list orders with filters and a cursor for the next page', async () => {
+    const response = await inject({
+      method: 'GET',
+      url: '/api/orders?status=confirmed,failed&tokenIn=sol&tokenOut=USDC&dex=raydium&limit=2'
+    });
+
+    expect(response.statusCode).toBe(200);
+    const body = JSON.parse(response.body);
+    expect(body.orders).toHaveLength(2);
+    expect(body.nextCursor).toEqual(expect.any(String));
+    expect(listOrders).toHaveBeenLastCalledWith(expect.objectContaining({
+      accountId: ACCOUNT_ID,
+      statuses: ['confirmed', 'failed'],
+      tokenInMint: 'So11111111111111111111111111111111111111112',
+      tokenOutMint: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+      dex: 'raydium',
+      sortBy: 'createdAt',
+      sortDirection: 'desc',
+      limit: 2,
+      after: undefined
+    }));
+
+    const nextPage = await inject({
+      method: 'GET',
+      url: `/api/orders?limit=2&cursor=${body.nextCursor}`
+    });
+
+    expect(nextPage.statusCode).toBe(200);
+    expect(listOrders).toHaveBeenLastCalledWith(expect.objectContaining({
+      after: { value: new Date('2024-01-15T10:30:00.000Z'), id: 'listed-2' }
+    }));
+  });
+
+  test('should reject unknown statuses and cursors issued for another sort', async () => {
+    const badStatus = await inject({ method: 'GET', url: '/api/orders?status=done' });
+    expect(badStatus.statusCode).toBe(400);
+    expect(JSON.parse(badStatus.body)).toHaveProperty('message', 'Unknown status: done');
+
+    const firstPage = await inject({ method: 'GET', url: '/api/orders?limit=2' });
+    const { nextCursor } = JSON.parse(firstPage.body);
+
+    const badCursor = await inject({ method: 'GET', url: `/api/orders?sortBy=updatedAt&cursor=${nextCursor}` });
+    expect(badCursor.statusCode).toBe(400);
+  });
+
+  test('should return the status history of an order', async () => {
+    const response = await inject({
+      method: 'GET',
+      url: '/api/orders/pending-order/events'
+    });
+
+    expect(response.statusCode).toBe(200);
+    const body = JSON.parse(response.body);
+    expect(body).toHaveProperty('orderId', 'pending-order');
+    expect(body.events.map((event: any) => event.toStatus)).toEqual(['pending', 'routing']);
+    expect(body.events[1]).toHaveProperty('fromStatus', 'pending');
+  });
+
+  test('should return 404 for the history of a non-existent order', async () => {
+    const response = await inject({
+      method: 'GET',
+      url: '/api/orders/non-existent-order/events'
+    });
+
+    expect(response.statusCode).toBe(404);
+  });
+
+  test('should cancel an order that has not been submitted', async () => {
+    const response = await inject({
+      method: 'DELETE',
+      url: '/api/orders/pending-order'
+    });
+
+    expect(response.statusCode).toBe(200);
+    const body = JSON.parse(response.body);
+    expect(body).toHaveProperty('status', 'cancelled');
+  });
+
+  test('should refuse to cancel a submitted order', async () => {
+    const response = await inject({
+      method: 'DELETE',
+      url: '/api/orders/submitted-order'
+    });
+
+    expect(response.statusCode).toBe(409);
+    const body = JSON.parse(response.body);
+    expect(body).toHaveProperty('error', 'Order cannot be cancelled');
+    expect(body).toHaveProperty('message', 'Order submitted-order is submitted');
+  });
+
+  test('should refuse to cancel a slice of a TWAP order', async () => {
+    const response = await inject({
+      method: 'DELETE',
+      url: '/api/orders/slice-order'
+    });
+
+    expect(response.statusCode).toBe(409);
+    expect(JSON.parse(response.body)).toHaveProperty('message', 'Order slice-order is a slice of TWAP order twap-order');
+  });
+
+  test('should cancel the unsent slices of a TWAP order', async () => {
+    const response = await inject({
+      method: 'DELETE',
+      url: '/api/orders/twap-order'
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(response.body)).toEqual(expect.objectContaining({ orderId: 'twap-order', cancelledSlices: 1 }));
+    expect(mockDatabase.updateOrderStatus).toHaveBeenCalledWith('slice-order', 'cancelled', expect.anything());
+    expect(mockDatabase.updateOrderStatus).not.toHaveBeenCalledWith('sent-slice-order', expect.anything(), expect.anything());
+  });
+
+  test('should return 404 when cancelling a non-existent order', async () => {
+    const response = await inject({
+      method: 'DELETE',
+      url: '/api/orders/non-existent-order'
+    });
+
+    expect(response.statusCode).toBe(404);
+  });
+
+  test('should reject requests without a valid API key', async () => {
+    const missing = await app.inject({ method: 'GET', url: '/api/orders/pending-order' });
+    expect(missing.statusCode).toBe(401);
+    expect(JSON.parse(missing.body)).toHaveProperty('message', 'Missing API key');
+
+    const invalid = await app.inject({
+      method: 'POST',
+      url: '/api/orders/execute',
+      headers: { 'x-api-key': 'not-a-key' },
+      payload: { tokenIn: 'SOL', tokenOut: 'USDC', amountIn: 1 }
+    });
+    expect(invalid.statusCode).toBe(401);
+    expect(JSON.parse(invalid.body)).toHaveProperty('error', 'Unauthorized');
+  });
+
+  test('should store the submitting account on new orders', async () => {
+    const response = await inject({
+      method: 'POST',
+      url: '/api/orders/execute',
+      payload: { tokenIn: 'SOL', tokenOut: 'USDC', amountIn: 1 }
+    });
+
+    expect(response.statusCode).toBe(201);
+    expect(mockDatabase.createOrder).toHaveBeenLastCalledWith(expect.objectContaining({ accountId: ACCOUNT_ID }), expect.anything());
+  });
+
+  test('should reject orders over the account risk limits', async () => {
+    const response = await inject({
+      method: 'POST',
+      url: '/api/orders/execute',
+      payload: { tokenIn: 'SOL', tokenOut: 'USDC', amountIn: 500 }
+    });
+
+    expect(response.statusCode).toBe(422);
+    const body = JSON.parse(response.body);
+    expect(body).toHaveProperty('error', 'Risk limit exceeded');
+    expect(body).toHaveProperty('message', 'Order value of 75000.00 USDC exceeds the limit of 20000 USDC per order');
+  });
+
+  test('should reject orders when the account reached its risk limits before the order was stored', async () => {
+    const message = 'Account has 50 open orders, the limit is 50';
+    (mockDatabase.createOrder as jest.Mock).mockRejectedValueOnce(Object.assign(new RiskLimitError(message), { message }));
+
+    const response = await inject({
+      method: 'POST',
+      url: '/api/orders/execute',
+      payload: { tokenIn: 'SOL', tokenOut: 'USDC', amountIn: 1 }
+    });
+
+    expect(response.statusCode).toBe(422);
+    expect(JSON.parse(response.body)).toEqual({ error: 'Risk limit exceeded', message });
+    const [order, check] = (mockDatabase.createOrder as jest.Mock).mock.calls.slice(-1)[0];
+    expect(order).toHaveProperty('notionalValue', 150);
+    expect(check.evaluate({ openOrders: 50, dailyValue: 0 })).toBe(message);
+  });
+
+  test('should quote every venue and hold an order referencing the quote to it', async () => {
+    jest.spyOn(OrderExecutionEngine.prototype, 'getQuote').mockResolvedValueOnce({
+      dex: 'raydium',
+      bestQuote: { dex: 'raydium', price: 150, amountOut: '150000000', priceImpact: 0.001 },
+      allQuotes: [
+        { dex: 'raydium', price: 150, amountOut: '150000000', priceImpact: 0.001 },
+        { dex: 'meteora', price: 149, amountOut: '149000000', priceImpact: 0.002 }
+      ],
+      routingReason: 'raydium selected: higher expected output',
+      expectedAmountOut: '150000000'
+    });
+
+    const quoted = await inject({ method: 'GET', url: '/api/quote?tokenIn=SOL&tokenOut=USDC&amountIn=1' });
+    expect(quoted.statusCode).toBe(200);
+    const quote = JSON.parse(quoted.body);
+    expect(quote).toHaveProperty('amountIn', '1000000000');
+    expect(quote).toHaveProperty('expectedAmountOut', '150000000');
+    expect(quote.route).toHaveProperty('dex', 'raydium');
+    expect(quote.quotes.map((venueQuote: any) => venueQuote.dex)).toEqual(['raydium', 'meteora']);
+
+    const response = await inject({
+      method: 'POST',
+      url: '/api/orders/execute',
+      payload: { tokenIn: 'SOL', tokenOut: 'USDC', amountIn: 1, slippageBps: 50, quoteId: quote.quoteId }
+    });
+
+    expect(response.statusCode).toBe(201);
+    expect(mockDatabase.createOrder).toHaveBeenLastCalledWith(expect.objectContaining({ minAmountOut: '149250000' }), expect.anything());
+
+    const mismatched = await inject({
+      method: 'POST',
+      url: '/api/orders/execute',
+      payload: { tokenIn: 'SOL', tokenOut: 'USDC', amountIn: 2, quoteId: quote.quoteId }
+    });
+    expect(mismatched.statusCode).toBe(400);
+    expect(JSON.parse(mismatched.body)).toHaveProperty('message', `Order does not match quote ${quote.quoteId}`);
+  });
+
+  test('should reject orders referencing an unknown quote', async () => {
+    const response = await inject({
+      method: 'POST',
+      url: '/api/orders/execute',
+      payload: { tokenIn: 'SOL', tokenOut: 'USDC', amountIn: 1, quoteId: 'expired-quote' }
+    });
+
+    expect(response.statusCode).toBe(400);
+    expect(JSON.parse(response.body)).toHaveProperty('message', 'Quote expired-quote does not exist or has expired');
+  });
+
+  test('should store the valid orders of a batch in one call and report each entry', async () => {
+    mockDatabase.createOrders = jest.fn().mockResolvedValue(undefined);
+    (mockOrderQueue.addOrder as jest.Mock).mockClear();
+
+    const response = await inject({
+      method: 'POST',
+      url: '/api/orders/batch',
+      payload: {
+        orders: [
+          { tokenIn: 'SOL', tokenOut: 'USDC', amountIn: 1 },
+          { tokenIn: 'SOL', tokenOut: 'SOL', amountIn: 1 },
+          { tokenIn: 'SOL', amountIn: 1 },
+          { tokenIn: 'SOL', tokenOut: 'USDC', amountIn: 500 },
+          { tokenIn: 'USDC', tokenOut: 'SOL', amountIn: 20 }
+        ]
+      }
+    });
+
+    expect(response.statusCode).toBe(201);
+    const body = JSON.parse(response.body);
+    expect(body).toHaveProperty('accepted', 2);
+    expect(body).toHaveProperty('rejected', 3);
+    expect(body.results.map((result: any) => result.accepted)).toEqual([true, false, false, false, true]);
+    expect(body.results[1]).toHaveProperty('error', 'Invalid order');
+    expect(body.results[2]).toHaveProperty('message', "entry must have required property 'tokenOut'");
+    expect(body.results[3]).toHaveProperty('error', 'Risk limit exceeded');
+
+    expect(mockDatabase.createOrders).toHaveBeenCalledTimes(1);
+    const [stored] = mockDatabase.createOrders.mock.calls[0];
+    expect(stored.map((order: any) => order.id)).toEqual([body.results[0].orderId, body.results[4].orderId]);
+    expect(mockOrderQueue.addOrder).toHaveBeenCalledTimes(2);
+  });
+
+  test('should store nothing of an all-or-nothing batch with an invalid order', async () => {
+    mockDatabase.createOrders = jest.fn().mockResolvedValue(undefined);
+
+    const response = await inject({
+      method: 'POST',
+      url: '/api/orders/batch',
+      payload: {
+        allOrNothing: true,
+        orders: [
+          { tokenIn: 'SOL', tokenOut: 'USDC', amountIn: 1 },
+          { tokenIn: 'SOL', tokenOut: 'USDC', amountIn: 0 }
+        ]
+      }
+    });
+
+    expect(response.statusCode).toBe(400);
+    const body = JSON.parse(response.body);
+    expect(body).toHaveProperty('error', 'Invalid batch');
+    expect(body.results[0]).toEqual({ index: 0, accepted: false, error: 'Batch rejected', message: 'Another order in the batch is invalid' });
+    expect(body.results[1]).toHaveProperty('error', 'Invalid order');
+    expect(mockDatabase.createOrders).not.toHaveBeenCalled();
+  });
+
+  test('should create one wallet per strategy and never return its secret key', async () => {
+    const created = await inject({ method: 'POST', url: '/api/wallets', payload: { strategy: 'arb' } });
+    expect(created.statusCode).toBe(201);
+    const wallet = JSON.parse(created.body);
+    expect(wallet).toHaveProperty('strategy', 'arb');
+    expect(wallet.publicKey).toEqual(expect.any(String));
+    expect(wallet).not.toHaveProperty('encryptedSecretKey');
+
+    const duplicate = await inject({ method: 'POST', url: '/api/wallets', payload: { strategy: 'arb' } });
+    expect(duplicate.statusCode).toBe(409);
+
+    const listed = await inject({ method: 'GET', url: '/api/wallets' });
+    expect(JSON.parse(listed.body).wallets).toEqual([wallet]);
+
+    const order = await inject({
+      method: 'POST',
+      url: '/api/orders/execute',
+      payload: { tokenIn: 'SOL', tokenOut: 'USDC', amountIn: 1, strategy: 'arb' }
+    });
+    expect(order.statusCode).toBe(201);
+  });
+
+  test('should add a wallet signed by a remote signer', async () => {
+    const publicKey = Keypair.generate().publicKey.toString();
+    const created = await inject({
+      method: 'POST',
+      url: '/api/wallets',
+      payload: { strategy: 'remote', publicKey, remoteSigner: 'custody' }
+    });
+    expect(created.statusCode).toBe(201);
+    expect(JSON.parse(created.body)).toEqual(expect.objectContaining({ strategy: 'remote', publicKey, remoteSigner: 'custody' }));
+
+    const unknownSigner = await inject({
+      method: 'POST',
+      url: '/api/wallets',
+      payload: { strategy: 'other', publicKey, remoteSigner: 'https://attacker.example.com' }
+    });
+    expect(unknownSigner.statusCode).toBe(400);
+
+    const withoutSigner = await inject({ method: 'POST', url: '/api/wallets', payload: { strategy: 'other', publicKey } });
+    expect(withoutSigner.statusCode).toBe(400);
+
+    const invalidKey = await inject({
+      method: 'POST',
+      url: '/api/wallets',
+      payload: { strategy: 'other', publicKey: 'not-a-public-key-not-a-public-key', remoteSigner: 'custody' }
+    });
+    expect(invalidKey.statusCode).toBe(400);
+  });
+
+  test('should reject orders for a strategy without a wallet', async () => {
+    const response = await inject({
+      method: 'POST',
+      url: '/api/orders/execute',
+      payload: { tokenIn: 'SOL', tokenOut: 'USDC', amountIn: 1, strategy: 'unknown' }
+    });
+
+    expect(response.statusCode).toBe(400);
+    expect(JSON.parse(response.body)).toHaveProperty('message', 'No wallet for strategy unknown');
+  });
+
+  test('should hide orders of other accounts', async () => {
+    const read = await inject({ method: 'GET', url: '/api/orders/other-account-order' });
+    expect(read.statusCode).toBe(404);
+
+    const history = await inject({ method: 'GET', url: '/api/orders/other-account-order/events' });
+    expect(history.statusCode).toBe(404);
+
+    const cancel = await inject({ method: 'DELETE', url: '/api/orders/other-account-order' });
+    expect(cancel.statusCode).toBe(404);
+    expect(mockDatabase.updateOrderStatus).not.toHaveBeenCalledWith('other-account-order', expect.anything(), expect.anything());
+  });
+
+  test('should create a DCA schedule and start its ticks', async () => {
+    const response = await inject({
+      method: 'POST',
+      url: '/api/schedules',
+      payload: { tokenIn: 'USDC', tokenOut: 'SOL', amountIn: 50, intervalSeconds: 21600, totalAmount: 1000 }
+    });
+
+    expect(response.statusCode).toBe(201);
+    const [schedule] = mockDatabase.createSchedule.mock.calls[0];
+    expect(schedule).toEqual(expect.objectContaining({
+      accountId: ACCOUNT_ID,
+      status: 'active',
+      amountIn: '50000000',
+      totalAmount: '1000000000',
+      intervalMs: 21600000
+    }));
+    expect(mockDcaScheduler.start).toHaveBeenCalledWith(schedule);
+    expect(JSON.parse(response.body)).toHaveProperty('scheduleId', schedule.id);
+  });
+
+  test('should reject a schedule whose budget is below one order', async () => {
+    const response = await inject({
+      method: 'POST',
+      url: '/api/schedules',
+      payload: { tokenIn: 'USDC', tokenOut: 'SOL', amountIn: 50, intervalSeconds: 21600, totalAmount: 20 }
+    });
+
+    expect(response.statusCode).toBe(400);
+    expect(JSON.parse(response.body)).toHaveProperty('message', 'Total amount must be at least the amount per order');
+  });
+
+  test('should pause, resume and delete schedules', async () => {
+    const pause = await inject({ method: 'POST', url: '/api/schedules/active-schedule/pause' });
+    expect(pause.statusCode).toBe(200);
+    expect(JSON.parse(pause.body)).toHaveProperty('status', 'paused');
+    expect(mockDcaScheduler.stop).toHaveBeenCalledWith('active-schedule');
+
+    const resume = await inject({ method: 'POST', url: '/api/schedules/paused-schedule/resume' });
+    expect(resume.statusCode).toBe(200);
+    expect(mockDcaScheduler.start).toHaveBeenLastCalledWith(expect.objectContaining({ id: 'paused-schedule' }));
+
+    const remove = await inject({ method: 'DELETE', url: '/api/schedules/paused-schedule' });
+    expect(remove.statusCode).toBe(200);
+    expect(mockDatabase.updateScheduleStatus).toHaveBeenLastCalledWith('paused-schedule', 'cancelled', ['active', 'paused']);
+  });
+
+  test('should refuse to resume an active schedule', async () => {
+    const response = await inject({ method: 'POST', url: '/api/schedules/active-schedule/resume' });
+
+    expect(response.statusCode).toBe(409);
+    expect(JSON.parse(response.body)).toHaveProperty('message', 'Schedule active-schedule is active');
+  });
+
   test('should handle health check endpoint', async () => {
     const response = await app.inject({
       method: 'GET',
@@ -197,6 +915,20 @@ describe('Integration Tests - API and WebSocket', () => {
   });
 });
 
+// Two orders and another page to follow
+const listOrders = jest.fn().mockResolvedValue({
+  orders: [
+    { id: 'listed-1', status: 'confirmed', createdAt: new Date('2024-01-15T10:31:00Z') },
+    { id: 'listed-2', status: 'failed', createdAt: new Date('2024-01-15T10:30:00Z') }
+  ],
+  hasMore: true
+});
+
+// Database, queue and scheduler mocked by build(), for assertions on what the routes stored and queued
+let mockDatabase: jest.Mocked<Database>;
+let mockOrderQueue: jest.Mocked<OrderQueue>;
+let mockDcaScheduler: jest.Mocked<DcaScheduler>;
+
 // Helper function to build app with real services
 async function build(opts: any): Promise<FastifyInstance> {
   const fastify = require('fastify')(opts);
@@ -205,45 +937,122 @@ async function build(opts: any): Promise<FastifyInstance> {
   await fastify.register(require('@fastify/websocket'));
   
   // Create mock services
-  const mockDatabase = new Database('test') as jest.Mocked<Database>;
+  mockDatabase = new Database('test') as jest.Mocked<Database>;
   const mockDexRouter = new MockDexRouter();
-  const mockSolanaManager = new SolanaConnectionManager('https://api.mainnet-beta.solana.com', 'test-key') as jest.Mocked<SolanaConnectionManager>;
+  const mockSolanaManager = new SolanaConnectionManager('https://api.mainnet-beta.solana.com', new KeypairSigner(Keypair.generate())) as jest.Mocked<SolanaConnectionManager>;
+  await fastify.register(authPlugin, { database: mockDatabase }); // accounts mocked below
   const mockWebSocketManager = new WebSocketManager(fastify, mockDatabase);
   const mockExecutionEngine = new OrderExecutionEngine(mockDatabase, mockSolanaManager, mockWebSocketManager);
-  const mockOrderQueue = new OrderQueue({ host: 'localhost', port: 6379 }, mockExecutionEngine);
+  mockOrderQueue = new OrderQueue({ host: 'localhost', port: 6379 }, mockExecutionEngine) as jest.Mocked<OrderQueue>;
   
   // Mock database methods
-  mockDatabase.createOrder = jest.fn().mockResolvedValue(undefined);
+  // Orders saved with an idempotency key, for replay lookups
+  const ordersByKey = new Map<string, any>();
+  mockDatabase.createOrder = jest.fn().mockImplementation(async (order: any) => {
+    if (order.idempotencyKey) {
+      ordersByKey.set(`${order.accountId}/${order.idempotencyKey}`, order);
+    }
+  });
+  mockDatabase.createTwapOrder = jest.fn().mockResolvedValue(undefined);
+  mockDatabase.createOcoOrders = jest.fn().mockResolvedValue(undefined);
+  mockDatabase.getOrderByIdempotencyKey = jest.fn().mockImplementation(
+    async (accountId: string, key: string) => ordersByKey.get(`${accountId}/${key}`) ?? null
+  );
+  mockDatabase.getAccountByApiKeyHash = jest.fn().mockImplementation(async (apiKeyHash: string) =>
+    apiKeyHash === hashApiKey(API_KEY) ? { id: ACCOUNT_ID, name: 'Test account', createdAt: new Date() } : null
+  );
   mockDatabase.getOrder = jest.fn().mockImplementation((orderId: string) => {
     if (orderId === 'non-existent-id' || orderId === 'non-existent-order') {
       return Promise.resolve(null);
     }
     return Promise.resolve({
       id: orderId,
-      type: 'market' as any,
+      type: (orderId === 'twap-order' ? 'twap' : 'market') as any,
       tokenIn: 'SOL',
       tokenOut: 'USDC',
       amountIn: 10,
-      status: 'pending' as any,
+      status: (orderId === 'submitted-order' || orderId === 'twap-order' ? 'submitted' : 'pending') as any,
+      accountId: orderId === 'other-account-order' ? 'account-2' : ACCOUNT_ID,
+      parentOrderId: orderId === 'slice-order' ? 'twap-order' : undefined,
       createdAt: new Date(),
       updatedAt: new Date(),
       retryCount: 0
     });
   });
   mockDatabase.updateOrderStatus = jest.fn().mockResolvedValue(undefined);
+  mockDatabase.getSliceOrders = jest.fn().mockImplementation(async (parentOrderId: string) => [
+    { id: 'slice-order', parentOrderId, status: 'pending', amountIn: '5', retryCount: 0 },
+    { id: 'sent-slice-order', parentOrderId, status: 'submitted', amountIn: '5', retryCount: 0 }
+  ]);
+  mockDatabase.getOrderEvents = jest.fn().mockImplementation((orderId: string) => Promise.resolve([
+    { id: 1, orderId, toStatus: 'pending', createdAt: new Date() },
+    { id: 2, orderId, fromStatus: 'pending', toStatus: 'routing', createdAt: new Date() }
+  ]));
+  
+  mockDatabase.listOrders = listOrders;
+  const wallets: any[] = [];
+  mockDatabase.createWallet = jest.fn().mockImplementation(async (wallet: any) => {
+    if (wallets.some(existing => existing.accountId === wallet.accountId && existing.strategy === wallet.strategy)) {
+      throw new WalletExistsError(wallet.accountId, wallet.strategy);
+    }
+    wallets.push(wallet);
+  });
+  mockDatabase.getWallet = jest.fn().mockImplementation(async (accountId: string, strategy: string) =>
+    wallets.find(wallet => wallet.accountId === accountId && wallet.strategy === strategy) ?? null
+  );
+  mockDatabase.getWallets = jest.fn().mockImplementation(async (accountId: string) =>
+    wallets.filter(wallet => wallet.accountId === accountId)
+  );
+  mockDatabase.getRiskUsage = jest.fn().mockResolvedValue({ openOrders: 0, dailyValue: 0 });
+  mockDatabase.createSchedule = jest.fn().mockResolvedValue(undefined);
+  mockDatabase.getSchedule = jest.fn().mockImplementation(async (scheduleId: string) => scheduleId === 'non-existent-schedule' ? null : {
+    id: scheduleId,
+    accountId: ACCOUNT_ID,
+    tokenIn: 'USDC',
+    tokenOut: 'SOL',
+    amountIn: '50000000',
+    intervalMs: 21600000,
+    status: scheduleId === 'paused-schedule' ? 'paused' : 'active',
+    orderCount: 0,
+    skippedTicks: 0,
+    createdAt: new Date(),
+    updatedAt: new Date()
+  });
+  mockDatabase.updateScheduleStatus = jest.fn().mockResolvedValue(true);
   
   // Mock queue methods
   mockOrderQueue.addOrder = jest.fn().mockResolvedValue(undefined);
+  mockOrderQueue.removeOrder = jest.fn().mockResolvedValue(true);
+  mockExecutionEngine.setOrderQueue(mockOrderQueue);
   
   // Register order routes with real implementation
+  const tokenRegistry = TokenRegistry.fromFile();
+  const walletManager = new WalletManager(new KeypairSigner(Keypair.generate()), mockDatabase, randomBytes(32), {
+    custody: { url: 'https://signer.example.com' }
+  });
   await fastify.register(orderRoutes, {
     database: mockDatabase,
     orderQueue: mockOrderQueue,
-    executionEngine: mockExecutionEngine
+    executionEngine: mockExecutionEngine,
+    tokenRegistry,
+    // Risk limits value every token at 150 USDC
+    riskManager: RiskManager.fromFile(mockDatabase, tokenRegistry, async () => ({
+      dex: 'raydium',
+      bestQuote: { dex: 'raydium', price: 150, amountOut: '150000000' },
+      allQuotes: [],
+      routingReason: 'Fixed test price',
+      expectedAmountOut: '150000000'
+    })),
+    walletManager,
+    quoteCache: new QuoteCache()
   });
+  await fastify.register(walletRoutes, { walletManager });
+
+  mockDcaScheduler = { start: jest.fn().mockResolvedValue(undefined), stop: jest.fn().mockResolvedValue(undefined) } as any;
+  await fastify.register(scheduleRoutes, { database: mockDatabase, dcaScheduler: mockDcaScheduler, tokenRegistry, walletManager });
   
   // Health check endpoint
-  fastify.get('/health', async () => {
+  fastify.get('/health', { config: { public: true } }, async () => {
     return { status: 'ok', timestamp: new Date() };
   });
   
@@ -63,6 +63,42 @@ describe('MockDexRouter - Routing Logic Tests', () => {
         expect(meteoraQuote!.fee).toBe(0.002);
     });
 
+    test('should include expected output, price impact and fee per venue', async () => {
+        const result = await router.selectBestDex('SOL', 'USDC', '10');
+
+        result.allQuotes.forEach(quote => {
+            expect(quote.amountOut).toBeGreaterThan(0);
+            expect(quote.priceImpact).toBeGreaterThan(0);
+            expect(quote.feeAmount).toBeCloseTo(10 * quote.fee);
+        });
+        expect(result.expectedAmountOut).toBe(result.bestQuote.amountOut);
+    });
+
+    test('should route small orders to the cheaper pool', async () => {
+        // Top of both variance ranges gives the same price, so only fees and depth decide
+        Math.random = jest.fn().mockReturnValue(1);
+
+        const small = await router.selectBestDex('SOL', 'USDC', '1');
+
+        expect(small.dex).toBe('meteora'); // lower fee wins when impact is negligible
+        expect(small.splits).toBeUndefined();
+    });
+
+    test('should split large orders with the bigger leg on the deeper pool', async () => {
+        Math.random = jest.fn().mockReturnValue(1);
+
+        const large = await router.selectBestDex('SOL', 'USDC', '20000');
+        const raydiumLeg = large.splits!.find(split => split.dex === 'raydium')!;
+        const meteoraLeg = large.splits!.find(split => split.dex === 'meteora')!;
+
+        expect(large.dex).toBe('raydium+meteora');
+        expect(Number(raydiumLeg.amountIn) + Number(meteoraLeg.amountIn)).toBe(20000);
+        expect(Number(raydiumLeg.amountIn)).toBeGreaterThan(Number(meteoraLeg.amountIn));
+        large.allQuotes.forEach(quote => {
+            expect(large.expectedAmountOut).toBeGreaterThan(quote.amountOut);
+        });
+    });
+
     test('should execute swap successfully with valid order', async () => {
         const order: Order = {
             id: 'test-order',
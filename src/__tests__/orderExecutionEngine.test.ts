@@ -2,8 +2,9 @@ import { OrderExecutionEngine } from '../services/orderExecutionEngine';
 import { Database } from '../database/connection';
 import { WebSocketManager } from '../services/websocketManager';
 import { SolanaConnectionManager } from '../services/solanaConnection';
-import { Order, OrderType, OrderStatus } from '../types';
+import { Order, OrderType, OrderStatus, ExecutionErrorCode, FillStatus, SubmissionMode } from '../types';
 import { retryWithBackoff } from '../utils/errorHandler';
+import { InvalidTransitionError } from '../models/orderStateMachine';
 
 // Mock dependencies
 jest.mock('../database/connection');
@@ -140,6 +141,30 @@ describe('OrderExecutionEngine - Integration Tests', () => {
     expect(result.error).toBe('This engine only processes market orders');
   });
 
+  test('should reject bundle-mode orders without a block engine', () => {
+    const bundleOrder: Order = {
+      id: 'bundle-order',
+      type: OrderType.MARKET,
+      tokenIn: 'SOL',
+      tokenOut: 'USDC',
+      tokenInMint: 'So11111111111111111111111111111111111111112',
+      tokenOutMint: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+      amountIn: '10',
+      submissionMode: SubmissionMode.BUNDLE,
+      status: OrderStatus.PENDING,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      retryCount: 0
+    };
+
+    const result = engine.validateMarketOrder(bundleOrder);
+    expect(result.isValid).toBe(false);
+    expect(result.error).toBe('Bundle submission is not configured');
+
+    const bundlingEngine = new OrderExecutionEngine(mockDatabase, mockSolanaManager, mockWsManager, { bundleSubmitter: {} as any });
+    expect(bundlingEngine.validateMarketOrder(bundleOrder).isValid).toBe(true);
+  });
+
   test('should process order through complete lifecycle', async () => {
     const order: Order = {
       id: 'lifecycle-test',
@@ -167,11 +192,9 @@ describe('OrderExecutionEngine - Integration Tests', () => {
 
     // Mock the dexRouter executeSwap method directly on the engine instance
     const dexRouterInstance = (engine as any).dexRouter;
-    dexRouterInstance.executeSwap = jest.fn().mockResolvedValue({
-      success: true,
-      txHash: 'mock-tx-hash',
-      executedPrice: 1.05,
-      actualAmountOut: 5.25
+    dexRouterInstance.executeSwap = jest.fn(async (dex, order, quote, onSimulated) => {
+      await onSimulated({ amountOut: '5250000', unitsConsumed: 60000, logs: [] });
+      return { success: true, txHash: 'mock-tx-hash', executedPrice: 1.05, actualAmountOut: 5.25 };
     });
 
     await engine.processOrder(order);
@@ -190,7 +213,9 @@ describe('OrderExecutionEngine - Integration Tests', () => {
     expect(mockDatabase.updateOrderStatus).toHaveBeenCalledWith(
       order.id,
       OrderStatus.SUBMITTED,
-      expect.any(Object)
+      expect.objectContaining({
+        simulation: { amountOut: '5250000', unitsConsumed: 60000, logs: [] }
+      })
     );
     expect(mockDatabase.updateOrderStatus).toHaveBeenCalledWith(
       order.id,
@@ -204,6 +229,33 @@ describe('OrderExecutionEngine - Integration Tests', () => {
     expect(mockWsManager.broadcastOrderUpdate).toHaveBeenCalledTimes(4);
   });
 
+  test('should make the pool of a queued sniper order routable before routing it', async () => {
+    const targetMint = 'NewToken111111111111111111111111111111111111';
+    const sniperOrder: Order = {
+      id: 'sniper-restart-test',
+      type: OrderType.SNIPER,
+      tokenIn: 'SOL',
+      tokenOut: targetMint,
+      tokenInMint: 'So11111111111111111111111111111111111111112',
+      tokenOutMint: targetMint,
+      amountIn: '500000000',
+      sniperPool: { dex: 'raydium', poolAddress: 'NewPoo1111111111111111111111111111111111111', tokenOutDecimals: 5 },
+      status: OrderStatus.PENDING,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      retryCount: 0
+    };
+    mockRetryWithBackoff.mockRejectedValueOnce(new Error('Routing stopped here'));
+
+    await engine.processOrder(sniperOrder);
+
+    const tokenRegistry = (engine as any).tokenRegistry;
+    expect(tokenRegistry.resolve(targetMint)).toEqual({ symbol: targetMint, mint: targetMint, decimals: 5 });
+    expect(tokenRegistry.getPools(sniperOrder.tokenInMint, targetMint)).toEqual([
+      expect.objectContaining({ dex: 'raydium', address: 'NewPoo1111111111111111111111111111111111111' })
+    ]);
+  });
+
   test('should handle order execution failure', async () => {
     const order: Order = {
       id: 'failure-test',
@@ -282,11 +334,9 @@ describe('OrderExecutionEngine - Integration Tests', () => {
       .mockResolvedValue(undefined); // For building transaction
 
     const dexRouterInstance = (engine as any).dexRouter;
-    dexRouterInstance.executeSwap = jest.fn().mockResolvedValue({
-      success: true,
-      txHash: 'success-tx-hash',
-      executedPrice: 1.01,
-      actualAmountOut: 2.02
+    dexRouterInstance.executeSwap = jest.fn(async (dex, order, quote, onSimulated) => {
+      await onSimulated({ amountOut: '2020000', unitsConsumed: 60000, logs: [] });
+      return { success: true, txHash: 'success-tx-hash', executedPrice: 1.01, actualAmountOut: 2.02 };
     });
 
     await engine.processOrder(order);
@@ -307,4 +357,700 @@ describe('OrderExecutionEngine - Integration Tests', () => {
     expect(wsUpdates[2][0].status).toBe(OrderStatus.SUBMITTED);
     expect(wsUpdates[3][0].status).toBe(OrderStatus.CONFIRMED);
   });
+
+  test('should fail without requeue when execution breaks slippage tolerance', async () => {
+    const order: Order = {
+      id: 'slippage-test',
+      type: OrderType.MARKET,
+      tokenIn: 'SOL',
+      tokenOut: 'USDC',
+      tokenInMint: 'So11111111111111111111111111111111111111112',
+      tokenOutMint: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+      amountIn: '5',
+      slippageBps: 50,
+      status: OrderStatus.PENDING,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      retryCount: 0
+    };
+
+    const routeResult = {
+      dex: 'raydium',
+      bestQuote: { dex: 'raydium', price: 250 },
+      allQuotes: [],
+      routingReason: 'Best price'
+    };
+    mockRetryWithBackoff.mockResolvedValueOnce(routeResult);
+
+    const mockOrderQueue = { addOrder: jest.fn().mockResolvedValue(undefined) } as any;
+    engine.setOrderQueue(mockOrderQueue);
+
+    const dexRouterInstance = (engine as any).dexRouter;
+    dexRouterInstance.executeSwap = jest.fn().mockResolvedValue({
+      success: false,
+      error: 'Price moved beyond 50 bps tolerance',
+      errorCode: ExecutionErrorCode.SLIPPAGE_EXCEEDED
+    });
+
+    await engine.processOrder(order);
+
+    expect(dexRouterInstance.executeSwap).toHaveBeenCalledWith('raydium', order, routeResult.bestQuote, expect.any(Function));
+    expect(mockDatabase.updateOrderStatus).toHaveBeenCalledWith(
+      order.id,
+      OrderStatus.FAILED,
+      expect.objectContaining({ errorCode: ExecutionErrorCode.SLIPPAGE_EXCEEDED })
+    );
+    expect(mockWsManager.broadcastOrderUpdate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        status: OrderStatus.FAILED,
+        data: expect.objectContaining({ errorCode: ExecutionErrorCode.SLIPPAGE_EXCEEDED })
+      })
+    );
+    expect(mockOrderQueue.addOrder).not.toHaveBeenCalled();
+  });
+
+  test('should fail an order whose simulation fails without submitting or requeueing it', async () => {
+    const order: Order = {
+      id: 'simulation-test',
+      type: OrderType.MARKET,
+      tokenIn: 'SOL',
+      tokenOut: 'USDC',
+      tokenInMint: 'So11111111111111111111111111111111111111112',
+      tokenOutMint: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+      amountIn: '5',
+      status: OrderStatus.PENDING,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      retryCount: 0
+    };
+
+    mockRetryWithBackoff.mockResolvedValueOnce({
+      dex: 'raydium',
+      bestQuote: { dex: 'raydium', price: 250 },
+      allQuotes: [],
+      routingReason: 'Best price'
+    });
+
+    const mockOrderQueue = { addOrder: jest.fn().mockResolvedValue(undefined) } as any;
+    engine.setOrderQueue(mockOrderQueue);
+
+    const simulation = {
+      unitsConsumed: 21000,
+      logs: ['Program log: Error: exceeds desired slippage limit'],
+      error: 'Instruction 2 failed: custom program error 0x1e (exceeds desired slippage limit)'
+    };
+    (engine as any).dexRouter.executeSwap = jest.fn().mockResolvedValue({
+      success: false,
+      error: `Simulation failed: ${simulation.error}`,
+      errorCode: ExecutionErrorCode.SIMULATION_FAILED,
+      simulation
+    });
+
+    await engine.processOrder(order);
+
+    const statuses = mockDatabase.updateOrderStatus.mock.calls.map(call => call[1]);
+    expect(statuses).toEqual([OrderStatus.ROUTING, OrderStatus.BUILDING, OrderStatus.FAILED]);
+    expect(mockDatabase.updateOrderStatus).toHaveBeenLastCalledWith(
+      order.id,
+      OrderStatus.FAILED,
+      expect.objectContaining({ errorCode: ExecutionErrorCode.SIMULATION_FAILED, simulation })
+    );
+    expect(mockOrderQueue.addOrder).not.toHaveBeenCalled();
+  });
+
+  describe('retries', () => {
+    const order: Order = {
+      id: 'retry-test',
+      type: OrderType.MARKET,
+      tokenIn: 'SOL',
+      tokenOut: 'USDC',
+      tokenInMint: 'So11111111111111111111111111111111111111112',
+      tokenOutMint: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+      amountIn: '5',
+      status: OrderStatus.PENDING,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      retryCount: 0
+    };
+
+    const routeResult = {
+      dex: 'raydium',
+      bestQuote: { dex: 'raydium', price: 250 },
+      allQuotes: [],
+      routingReason: 'Best price'
+    };
+
+    let mockOrderQueue: any;
+
+    beforeEach(() => {
+      mockOrderQueue = { addOrder: jest.fn().mockResolvedValue(undefined) };
+      engine.setOrderQueue(mockOrderQueue);
+      mockRetryWithBackoff.mockResolvedValueOnce(routeResult);
+      (engine as any).dexRouter.executeSwap = jest.fn().mockResolvedValue({ success: false, error: 'Blockhash expired' });
+    });
+
+    test('should send a failed attempt back to pending and requeue it', async () => {
+      await engine.processOrder(order);
+
+      expect(mockDatabase.updateOrderStatus).toHaveBeenLastCalledWith(
+        order.id,
+        OrderStatus.PENDING,
+        expect.objectContaining({ errorMessage: 'Blockhash expired' })
+      );
+      expect(mockDatabase.updateOrderStatus).not.toHaveBeenCalledWith(order.id, OrderStatus.FAILED, expect.anything());
+      expect(mockOrderQueue.addOrder).toHaveBeenCalledWith(
+        expect.objectContaining({ id: order.id, status: OrderStatus.PENDING, retryCount: 1 })
+      );
+    });
+
+    test('should fail the order for good once retries are used up', async () => {
+      await engine.processOrder({ ...order, retryCount: 3 });
+
+      expect(mockDatabase.updateOrderStatus).toHaveBeenLastCalledWith(
+        order.id,
+        OrderStatus.FAILED,
+        expect.objectContaining({ errorMessage: 'Blockhash expired' })
+      );
+      expect(mockOrderQueue.addOrder).not.toHaveBeenCalled();
+    });
+
+    test('should fail rather than requeue an attempt that broke after its swap was sent', async () => {
+      (engine as any).dexRouter.executeSwap = jest.fn(async (_dex, _order, _quote, onSimulated) => {
+        await onSimulated({ unitsConsumed: 60000, logs: [] });
+        return { success: true, txHash: 'sent-tx', executedPrice: 250, actualAmountOut: 1250 };
+      });
+      mockDatabase.updateOrderStatus.mockImplementation(async (_orderId, status) => {
+        if (status === OrderStatus.CONFIRMED) throw new Error('Connection terminated');
+      });
+
+      await engine.processOrder(order);
+
+      expect(mockDatabase.updateOrderStatus).toHaveBeenLastCalledWith(
+        order.id,
+        OrderStatus.FAILED,
+        expect.objectContaining({ errorCode: ExecutionErrorCode.OUTCOME_UNKNOWN })
+      );
+      expect(mockDatabase.updateOrderStatus).not.toHaveBeenCalledWith(order.id, OrderStatus.PENDING, expect.anything());
+      expect(mockOrderQueue.addOrder).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cancellation', () => {
+    const order: Order = {
+      id: 'cancel-test',
+      type: OrderType.MARKET,
+      tokenIn: 'SOL',
+      tokenOut: 'USDC',
+      tokenInMint: 'So11111111111111111111111111111111111111112',
+      tokenOutMint: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+      amountIn: '5',
+      status: OrderStatus.PENDING,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      retryCount: 0
+    };
+
+    test('should mark a queued order cancelled and remove its job', async () => {
+      const mockOrderQueue = { removeOrder: jest.fn().mockResolvedValue(true) } as any;
+      engine.setOrderQueue(mockOrderQueue);
+
+      await engine.cancelOrder(order);
+
+      expect(mockDatabase.updateOrderStatus).toHaveBeenCalledWith(order.id, OrderStatus.CANCELLED, expect.any(Object));
+      expect(mockWsManager.broadcastOrderUpdate).toHaveBeenCalledWith(
+        expect.objectContaining({ orderId: order.id, status: OrderStatus.CANCELLED })
+      );
+      expect(mockOrderQueue.removeOrder).toHaveBeenCalledWith(order);
+    });
+
+    test('should cancel the other order of a resting OCO pair', async () => {
+      const stopLoss = { ...order, type: OrderType.STOP_LOSS, status: OrderStatus.WAITING_TRIGGER, triggerPrice: 200, ocoOrderId: 'take-profit' };
+      mockDatabase.updateOrderStatus
+        .mockResolvedValueOnce(undefined)
+        .mockRejectedValueOnce(new InvalidTransitionError('take-profit', OrderStatus.PENDING, OrderStatus.CANCELLED));
+
+      await expect(engine.cancelOrder(stopLoss)).resolves.toBeUndefined();
+
+      expect(mockDatabase.updateOrderStatus).toHaveBeenCalledWith(order.id, OrderStatus.CANCELLED, expect.any(Object));
+      expect(mockDatabase.updateOrderStatus).toHaveBeenCalledWith(
+        'take-profit',
+        OrderStatus.CANCELLED,
+        expect.objectContaining({ message: `Cancelled with OCO order ${order.id}` })
+      );
+    });
+
+    test('should stop an order cancelled while routing before it is built', async () => {
+      const routeResult = {
+        dex: 'raydium',
+        bestQuote: { dex: 'raydium', price: 250 },
+        allQuotes: [],
+        routingReason: 'Best price'
+      };
+      mockRetryWithBackoff.mockImplementationOnce(async () => {
+        await engine.cancelOrder({ ...order, status: OrderStatus.ROUTING });
+        return routeResult;
+      });
+
+      const dexRouterInstance = (engine as any).dexRouter;
+      dexRouterInstance.executeSwap = jest.fn();
+
+      await engine.processOrder(order);
+
+      const statuses = mockDatabase.updateOrderStatus.mock.calls.map(call => call[1]);
+      expect(statuses).toEqual([OrderStatus.ROUTING, OrderStatus.CANCELLED]);
+      expect(dexRouterInstance.executeSwap).not.toHaveBeenCalled();
+    });
+
+    test('should stop quietly when the database rejects a step after a cancel', async () => {
+      mockDatabase.updateOrderStatus.mockRejectedValueOnce(
+        new InvalidTransitionError(order.id, OrderStatus.CANCELLED, OrderStatus.ROUTING)
+      );
+
+      await expect(engine.processOrder(order)).resolves.toBeUndefined();
+
+      expect(mockDatabase.updateOrderStatus).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('split routes', () => {
+    const order: Order = {
+      id: 'split-test',
+      type: OrderType.MARKET,
+      tokenIn: 'SOL',
+      tokenOut: 'USDC',
+      tokenInMint: 'So11111111111111111111111111111111111111112',
+      tokenOutMint: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+      amountIn: '1000',
+      minAmountOut: '240000',
+      status: OrderStatus.PENDING,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      retryCount: 0
+    };
+
+    const splitRoute = {
+      dex: 'raydium+meteora',
+      bestQuote: { dex: 'raydium+meteora', price: 249, amountOut: '249000' },
+      allQuotes: [],
+      routingReason: 'split selected',
+      splits: [
+        { dex: 'raydium', amountIn: '700', quote: { dex: 'raydium', price: 249, amountOut: '174300' } },
+        { dex: 'meteora', amountIn: '300', quote: { dex: 'meteora', price: 249, amountOut: '74700' } }
+      ]
+    };
+
+    beforeEach(() => {
+      mockDatabase.createOrderFills = jest.fn().mockResolvedValue(undefined);
+      mockDatabase.updateOrderFill = jest.fn().mockResolvedValue(undefined);
+      mockRetryWithBackoff.mockResolvedValueOnce(splitRoute);
+    });
+
+    test('should execute each leg as its own swap and confirm when all fill', async () => {
+      const dexRouterInstance = (engine as any).dexRouter;
+      dexRouterInstance.executeSwap = jest.fn()
+        .mockResolvedValueOnce({ success: true, txHash: 'leg-1', executedPrice: 249, actualAmountOut: 174.3 })
+        .mockResolvedValueOnce({ success: true, txHash: 'leg-2', executedPrice: 249, actualAmountOut: 74.7 });
+
+      await engine.processOrder(order);
+
+      expect(mockDatabase.createOrderFills).toHaveBeenCalledWith([
+        expect.objectContaining({ legIndex: 0, dex: 'raydium', amountIn: '700', status: FillStatus.PENDING }),
+        expect.objectContaining({ legIndex: 1, dex: 'meteora', amountIn: '300', status: FillStatus.PENDING })
+      ]);
+      expect(dexRouterInstance.executeSwap).toHaveBeenNthCalledWith(
+        1, 'raydium', expect.objectContaining({ amountIn: '700', minAmountOut: '168000' }), splitRoute.splits[0].quote, expect.any(Function)
+      );
+      expect(dexRouterInstance.executeSwap).toHaveBeenNthCalledWith(
+        2, 'meteora', expect.objectContaining({ amountIn: '300', minAmountOut: '72000' }), splitRoute.splits[1].quote, expect.any(Function)
+      );
+      expect(mockDatabase.updateOrderFill).toHaveBeenCalledTimes(2);
+      expect(mockDatabase.updateOrderStatus).toHaveBeenLastCalledWith(order.id, OrderStatus.CONFIRMED, expect.any(Object));
+      expect(mockWsManager.broadcastOrderUpdate).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          status: OrderStatus.CONFIRMED,
+          data: expect.objectContaining({
+            actualAmountOut: 249,
+            fills: [
+              expect.objectContaining({ status: FillStatus.CONFIRMED, txHash: 'leg-1' }),
+              expect.objectContaining({ status: FillStatus.CONFIRMED, txHash: 'leg-2' })
+            ]
+          })
+        })
+      );
+    });
+
+    test('should mark the order submitted only once a leg passes simulation', async () => {
+      const dexRouterInstance = (engine as any).dexRouter;
+      dexRouterInstance.executeSwap = jest.fn()
+        .mockResolvedValueOnce({ success: false, error: 'Simulation failed: Pool busy', errorCode: ExecutionErrorCode.SIMULATION_FAILED })
+        .mockImplementationOnce(async (_dex, _order, _quote, onSimulated) => {
+          await onSimulated({ unitsConsumed: 60000, logs: [] });
+          return { success: true, txHash: 'leg-2', executedPrice: 249, actualAmountOut: 74.7 };
+        });
+
+      await engine.processOrder(order);
+
+      expect(mockDatabase.updateOrderStatus.mock.calls.map(call => call[1])).toEqual([
+        OrderStatus.ROUTING, OrderStatus.BUILDING, OrderStatus.SUBMITTED, OrderStatus.PARTIALLY_FILLED
+      ]);
+    });
+
+    test('should mark order partially filled without requeue when one leg fails', async () => {
+      const mockOrderQueue = { addOrder: jest.fn().mockResolvedValue(undefined) } as any;
+      engine.setOrderQueue(mockOrderQueue);
+
+      const dexRouterInstance = (engine as any).dexRouter;
+      dexRouterInstance.executeSwap = jest.fn()
+        .mockResolvedValueOnce({ success: true, txHash: 'leg-1', executedPrice: 249, actualAmountOut: 174.3 })
+        .mockResolvedValueOnce({ success: false, error: 'Pool busy' });
+
+      await engine.processOrder(order);
+
+      expect(mockDatabase.updateOrderStatus).toHaveBeenLastCalledWith(
+        order.id,
+        OrderStatus.PARTIALLY_FILLED,
+        expect.objectContaining({ errorMessage: 'Leg 2 on meteora: Pool busy' })
+      );
+      expect(mockWsManager.broadcastOrderUpdate).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: OrderStatus.SUBMITTED,
+          data: expect.objectContaining({ message: 'Leg 2/2 on meteora failed' })
+        })
+      );
+      expect(mockOrderQueue.addOrder).not.toHaveBeenCalled();
+    });
+
+    test('should requeue the order when every leg failed before any was sent', async () => {
+      const mockOrderQueue = { addOrder: jest.fn().mockResolvedValue(undefined) } as any;
+      engine.setOrderQueue(mockOrderQueue);
+
+      const dexRouterInstance = (engine as any).dexRouter;
+      dexRouterInstance.executeSwap = jest.fn().mockResolvedValue({ success: false, error: 'Pool busy' });
+
+      await engine.processOrder(order);
+
+      expect(mockDatabase.updateOrderStatus).toHaveBeenLastCalledWith(
+        order.id,
+        OrderStatus.PENDING,
+        expect.objectContaining({ errorMessage: 'Leg 1 on raydium: Pool busy; Leg 2 on meteora: Pool busy' })
+      );
+      expect(mockOrderQueue.addOrder).toHaveBeenCalledWith(expect.objectContaining({ id: order.id, retryCount: 1 }));
+    });
+
+    test('should stop between legs once the order is cancelled', async () => {
+      const dexRouterInstance = (engine as any).dexRouter;
+      dexRouterInstance.executeSwap = jest.fn(async (_dex, _order, _quote, onSimulated) => {
+        await engine.cancelOrder({ ...order, status: OrderStatus.BUILDING });
+        await onSimulated({ unitsConsumed: 60000, logs: [] });
+        return { success: true, txHash: 'leg-1', executedPrice: 249, actualAmountOut: 174.3 };
+      });
+
+      await engine.processOrder(order);
+
+      expect(dexRouterInstance.executeSwap).toHaveBeenCalledTimes(1);
+      expect(mockDatabase.updateOrderStatus.mock.calls.map(call => call[1])).toEqual([
+        OrderStatus.ROUTING, OrderStatus.BUILDING, OrderStatus.CANCELLED
+      ]);
+    });
+  });
+
+  describe('multi-hop routes', () => {
+    const BONK_MINT = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+    const SOL_MINT = 'So11111111111111111111111111111111111111112';
+    const JUP_MINT = 'JUPyiwrYJFskUPiHa7hkeR8VUtAeFoSYbKedZNsDvCN';
+
+    const order: Order = {
+      id: 'hop-test',
+      type: OrderType.MARKET,
+      tokenIn: 'BONK',
+      tokenOut: 'JUP',
+      tokenInMint: BONK_MINT,
+      tokenOutMint: JUP_MINT,
+      amountIn: '100000000000',
+      minAmountOut: '19000000',
+      status: OrderStatus.PENDING,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      retryCount: 0
+    };
+
+    const hopRoute = {
+      dex: 'raydium>meteora',
+      bestQuote: { dex: 'raydium>meteora', price: 0.00002, amountOut: '20000000' },
+      allQuotes: [],
+      routingReason: 'BONK -> SOL -> JUP selected',
+      expectedAmountOut: '20000000',
+      hops: [
+        {
+          dex: 'raydium', tokenIn: 'BONK', tokenOut: 'SOL', tokenInMint: BONK_MINT, tokenOutMint: SOL_MINT,
+          amountIn: '100000000000', quote: { dex: 'raydium', price: 0.0000001, amountOut: '100000000' }
+        },
+        {
+          dex: 'meteora', tokenIn: 'SOL', tokenOut: 'JUP', tokenInMint: SOL_MINT, tokenOutMint: JUP_MINT,
+          amountIn: '100000000', quote: { dex: 'meteora', price: 200, amountOut: '20000000' }
+        }
+      ]
+    };
+
+    beforeEach(() => {
+      mockDatabase.updateOrderHops = jest.fn().mockResolvedValue(undefined);
+      mockRetryWithBackoff.mockResolvedValueOnce(hopRoute);
+    });
+
+    test('should swap hop by hop, feeding each hop what the previous one received', async () => {
+      (engine as any).tokenRegistry.registerToken({ symbol: 'BONK', mint: BONK_MINT, decimals: 5 });
+      const dexRouterInstance = (engine as any).dexRouter;
+      dexRouterInstance.executeSwap = jest.fn()
+        .mockResolvedValueOnce({ success: true, txHash: 'hop-1', executedPrice: 0.0000001, actualAmountOut: 0.0995, minAmountOut: '99000000', amountReceived: '99500000' })
+        .mockResolvedValueOnce({ success: true, txHash: 'hop-2', executedPrice: 200, actualAmountOut: 19.8, minAmountOut: '19602000' });
+
+      await engine.processOrder(order);
+
+      expect(dexRouterInstance.executeSwap).toHaveBeenNthCalledWith(
+        1, 'raydium', expect.objectContaining({ tokenIn: 'BONK', tokenOut: 'SOL', amountIn: '100000000000', minAmountOut: '95000000' }), hopRoute.hops[0].quote, expect.any(Function)
+      );
+      expect(dexRouterInstance.executeSwap).toHaveBeenNthCalledWith(
+        2, 'meteora', expect.objectContaining({ tokenIn: 'SOL', tokenOut: 'JUP', amountIn: '99500000', minAmountOut: '19000000' }), hopRoute.hops[1].quote, expect.any(Function)
+      );
+      expect(mockDatabase.updateOrderHops).toHaveBeenLastCalledWith(order.id, [
+        expect.objectContaining({ hopIndex: 0, amountIn: '100000000000', expectedAmountOut: '100000000', minAmountOut: '99000000', status: FillStatus.CONFIRMED }),
+        expect.objectContaining({ hopIndex: 1, amountIn: '99500000', expectedAmountOut: '20000000', status: FillStatus.CONFIRMED, txHash: 'hop-2' })
+      ]);
+      expect(mockDatabase.updateOrderStatus).toHaveBeenLastCalledWith(
+        order.id,
+        OrderStatus.CONFIRMED,
+        expect.objectContaining({ txHash: 'hop-2' })
+      );
+
+      // 19.8 JUP for 1,000,000 BONK, not the last hop's SOL/JUP rate
+      const [confirmed] = mockWsManager.broadcastOrderUpdate.mock.calls[mockWsManager.broadcastOrderUpdate.mock.calls.length - 1];
+      expect(confirmed.data!.executedPrice).toBeCloseTo(0.0000198, 10);
+    });
+
+    test('should fill a two-hop order at its limit', async () => {
+      const dexRouterInstance = (engine as any).dexRouter;
+      dexRouterInstance.executeSwap = jest.fn()
+        .mockResolvedValueOnce({ success: true, txHash: 'hop-1', executedPrice: 0.0000001, actualAmountOut: 0.1, minAmountOut: '100000000', amountReceived: '100000000' })
+        .mockResolvedValueOnce({ success: true, txHash: 'hop-2', executedPrice: 200, actualAmountOut: 20, minAmountOut: '20000000', amountReceived: '20000000' });
+
+      // Limit of 0.00002 JUP per BONK, exactly the route's quote
+      await engine.processOrder({ ...order, limitPrice: 0.00002, minAmountOut: '20000000' });
+
+      expect(dexRouterInstance.executeSwap).toHaveBeenNthCalledWith(
+        1, 'raydium', expect.objectContaining({ amountIn: '100000000000', minAmountOut: '100000000' }), hopRoute.hops[0].quote, expect.any(Function)
+      );
+      expect(dexRouterInstance.executeSwap).toHaveBeenNthCalledWith(
+        2, 'meteora', expect.objectContaining({ amountIn: '100000000', minAmountOut: '20000000' }), hopRoute.hops[1].quote, expect.any(Function)
+      );
+      expect(mockDatabase.updateOrderStatus).toHaveBeenLastCalledWith(order.id, OrderStatus.CONFIRMED, expect.objectContaining({ actualAmountOut: 20 }));
+    });
+
+    test('should fail before the first hop when the route is quoted below the minimum', async () => {
+      const dexRouterInstance = (engine as any).dexRouter;
+      dexRouterInstance.executeSwap = jest.fn();
+
+      await engine.processOrder({ ...order, minAmountOut: '21000000' });
+
+      expect(dexRouterInstance.executeSwap).not.toHaveBeenCalled();
+      expect(mockDatabase.updateOrderStatus).toHaveBeenLastCalledWith(order.id, OrderStatus.FAILED, expect.objectContaining({
+        errorMessage: 'Route output 20000000 is below minimum 21000000',
+        errorCode: ExecutionErrorCode.SLIPPAGE_EXCEEDED
+      }));
+    });
+
+    test('should fail without requeue when a later hop fails', async () => {
+      const mockOrderQueue = { addOrder: jest.fn().mockResolvedValue(undefined) } as any;
+      engine.setOrderQueue(mockOrderQueue);
+
+      const dexRouterInstance = (engine as any).dexRouter;
+      dexRouterInstance.executeSwap = jest.fn()
+        .mockResolvedValueOnce({ success: true, txHash: 'hop-1', executedPrice: 0.0000001, actualAmountOut: 0.1, minAmountOut: '99000000' })
+        .mockResolvedValueOnce({ success: false, error: 'Pool busy' });
+
+      await engine.processOrder(order);
+
+      expect(mockDatabase.updateOrderStatus).toHaveBeenLastCalledWith(
+        order.id,
+        OrderStatus.FAILED,
+        expect.objectContaining({
+          errorMessage: 'Hop 2/2 SOL/JUP on meteora: Pool busy; holding 99000000 SOL base units from earlier hops'
+        })
+      );
+      expect(mockOrderQueue.addOrder).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('TWAP orders', () => {
+    const twapOrder: Order = {
+      id: 'twap-test',
+      type: OrderType.TWAP,
+      tokenIn: 'SOL',
+      tokenOut: 'USDC',
+      tokenInMint: 'So11111111111111111111111111111111111111112',
+      tokenOutMint: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+      amountIn: '4000000000',
+      limitPrice: 245,
+      status: OrderStatus.SUBMITTED,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      retryCount: 0,
+      twap: {
+        slices: 4,
+        intervalMs: 15000,
+        settledSlices: 0,
+        filledSlices: 0,
+        amountFilled: '0',
+        amountRemaining: '4000000000',
+        actualAmountOut: 0
+      }
+    };
+
+    // One SOL per slice; settled slices paid 5000 lamports in fees
+    const slice = (index: number, status: OrderStatus, actualAmountOut?: number): Order => ({
+      ...twapOrder,
+      id: `twap-slice-${index}`,
+      type: OrderType.MARKET,
+      amountIn: '1000000000',
+      minAmountOut: '245000000',
+      status,
+      parentOrderId: twapOrder.id,
+      twap: undefined,
+      actualAmountOut,
+      feeLamports: status === OrderStatus.PENDING ? undefined : 5000,
+      errorMessage: status === OrderStatus.FAILED ? 'Expected output 244000000 is below minimum 245000000' : undefined
+    });
+
+    beforeEach(() => {
+      mockDatabase.getOrder = jest.fn().mockResolvedValue(twapOrder);
+      mockDatabase.updateTwapProgress = jest.fn().mockResolvedValue(true);
+    });
+
+    test('should validate slices and the price limit', () => {
+      expect(engine.validateTwapOrder(twapOrder).isValid).toBe(true);
+      expect(engine.validateTwapOrder({ ...twapOrder, limitPrice: undefined }).error).toBe('Limit price must be greater than zero');
+      expect(engine.validateTwapOrder({ ...twapOrder, amountIn: '3' }).error).toBe('Amount is too small to split into 4 slices');
+    });
+
+    test('should report progress and average price once a slice settles', async () => {
+      mockDatabase.getSliceOrders = jest.fn().mockResolvedValue([
+        slice(0, OrderStatus.CONFIRMED, 250),
+        slice(1, OrderStatus.CONFIRMED, 254),
+        slice(2, OrderStatus.PENDING),
+        slice(3, OrderStatus.PENDING)
+      ]);
+      mockRetryWithBackoff.mockResolvedValueOnce({
+        dex: 'raydium',
+        bestQuote: { dex: 'raydium', price: 254, amountOut: '254000000' },
+        allQuotes: [],
+        routingReason: 'best price'
+      });
+      (engine as any).dexRouter.executeSwap = jest.fn().mockResolvedValue({ success: true, txHash: 'slice-2', executedPrice: 254, actualAmountOut: 254 });
+
+      await engine.processOrder(slice(1, OrderStatus.PENDING));
+
+      expect(mockDatabase.updateOrderStatus).toHaveBeenCalledWith('twap-slice-1', OrderStatus.CONFIRMED, expect.objectContaining({ actualAmountOut: 254 }));
+      expect(mockDatabase.getSliceOrders).toHaveBeenCalledWith(twapOrder.id);
+      expect(mockDatabase.updateTwapProgress).toHaveBeenCalledWith(twapOrder.id, {
+        ...twapOrder.twap,
+        settledSlices: 2,
+        filledSlices: 2,
+        amountFilled: '2000000000',
+        amountRemaining: '2000000000',
+        actualAmountOut: 504,
+        averagePrice: 252
+      });
+      expect(mockWsManager.broadcastOrderUpdate).toHaveBeenLastCalledWith(expect.objectContaining({
+        orderId: twapOrder.id,
+        status: OrderStatus.SUBMITTED,
+        data: expect.objectContaining({ message: '2/4 slices settled, 2 of 4 slices filled', feeLamports: 10000 })
+      }));
+      expect(mockDatabase.updateOrderStatus).not.toHaveBeenCalledWith(twapOrder.id, expect.anything(), expect.anything());
+    });
+
+    test('should settle the order partially filled when a slice missed the limit', async () => {
+      mockDatabase.getSliceOrders = jest.fn().mockResolvedValue([
+        slice(0, OrderStatus.CONFIRMED, 250),
+        slice(1, OrderStatus.CONFIRMED, 254),
+        slice(2, OrderStatus.FAILED),
+        slice(3, OrderStatus.CONFIRMED, 248)
+      ]);
+
+      await (engine as any).updateTwapProgress(twapOrder.id);
+
+      expect(mockDatabase.updateOrderStatus).toHaveBeenCalledWith(twapOrder.id, OrderStatus.PARTIALLY_FILLED, expect.objectContaining({
+        actualAmountOut: 752,
+        feeLamports: 20000,
+        message: '3 of 4 slices filled at an average price of 250.66666666666666'
+      }));
+      expect(mockWsManager.broadcastOrderUpdate).toHaveBeenLastCalledWith(expect.objectContaining({
+        status: OrderStatus.PARTIALLY_FILLED,
+        data: expect.objectContaining({
+          twap: expect.objectContaining({ settledSlices: 4, filledSlices: 3, amountFilled: '3000000000', amountRemaining: '0' })
+        })
+      }));
+    });
+
+    test('should fail the order when no slice filled', async () => {
+      mockDatabase.getSliceOrders = jest.fn().mockResolvedValue([0, 1, 2, 3].map(index => slice(index, OrderStatus.FAILED)));
+
+      await (engine as any).updateTwapProgress(twapOrder.id);
+
+      expect(mockDatabase.updateOrderStatus).toHaveBeenCalledWith(twapOrder.id, OrderStatus.FAILED, expect.objectContaining({
+        errorMessage: expect.stringMatching(/^No slice filled: Expected output/)
+      }));
+    });
+
+    test('should cancel unsent slices and cancel the order once the sent ones settle', async () => {
+      const mockOrderQueue = { removeOrder: jest.fn().mockResolvedValue(true) } as any;
+      engine.setOrderQueue(mockOrderQueue);
+      mockDatabase.getSliceOrders = jest.fn()
+        .mockResolvedValueOnce([slice(0, OrderStatus.CONFIRMED, 250), slice(1, OrderStatus.SUBMITTED), slice(2, OrderStatus.PENDING), slice(3, OrderStatus.PENDING)])
+        .mockResolvedValueOnce([slice(0, OrderStatus.CONFIRMED, 250), slice(1, OrderStatus.SUBMITTED), slice(2, OrderStatus.CANCELLED), slice(3, OrderStatus.CANCELLED)])
+        .mockResolvedValue([slice(0, OrderStatus.CONFIRMED, 250), slice(1, OrderStatus.CONFIRMED, 254), slice(2, OrderStatus.CANCELLED), slice(3, OrderStatus.CANCELLED)]);
+
+      await expect(engine.cancelTwapOrder(twapOrder)).resolves.toBe(2);
+
+      expect(mockOrderQueue.removeOrder).toHaveBeenCalledTimes(2);
+      expect(mockDatabase.updateOrderStatus).toHaveBeenCalledWith('twap-slice-2', OrderStatus.CANCELLED, expect.anything());
+      expect(mockDatabase.updateOrderStatus).not.toHaveBeenCalledWith('twap-slice-1', expect.anything(), expect.anything());
+      expect(mockDatabase.updateOrderStatus).not.toHaveBeenCalledWith(twapOrder.id, expect.anything(), expect.anything());
+
+      await (engine as any).updateTwapProgress(twapOrder.id);
+
+      expect(mockDatabase.updateOrderStatus).toHaveBeenCalledWith(twapOrder.id, OrderStatus.CANCELLED, expect.objectContaining({
+        actualAmountOut: 504,
+        message: 'Cancelled with 2 of 4 slices filled at an average price of 252'
+      }));
+      expect(mockDatabase.updateTwapProgress).toHaveBeenLastCalledWith(twapOrder.id, expect.objectContaining({
+        settledSlices: 4, filledSlices: 2, amountFilled: '2000000000', amountRemaining: '0'
+      }));
+    });
+
+    test('should cancel the order straight away when cancelled before its first slice', async () => {
+      const mockOrderQueue = { removeOrder: jest.fn().mockResolvedValue(true) } as any;
+      engine.setOrderQueue(mockOrderQueue);
+      mockDatabase.getSliceOrders = jest.fn()
+        .mockResolvedValueOnce([0, 1, 2, 3].map(index => slice(index, OrderStatus.PENDING)))
+        .mockResolvedValue([0, 1, 2, 3].map(index => slice(index, OrderStatus.CANCELLED)));
+
+      await expect(engine.cancelTwapOrder(twapOrder)).resolves.toBe(4);
+
+      expect(mockOrderQueue.removeOrder).toHaveBeenCalledTimes(4);
+      expect(mockDatabase.updateOrderStatus).toHaveBeenCalledWith(twapOrder.id, OrderStatus.CANCELLED, expect.objectContaining({
+        actualAmountOut: undefined,
+        message: 'Cancelled before any slice filled'
+      }));
+      expect(mockDatabase.updateOrderStatus).not.toHaveBeenCalledWith(twapOrder.id, OrderStatus.FAILED, expect.anything());
+    });
+
+    test('should leave the order alone when later progress was already stored', async () => {
+      mockDatabase.getSliceOrders = jest.fn().mockResolvedValue([0, 1, 2, 3].map(index => slice(index, OrderStatus.CONFIRMED, 250)));
+      mockDatabase.updateTwapProgress = jest.fn().mockResolvedValue(false);
+
+      await (engine as any).updateTwapProgress(twapOrder.id);
+
+      expect(mockDatabase.updateOrderStatus).not.toHaveBeenCalled();
+      expect(mockWsManager.broadcastOrderUpdate).not.toHaveBeenCalled();
+    });
+  });
 });
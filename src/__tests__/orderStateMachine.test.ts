@@ -0,0 +1,43 @@
+import { assertTransition, canTransition, InvalidTransitionError } from '../models/orderStateMachine';
+import { OrderStatus, OrderType } from '../types';
+
+describe('Order State Machine - Transition Tests', () => {
+    test('should allow the market order lifecycle', () => {
+        expect(canTransition(OrderStatus.PENDING, OrderStatus.ROUTING)).toBe(true);
+        expect(canTransition(OrderStatus.ROUTING, OrderStatus.BUILDING)).toBe(true);
+        expect(canTransition(OrderStatus.BUILDING, OrderStatus.SUBMITTED)).toBe(true);
+        expect(canTransition(OrderStatus.SUBMITTED, OrderStatus.CONFIRMED)).toBe(true);
+    });
+
+    test('should retry through pending and keep failed orders failed', () => {
+        expect(canTransition(OrderStatus.ROUTING, OrderStatus.PENDING)).toBe(true);
+        expect(canTransition(OrderStatus.BUILDING, OrderStatus.PENDING)).toBe(true);
+        expect(canTransition(OrderStatus.SUBMITTED, OrderStatus.PENDING)).toBe(false); // a sent swap may still land
+        expect(canTransition(OrderStatus.FAILED, OrderStatus.ROUTING)).toBe(false);
+        expect(canTransition(OrderStatus.FAILED, OrderStatus.PENDING)).toBe(false);
+    });
+
+    test('should allow cancelling only before submission', () => {
+        expect(canTransition(OrderStatus.PENDING, OrderStatus.CANCELLED)).toBe(true);
+        expect(canTransition(OrderStatus.WAITING_TRIGGER, OrderStatus.CANCELLED)).toBe(true);
+        expect(canTransition(OrderStatus.ROUTING, OrderStatus.CANCELLED)).toBe(true);
+        expect(canTransition(OrderStatus.BUILDING, OrderStatus.CANCELLED)).toBe(true);
+        expect(canTransition(OrderStatus.SUBMITTED, OrderStatus.CANCELLED)).toBe(false);
+        expect(canTransition(OrderStatus.CONFIRMED, OrderStatus.CANCELLED)).toBe(false);
+    });
+
+    test('should cancel a submitted TWAP order only, once its slices settle', () => {
+        expect(canTransition(OrderStatus.SUBMITTED, OrderStatus.CANCELLED, OrderType.TWAP)).toBe(true);
+        expect(canTransition(OrderStatus.SUBMITTED, OrderStatus.PARTIALLY_FILLED, OrderType.TWAP)).toBe(true);
+        expect(canTransition(OrderStatus.SUBMITTED, OrderStatus.CANCELLED, OrderType.MARKET)).toBe(false);
+        expect(canTransition(OrderStatus.PENDING, OrderStatus.ROUTING, OrderType.TWAP)).toBe(true);
+        expect(canTransition(OrderStatus.CANCELLED, OrderStatus.SUBMITTED, OrderType.TWAP)).toBe(false);
+    });
+
+    test('should keep cancelled orders cancelled', () => {
+        expect(() => assertTransition('order-1', OrderStatus.CANCELLED, OrderStatus.SUBMITTED))
+            .toThrow(new InvalidTransitionError('order-1', OrderStatus.CANCELLED, OrderStatus.SUBMITTED));
+        expect(() => assertTransition('order-1', OrderStatus.CANCELLED, OrderStatus.PENDING))
+            .toThrow('Order order-1 cannot move from cancelled to pending');
+    });
+});
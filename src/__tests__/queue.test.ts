@@ -28,6 +28,7 @@ describe('OrderQueue - Queue Behavior Tests', () => {
             getActive: jest.fn().mockResolvedValue([]),
             getCompleted: jest.fn().mockResolvedValue([]),
             getFailed: jest.fn().mockResolvedValue([]),
+            getJob: jest.fn().mockResolvedValue(undefined),
             pause: jest.fn().mockResolvedValue(undefined),
             resume: jest.fn().mockResolvedValue(undefined),
             close: jest.fn().mockResolvedValue(undefined),
@@ -108,6 +109,7 @@ describe('OrderQueue - Queue Behavior Tests', () => {
                 order
             },
             {
+                jobId: 'test-order-1-0',
                 priority: 1, // Market order priority
                 delay: 0,
             }
@@ -240,4 +242,34 @@ describe('OrderQueue - Queue Behavior Tests', () => {
         const workerConfig = (Worker as unknown as jest.Mock).mock.calls[0][2];
         expect(workerConfig.concurrency).toBe(10);
     });
+
+    test('should remove the job of the cancelled order by id only while it is still waiting', async () => {
+        const order = (id: string, retryCount: number): Order => ({
+            id,
+            type: OrderType.MARKET,
+            tokenIn: 'SOL',
+            tokenOut: 'USDC',
+            tokenInMint: 'So11111111111111111111111111111111111111112',
+            tokenOutMint: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+            amountIn: '1',
+            status: OrderStatus.PENDING,
+            createdAt: new Date(),
+            updatedAt: new Date(),
+            retryCount
+        });
+        const waitingJob = { id: 'cancelled-order-1', getState: jest.fn().mockResolvedValue('delayed'), remove: jest.fn().mockResolvedValue(undefined) };
+        const activeJob = { id: 'active-order-0', getState: jest.fn().mockResolvedValue('active'), remove: jest.fn().mockResolvedValue(undefined) };
+        (mockQueue.getJob as jest.Mock).mockImplementation(async (jobId: string) => [waitingJob, activeJob].find(job => job.id === jobId));
+
+        const removed = await orderQueue.removeOrder(order('cancelled-order', 1));
+        const active = await orderQueue.removeOrder(order('active-order', 0));
+        const missing = await orderQueue.removeOrder(order('missing-order', 0));
+
+        expect(mockQueue.getJob).toHaveBeenCalledWith('cancelled-order-1');
+        expect(waitingJob.remove).toHaveBeenCalled();
+        expect(activeJob.remove).not.toHaveBeenCalled();
+        expect(removed).toBe(true);
+        expect(active).toBe(false);
+        expect(missing).toBe(false);
+    });
 });
@@ -0,0 +1,51 @@
+import { QuoteCache } from '../services/quoteCache';
+import { RouteResult } from '../types';
+
+describe('QuoteCache - Short-lived Quote Tests', () => {
+    let quoteCache: QuoteCache;
+
+    const route: RouteResult = {
+        dex: 'raydium',
+        bestQuote: { dex: 'raydium', price: 150, amountOut: '150000000' },
+        allQuotes: [{ dex: 'raydium', price: 150, amountOut: '150000000' }],
+        routingReason: 'raydium selected: only venue quoting SOL/USDC',
+        expectedAmountOut: '150000000'
+    };
+
+    const quoteFor = (accountId: string) => quoteCache.save({
+        accountId,
+        tokenIn: 'SOL',
+        tokenOut: 'USDC',
+        tokenInMint: 'So11111111111111111111111111111111111111112',
+        tokenOutMint: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+        amountIn: '1000000000',
+        route
+    });
+
+    beforeEach(() => {
+        quoteCache = new QuoteCache(30000);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    test('should return a live quote to the account it was quoted to only', () => {
+        const quote = quoteFor('account-1');
+
+        expect(quote.expiresAt.getTime() - quote.createdAt.getTime()).toBe(30000);
+        expect(quoteCache.get(quote.id, 'account-1')).toBe(quote);
+        expect(quoteCache.get(quote.id, 'account-2')).toBeNull();
+        expect(quoteCache.get('unknown-quote', 'account-1')).toBeNull();
+    });
+
+    test('should drop quotes once they expire', () => {
+        const now = Date.now();
+        const quote = quoteFor('account-1');
+
+        jest.spyOn(Date, 'now').mockReturnValue(now + 30000);
+
+        expect(quoteCache.get(quote.id, 'account-1')).toBeNull();
+        expect(quoteCache.get(quoteFor('account-1').id, 'account-1')).not.toBeNull();
+    });
+});
@@ -0,0 +1,105 @@
+import Fastify, { FastifyInstance } from 'fastify';
+import { authPlugin, hashApiKey } from '../plugins/auth';
+import { rateLimitPlugin, RateLimitWindows } from '../plugins/rateLimit';
+import { Database } from '../database/connection';
+
+// Mock dependencies
+jest.mock('../database/connection');
+
+describe('Rate Limit Plugin - Per-account Limit Tests', () => {
+    let app: FastifyInstance;
+    let mockDatabase: jest.Mocked<Database>;
+
+    const accounts: Record<string, any> = {
+        [hashApiKey('key-1')]: { id: 'account-1', name: 'First', createdAt: new Date() },
+        [hashApiKey('key-2')]: { id: 'account-2', name: 'Second', createdAt: new Date() },
+        [hashApiKey('key-vip')]: { id: 'account-vip', name: 'VIP', createdAt: new Date(), rateLimitMax: 5 }
+    };
+
+    const get = (apiKey?: string, url = '/limited') => app.inject({
+        method: 'GET',
+        url,
+        headers: apiKey ? { 'x-api-key': apiKey } : {}
+    });
+
+    beforeEach(async () => {
+        mockDatabase = new Database('test') as jest.Mocked<Database>;
+        mockDatabase.getAccountByApiKeyHash = jest.fn().mockImplementation(async (hash: string) => accounts[hash] ?? null);
+
+        app = Fastify();
+        await app.register(authPlugin, { database: mockDatabase });
+        await app.register(rateLimitPlugin, { maxRequests: 2, windowMs: 60000 });
+        app.get('/limited', async () => ({ ok: true }));
+        app.get('/public', { config: { public: true } }, async () => ({ ok: true }));
+        await app.ready();
+    });
+
+    afterEach(async () => {
+        await app.close();
+        jest.clearAllMocks();
+    });
+
+    test('should answer 429 with retry headers once an account uses up its window', async () => {
+        const first = await get('key-1');
+        const second = await get('key-1');
+        const third = await get('key-1');
+
+        expect(first.statusCode).toBe(200);
+        expect(first.headers['x-ratelimit-limit']).toBe('2');
+        expect(first.headers['x-ratelimit-remaining']).toBe('1');
+        expect(second.statusCode).toBe(200);
+        expect(third.statusCode).toBe(429);
+        expect(Number(third.headers['retry-after'])).toBeGreaterThan(0);
+        expect(Number(third.headers['retry-after'])).toBeLessThanOrEqual(60);
+        expect(JSON.parse(third.body)).toHaveProperty('error', 'Too many requests');
+    });
+
+    test('should count each account separately', async () => {
+        await get('key-1');
+        await get('key-1');
+
+        expect((await get('key-1')).statusCode).toBe(429);
+        expect((await get('key-2')).statusCode).toBe(200);
+    });
+
+    test('should apply an account limit over the default', async () => {
+        const responses = await Promise.all([1, 2, 3, 4, 5, 6].map(() => get('key-vip')));
+
+        expect(responses.map(response => response.statusCode)).toEqual([200, 200, 200, 200, 200, 429]);
+    });
+
+    test('should start a new window once the old one has passed', async () => {
+        const now = Date.now();
+        const clock = jest.spyOn(Date, 'now').mockReturnValue(now);
+
+        await get('key-1');
+        await get('key-1');
+        expect((await get('key-1')).statusCode).toBe(429);
+
+        clock.mockReturnValue(now + 60000);
+        expect((await get('key-1')).statusCode).toBe(200);
+
+        clock.mockRestore();
+    });
+
+    test('should drop the windows of accounts once they have passed', () => {
+        const windows = new RateLimitWindows(60000);
+
+        windows.hit('account-1', 0);
+        windows.hit('account-2', 30000);
+        windows.sweep(60000);
+
+        expect(windows.size).toBe(1);
+        expect(windows.hit('account-2', 60000).count).toBe(2);
+
+        windows.sweep(90000);
+        expect(windows.size).toBe(0);
+    });
+
+    test('should not limit public routes or unauthenticated requests', async () => {
+        const responses = await Promise.all([1, 2, 3].map(() => get(undefined, '/public')));
+        expect(responses.every(response => response.statusCode === 200)).toBe(true);
+
+        expect((await get()).statusCode).toBe(401);
+    });
+});
@@ -0,0 +1,162 @@
+import { RiskManager } from '../services/riskManager';
+import { Database } from '../database/connection';
+import { TokenRegistry } from '../services/tokenRegistry';
+import { Account, Order, OrderStatus, OrderType, RouteResult } from '../types';
+
+// Mock dependencies
+jest.mock('../database/connection');
+
+const SOL_MINT = 'So11111111111111111111111111111111111111112';
+const USDC_MINT = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+
+describe('RiskManager - Pre-trade Limit Tests', () => {
+    let riskManager: RiskManager;
+    let mockDatabase: jest.Mocked<Database>;
+    let quote: jest.Mock<Promise<RouteResult>, [string, string, string]>;
+
+    const account: Account = { id: 'account-1', name: 'Test account', createdAt: new Date() };
+
+    const solOrder = (amountIn: string): Order => ({
+        id: 'order-1',
+        type: OrderType.MARKET,
+        tokenIn: 'SOL',
+        tokenOut: 'USDC',
+        tokenInMint: SOL_MINT,
+        tokenOutMint: USDC_MINT,
+        amountIn,
+        status: OrderStatus.PENDING,
+        accountId: account.id,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        retryCount: 0
+    });
+
+    beforeEach(() => {
+        mockDatabase = new Database('test') as jest.Mocked<Database>;
+        mockDatabase.getRiskUsage = jest.fn().mockResolvedValue({ openOrders: 0, dailyValue: 0 });
+
+        // 1 SOL quotes at 150 USDC
+        quote = jest.fn().mockResolvedValue({
+            dex: 'raydium',
+            bestQuote: { dex: 'raydium', price: 150, amountOut: '150000000' },
+            allQuotes: [],
+            routingReason: 'Best price',
+            expectedAmountOut: '150000000'
+        });
+
+        riskManager = new RiskManager(mockDatabase, TokenRegistry.fromFile(), quote, {
+            quoteToken: 'USDC',
+            maxOpenOrders: 3,
+            maxOrderValue: 1500,
+            maxDailyValue: 3750
+        });
+    });
+
+    afterEach(() => {
+        jest.clearAllMocks();
+    });
+
+    test('should accept an order within all limits and keep its value', async () => {
+        const order = solOrder('5000000000');
+
+        const result = await riskManager.checkOrder(order, account);
+
+        expect(result).toEqual({ isValid: true });
+        expect(order.notionalValue).toBe(750);
+        expect(quote).toHaveBeenCalledWith('SOL', 'USDC', '1000000000');
+
+        const since = mockDatabase.getRiskUsage.mock.calls[0][1];
+        expect(mockDatabase.getRiskUsage.mock.calls[0][0]).toBe('account-1');
+        expect(since.getUTCHours()).toBe(0);
+        expect(since.getUTCMinutes()).toBe(0);
+    });
+
+    test('should reject orders valued above the per-order limit', async () => {
+        const result = await riskManager.checkOrder(solOrder('10100000000'), account);
+
+        expect(result).toEqual({ isValid: false, error: 'Order value of 1515.00 USDC exceeds the limit of 1500 USDC per order' });
+    });
+
+    test('should value orders of the quote token without quoting them', async () => {
+        const order = { ...solOrder('1600000000'), tokenIn: 'USDC', tokenInMint: USDC_MINT, tokenOut: 'SOL', tokenOutMint: SOL_MINT };
+
+        const result = await riskManager.checkOrder(order, account);
+
+        expect(result).toEqual({ isValid: false, error: 'Order value of 1600.00 USDC exceeds the limit of 1500 USDC per order' });
+        expect(quote).not.toHaveBeenCalled();
+    });
+
+    test('should reject orders that cannot be valued', async () => {
+        quote.mockRejectedValue(new Error('No liquidity'));
+
+        const result = await riskManager.checkOrder(solOrder('1000000000'), account);
+
+        expect(result).toEqual({ isValid: false, error: 'Order cannot be valued in USDC' });
+    });
+
+    test('should reuse a recent value of the token', async () => {
+        await riskManager.checkOrder(solOrder('1000000000'), account);
+        await riskManager.checkOrder(solOrder('2000000000'), account);
+
+        expect(quote).toHaveBeenCalledTimes(1);
+    });
+
+    test('should reject orders once the account has too many open orders', async () => {
+        mockDatabase.getRiskUsage.mockResolvedValue({ openOrders: 3, dailyValue: 0 });
+
+        const result = await riskManager.checkOrder(solOrder('1000000000'), account);
+
+        expect(result).toEqual({ isValid: false, error: 'Account has 3 open orders, the limit is 3' });
+    });
+
+    test('should reject orders that would exceed the daily value', async () => {
+        mockDatabase.getRiskUsage.mockResolvedValue({ openOrders: 0, dailyValue: 3000 });
+
+        const result = await riskManager.checkOrder(solOrder('6000000000'), account);
+
+        expect(result).toEqual({ isValid: false, error: 'Order exceeds the daily limit of 3750 USDC; 3000.00 USDC already traded today' });
+    });
+
+    test('should count orders accepted alongside the order but not stored yet', async () => {
+        mockDatabase.getRiskUsage.mockResolvedValue({ openOrders: 1, dailyValue: 1500 });
+        const batch = [solOrder('8000000000'), solOrder('5000000000')];
+        for (const order of batch) {
+            await riskManager.checkOrder(order, { ...account, riskLimits: { maxOpenOrders: 10 } });
+        }
+
+        expect(await riskManager.checkOrder(solOrder('1000000000'), account, batch.slice(0, 1))).toEqual({ isValid: true });
+        expect(await riskManager.checkOrder(solOrder('1000000000'), account, batch)).toEqual({
+            isValid: false,
+            error: 'Account has 3 open orders, the limit is 3'
+        });
+
+        mockDatabase.getRiskUsage.mockResolvedValue({ openOrders: 0, dailyValue: 1500 });
+        const result = await riskManager.checkOrder(solOrder('3000000000'), account, batch);
+        expect(result.error).toBe('Order exceeds the daily limit of 3750 USDC; 3450.00 USDC already traded today');
+    });
+
+    test('should check stored usage again when the orders are stored', async () => {
+        const order = solOrder('5000000000');
+        await riskManager.checkOrder(order, account);
+
+        const check = riskManager.guard(account, [order]);
+
+        expect(check.since.getUTCHours()).toBe(0);
+        expect(check.evaluate({ openOrders: 2, dailyValue: 3000 })).toBeUndefined();
+        expect(check.evaluate({ openOrders: 3, dailyValue: 0 })).toBe('Account has 3 open orders, the limit is 3');
+        expect(check.evaluate({ openOrders: 0, dailyValue: 3100 })).toBe(
+            'Order exceeds the daily limit of 3750 USDC; 3100.00 USDC already traded today'
+        );
+    });
+
+    test('should apply account overrides over the defaults', async () => {
+        const whale: Account = { ...account, riskLimits: { maxOrderValue: 150000, maxDailyValue: 750000 } };
+
+        expect(await riskManager.checkOrder(solOrder('500000000000'), whale)).toEqual({ isValid: true });
+        expect(riskManager.limitsFor(whale)).toEqual({
+            maxOpenOrders: 3,
+            maxOrderValue: 150000,
+            maxDailyValue: 750000
+        });
+    });
+});
@@ -0,0 +1,203 @@
+import { SniperDetector } from '../services/sniperDetector';
+import { Database } from '../database/connection';
+import { OrderExecutionEngine } from '../services/orderExecutionEngine';
+import { OrderQueue } from '../services/queue';
+import { Order, OrderType, OrderStatus, PoolCreatedEvent, PoolCreationSource } from '../types';
+import { TokenRegistry } from '../services/tokenRegistry';
+import { retryWithBackoff } from '../utils/errorHandler';
+
+// Mock dependencies
+jest.mock('../database/connection');
+jest.mock('../services/orderExecutionEngine');
+jest.mock('../services/queue');
+jest.mock('../utils/errorHandler');
+
+const SOL_MINT = 'So11111111111111111111111111111111111111112';
+const TARGET_MINT = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+
+// Local pool-creation feed driven by the test
+class FakePoolCreationSource implements PoolCreationSource {
+    private handler: ((event: PoolCreatedEvent) => void) | null = null;
+
+    async start(onPoolCreated: (event: PoolCreatedEvent) => void): Promise<void> {
+        this.handler = onPoolCreated;
+    }
+
+    async stop(): Promise<void> {
+        this.handler = null;
+    }
+
+    emit(event: PoolCreatedEvent): void {
+        this.handler?.(event);
+    }
+}
+
+describe('SniperDetector - Pool Detection Tests', () => {
+    let detector: SniperDetector;
+    let source: FakePoolCreationSource;
+    let mockDatabase: jest.Mocked<Database>;
+    let mockExecutionEngine: jest.Mocked<OrderExecutionEngine>;
+    let mockOrderQueue: jest.Mocked<OrderQueue>;
+    let tokenRegistry: TokenRegistry;
+
+    const sniperOrder: Order = {
+        id: 'sniper-order',
+        type: OrderType.SNIPER,
+        tokenIn: 'SOL',
+        tokenOut: TARGET_MINT,
+        tokenInMint: SOL_MINT,
+        tokenOutMint: TARGET_MINT,
+        amountIn: '500000000',
+        status: OrderStatus.WAITING_TRIGGER,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        retryCount: 0,
+        maxPrice: 0.001 // SOL per target token
+    };
+
+    const poolEvent = (mints: string[], decimals: Record<string, number> = { [SOL_MINT]: 9, [TARGET_MINT]: 5 }): PoolCreatedEvent => ({
+        dex: 'raydium',
+        poolAddress: 'NewPoo1111111111111111111111111111111111111',
+        mints,
+        decimals,
+        detectedAt: new Date()
+    });
+
+    const quoteAt = (price: number) => ({
+        dex: 'raydium',
+        bestQuote: { dex: 'raydium', price },
+        allQuotes: [{ dex: 'raydium', price }],
+        routingReason: 'Only pool'
+    });
+
+    beforeEach(async () => {
+        mockDatabase = new Database('test') as jest.Mocked<Database>;
+        mockExecutionEngine = new OrderExecutionEngine({} as any, {} as any, {} as any) as jest.Mocked<OrderExecutionEngine>;
+        mockOrderQueue = new OrderQueue({ host: 'localhost', port: 6379 }, mockExecutionEngine) as jest.Mocked<OrderQueue>;
+
+        mockDatabase.getOrdersByStatus = jest.fn().mockResolvedValue([sniperOrder]);
+        mockDatabase.updateSniperPool = jest.fn().mockResolvedValue(undefined);
+        mockExecutionEngine.getQuote = jest.fn();
+        mockExecutionEngine.updateOrderStatus = jest.fn().mockResolvedValue(undefined);
+        mockOrderQueue.addOrder = jest.fn().mockResolvedValue(undefined);
+        (retryWithBackoff as jest.MockedFunction<typeof retryWithBackoff>).mockImplementation(async (fn) => await fn());
+
+        source = new FakePoolCreationSource();
+        tokenRegistry = TokenRegistry.fromFile();
+        detector = new SniperDetector(mockDatabase, mockExecutionEngine, mockOrderQueue, source, tokenRegistry);
+        await detector.start();
+    });
+
+    afterEach(async () => {
+        await detector.stop();
+        jest.clearAllMocks();
+    });
+
+    test('should fire sniper order when its target pool is created', async () => {
+        mockExecutionEngine.getQuote.mockResolvedValue(quoteAt(2000)); // 0.0005 SOL per token
+
+        await detector.handlePoolCreated(poolEvent([SOL_MINT, TARGET_MINT]));
+
+        expect(mockDatabase.getOrdersByStatus).toHaveBeenCalledWith(OrderStatus.WAITING_TRIGGER, [OrderType.SNIPER]);
+        expect(mockExecutionEngine.getQuote).toHaveBeenCalledWith('SOL', TARGET_MINT, '500000000');
+        expect(mockExecutionEngine.updateOrderStatus).toHaveBeenCalledWith(
+            sniperOrder.id,
+            OrderStatus.PENDING,
+            expect.objectContaining({ message: expect.stringContaining('raydium') })
+        );
+        expect(mockOrderQueue.addOrder).toHaveBeenCalledWith(
+            expect.objectContaining({ id: sniperOrder.id, type: OrderType.SNIPER, status: OrderStatus.PENDING })
+        );
+    });
+
+    test('should store the pool with the order and hold the swap to max price on-chain', async () => {
+        mockExecutionEngine.getQuote.mockResolvedValue(quoteAt(2000));
+
+        await detector.handlePoolCreated(poolEvent([SOL_MINT, TARGET_MINT]));
+
+        // 0.5 SOL buys at least 500 target tokens (5 decimals) at 0.001 SOL each
+        const sniperPool = { dex: 'raydium', poolAddress: 'NewPoo1111111111111111111111111111111111111', tokenOutDecimals: 5 };
+        expect(mockDatabase.updateSniperPool).toHaveBeenCalledWith(sniperOrder.id, sniperPool, '50000000');
+        expect(mockOrderQueue.addOrder).toHaveBeenCalledWith(expect.objectContaining({ sniperPool, minAmountOut: '50000000' }));
+    });
+
+    test('should react to events pushed by the pool creation source', async () => {
+        mockExecutionEngine.getQuote.mockResolvedValue(quoteAt(2000));
+
+        source.emit(poolEvent([SOL_MINT, TARGET_MINT]));
+        await new Promise(resolve => setImmediate(resolve));
+
+        expect(mockOrderQueue.addOrder).toHaveBeenCalledTimes(1);
+    });
+
+    test('should ignore pools for other tokens', async () => {
+        await detector.handlePoolCreated(poolEvent([SOL_MINT, 'JUPyiwrYJFskUPiHa7hkeR8VUtAeFoSYbKedZNsDvCN']));
+
+        expect(mockExecutionEngine.getQuote).not.toHaveBeenCalled();
+        expect(mockOrderQueue.addOrder).not.toHaveBeenCalled();
+    });
+
+    test('should stay armed when the launch price is above max price', async () => {
+        mockExecutionEngine.getQuote.mockResolvedValue(quoteAt(500)); // 0.002 SOL per token
+
+        await detector.handlePoolCreated(poolEvent([SOL_MINT, TARGET_MINT]));
+
+        expect(mockExecutionEngine.updateOrderStatus).not.toHaveBeenCalled();
+        expect(mockOrderQueue.addOrder).not.toHaveBeenCalled();
+        expect(mockDatabase.updateSniperPool).toHaveBeenCalledTimes(1); // armed on the pool, to be re-quoted
+    });
+
+    test('should re-quote an armed order every poll and fire once the price is within max', async () => {
+        const armedOrder: Order = {
+            ...sniperOrder,
+            minAmountOut: '50000000',
+            sniperPool: { dex: 'raydium', poolAddress: 'NewPoo1111111111111111111111111111111111111', tokenOutDecimals: 5 }
+        };
+        mockDatabase.getOrdersByStatus.mockResolvedValue([armedOrder]);
+        mockExecutionEngine.getQuote
+            .mockResolvedValueOnce(quoteAt(500))
+            .mockResolvedValueOnce(quoteAt(2000));
+
+        await detector.checkArmedOrders();
+        expect(mockOrderQueue.addOrder).not.toHaveBeenCalled();
+
+        await detector.checkArmedOrders();
+        expect(mockOrderQueue.addOrder).toHaveBeenCalledWith(
+            expect.objectContaining({ id: sniperOrder.id, status: OrderStatus.PENDING, minAmountOut: '50000000' })
+        );
+        expect(tokenRegistry.resolve(TARGET_MINT)).toEqual(expect.objectContaining({ decimals: 5 }));
+    });
+
+    test('should leave orders whose pool has not launched to the pool feed', async () => {
+        await detector.checkArmedOrders();
+
+        expect(mockExecutionEngine.getQuote).not.toHaveBeenCalled();
+    });
+
+    test('should register the new pool and target token so the order can be routed', async () => {
+        mockExecutionEngine.getQuote.mockResolvedValue(quoteAt(2000));
+
+        await detector.handlePoolCreated(poolEvent([SOL_MINT, TARGET_MINT]));
+
+        expect(tokenRegistry.resolve(TARGET_MINT)).toEqual({ symbol: TARGET_MINT, mint: TARGET_MINT, decimals: 5 });
+        expect(tokenRegistry.getPools(SOL_MINT, TARGET_MINT)).toEqual([
+            { dex: 'raydium', address: 'NewPoo1111111111111111111111111111111111111', mints: [SOL_MINT, TARGET_MINT] }
+        ]);
+    });
+
+    test('should stay armed when the target token decimals are unknown', async () => {
+        await detector.handlePoolCreated(poolEvent([SOL_MINT, TARGET_MINT], {}));
+
+        expect(mockExecutionEngine.getQuote).not.toHaveBeenCalled();
+        expect(mockOrderQueue.addOrder).not.toHaveBeenCalled();
+    });
+
+    test('should stop listening to the source when stopped', async () => {
+        await detector.stop();
+
+        source.emit(poolEvent([SOL_MINT, TARGET_MINT]));
+        await new Promise(resolve => setImmediate(resolve));
+
+        expect(mockDatabase.getOrdersByStatus).not.toHaveBeenCalled();
+    });
+});
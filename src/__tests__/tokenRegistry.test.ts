@@ -0,0 +1,76 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { TokenRegistry } from '../services/tokenRegistry';
+
+const SOL_MINT = 'So11111111111111111111111111111111111111112';
+const USDC_MINT = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const BONK_MINT = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+const USDT_MINT = 'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB';
+
+describe('TokenRegistry - Token and Pair Resolution Tests', () => {
+    let registry: TokenRegistry;
+
+    beforeEach(() => {
+        registry = TokenRegistry.fromFile();
+    });
+
+    test('should resolve bundled tokens by symbol in any case or by mint', () => {
+        expect(registry.resolve('SOL')).toEqual({ symbol: 'SOL', mint: SOL_MINT, decimals: 9 });
+        expect(registry.resolve('usdc')).toEqual({ symbol: 'USDC', mint: USDC_MINT, decimals: 6 });
+        expect(registry.resolve(USDC_MINT)?.symbol).toBe('USDC');
+        expect(registry.resolve('NOPE')).toBeUndefined();
+    });
+
+    test('should resolve a pair served by a pool in either direction', () => {
+        const forward = registry.resolvePair('SOL', USDC_MINT);
+        const reverse = registry.resolvePair('USDC', 'SOL');
+
+        expect(forward.error).toBeUndefined();
+        expect(forward.tokenOut?.symbol).toBe('USDC');
+        expect(reverse.tokenIn?.symbol).toBe('USDC');
+        expect(registry.getPools(USDC_MINT, SOL_MINT).map(pool => pool.dex)).toEqual(['raydium', 'meteora']);
+    });
+
+    test('should reject unknown tokens and pairs without a pool', () => {
+        expect(registry.resolvePair('SOL', 'NOPE')).toEqual({ error: 'Unsupported token: NOPE' });
+        expect(registry.resolvePair('SOL', 'USDT')).toEqual({ error: 'Unsupported pair: SOL/USDT' });
+    });
+
+    test('should route newly registered tokens and pools', () => {
+        registry.registerToken({ symbol: 'BONK', mint: BONK_MINT, decimals: 5 });
+        registry.registerPool({ dex: 'raydium', address: 'bonk-pool', mints: [SOL_MINT, BONK_MINT] });
+        registry.registerPool({ dex: 'raydium', address: 'bonk-pool', mints: [SOL_MINT, BONK_MINT] });
+
+        expect(registry.resolvePair('BONK', 'SOL').error).toBeUndefined();
+        expect(registry.getPools(SOL_MINT, BONK_MINT)).toHaveLength(1);
+    });
+
+    test('should find paths through base tokens for pairs without a pool', () => {
+        registry.registerToken({ symbol: 'BONK', mint: BONK_MINT, decimals: 5 });
+        registry.registerPool({ dex: 'raydium', address: 'bonk-pool', mints: [SOL_MINT, BONK_MINT] });
+
+        const paths = registry.findPaths(BONK_MINT, USDC_MINT).map(path => path.map(token => token.symbol));
+
+        expect(paths).toEqual([['BONK', 'SOL', 'USDC']]);
+        expect(registry.resolvePair('BONK', 'USDC').error).toBeUndefined();
+        expect(registry.findPaths(BONK_MINT, USDT_MINT)).toEqual([]);
+    });
+
+    test('should load tokens and pools from a JSON file', () => {
+        const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'tokens-')), 'tokens.json');
+        fs.writeFileSync(file, JSON.stringify({
+            tokens: [
+                { symbol: 'SOL', mint: SOL_MINT, decimals: 9 },
+                { symbol: 'BONK', mint: BONK_MINT, decimals: 5 }
+            ],
+            pools: [{ dex: 'meteora', address: 'bonk-pool', mints: [SOL_MINT, BONK_MINT] }]
+        }));
+
+        const fromFile = TokenRegistry.fromFile(file);
+
+        expect(fromFile.resolve('USDC')).toBeUndefined();
+        expect(fromFile.resolvePair('SOL', 'BONK').tokenOut?.decimals).toBe(5);
+        expect(fromFile.getPoolsForDex('meteora')).toHaveLength(1);
+    });
+});
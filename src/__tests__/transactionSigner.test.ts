@@ -0,0 +1,105 @@
+import { createPrivateKey, sign } from 'crypto';
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import { Keypair, PublicKey, SystemProgram, Transaction } from '@solana/web3.js';
+import { KeypairSigner } from '../services/signers/keypairSigner';
+import { RemoteSigner } from '../services/signers/remoteSigner';
+
+// DER prefix turning a raw 32-byte ed25519 seed into a PKCS8 key
+const ED25519_PKCS8_PREFIX = Buffer.from('302e020100300506032b657004220420', 'hex');
+
+describe('TransactionSigner - Local and Remote Signing Tests', () => {
+    const keypair = Keypair.generate();
+    const privateKey = createPrivateKey({
+        key: Buffer.concat([ED25519_PKCS8_PREFIX, Buffer.from(keypair.secretKey.slice(0, 32))]),
+        format: 'der',
+        type: 'pkcs8'
+    });
+
+    let server: Server;
+    let url: string;
+    let requests: { authorization?: string; body: { publicKey: string; message: string } }[];
+    let respond: (message: Buffer) => { status: number; body: unknown };
+
+    const readBody = async (request: IncomingMessage): Promise<string> => {
+        let body = '';
+        for await (const chunk of request) {
+            body += chunk;
+        }
+        return body;
+    };
+
+    const transfer = (feePayer: PublicKey): Transaction => {
+        const transaction = new Transaction().add(SystemProgram.transfer({
+            fromPubkey: feePayer,
+            toPubkey: Keypair.generate().publicKey,
+            lamports: 1000
+        }));
+        transaction.feePayer = feePayer;
+        transaction.recentBlockhash = Keypair.generate().publicKey.toBase58();
+        return transaction;
+    };
+
+    // Stub of the signing service, holding the key the engine never sees
+    beforeAll(async () => {
+        server = createServer(async (request, response) => {
+            const body = JSON.parse(await readBody(request));
+            requests.push({ authorization: request.headers.authorization, body });
+
+            const { status, body: reply } = respond(Buffer.from(body.message, 'base64'));
+            response.writeHead(status, { 'content-type': 'application/json' });
+            response.end(JSON.stringify(reply));
+        });
+
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+        await new Promise(resolve => server.close(resolve));
+    });
+
+    beforeEach(() => {
+        requests = [];
+        respond = message => ({ status: 200, body: { signature: sign(null, message, privateKey).toString('base64') } });
+    });
+
+    test('should sign with a local keypair', async () => {
+        const transaction = transfer(keypair.publicKey);
+
+        await new KeypairSigner(keypair).signTransaction(transaction);
+
+        expect(transaction.verifySignatures()).toBe(true);
+    });
+
+    test('should add the signing service signature to the transaction', async () => {
+        const signer = new RemoteSigner(`${url}/`, keypair.publicKey.toBase58(), { authToken: 'secret' });
+        const transaction = transfer(keypair.publicKey);
+
+        await signer.signTransaction(transaction);
+
+        expect(transaction.verifySignatures()).toBe(true);
+        expect(requests).toHaveLength(1);
+        expect(requests[0].authorization).toBe('Bearer secret');
+        expect(requests[0].body).toEqual({
+            publicKey: keypair.publicKey.toBase58(),
+            message: transaction.serializeMessage().toString('base64')
+        });
+    });
+
+    test('should reject signatures that do not match the wallet', async () => {
+        const other = Keypair.generate();
+        const signer = new RemoteSigner(url, other.publicKey);
+
+        await expect(signer.signTransaction(transfer(other.publicKey)))
+            .rejects.toThrow(`Remote signer returned an invalid signature for ${other.publicKey.toBase58()}`);
+    });
+
+    test('should surface signing service errors', async () => {
+        respond = () => ({ status: 403, body: { error: 'Wallet not allowed' } });
+        const signer = new RemoteSigner(url, keypair.publicKey);
+
+        await expect(signer.signTransaction(transfer(keypair.publicKey)))
+            .rejects.toThrow('Remote signer returned 403: {"error":"Wallet not allowed"}');
+    });
+});
@@ -0,0 +1,203 @@
+import { TriggerWatcher } from '../services/triggerWatcher';
+import { Database } from '../database/connection';
+import { OrderExecutionEngine } from '../services/orderExecutionEngine';
+import { OrderQueue } from '../services/queue';
+import { Order, OrderType, OrderStatus, RouteResult } from '../types';
+
+// Mock dependencies
+jest.mock('../database/connection');
+jest.mock('../services/orderExecutionEngine');
+jest.mock('../services/queue');
+
+describe('TriggerWatcher - Limit Order Trigger Tests', () => {
+    let watcher: TriggerWatcher;
+    let mockDatabase: jest.Mocked<Database>;
+    let mockExecutionEngine: jest.Mocked<OrderExecutionEngine>;
+    let mockOrderQueue: jest.Mocked<OrderQueue>;
+
+    const limitOrder = (overrides: Partial<Order> = {}): Order => ({
+        id: 'limit-order',
+        type: OrderType.LIMIT,
+        tokenIn: 'SOL',
+        tokenOut: 'USDC',
+        tokenInMint: 'So11111111111111111111111111111111111111112',
+        tokenOutMint: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+        amountIn: '1000000000',
+        status: OrderStatus.WAITING_TRIGGER,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        retryCount: 0,
+        limitPrice: 250,
+        expiresAt: new Date(Date.now() + 60000),
+        ...overrides
+    });
+
+    const routeAt = (price: number): RouteResult => ({
+        dex: 'raydium',
+        bestQuote: { dex: 'raydium', price },
+        allQuotes: [{ dex: 'raydium', price }],
+        routingReason: 'Best price'
+    });
+
+    beforeEach(() => {
+        mockDatabase = new Database('test') as jest.Mocked<Database>;
+        mockExecutionEngine = new OrderExecutionEngine({} as any, {} as any, {} as any) as jest.Mocked<OrderExecutionEngine>;
+        mockOrderQueue = new OrderQueue({ host: 'localhost', port: 6379 }, mockExecutionEngine) as jest.Mocked<OrderQueue>;
+
+        mockDatabase.getOrdersByStatus = jest.fn();
+        mockExecutionEngine.getQuote = jest.fn();
+        mockExecutionEngine.updateOrderStatus = jest.fn().mockResolvedValue(undefined);
+        mockExecutionEngine.cancelOcoOrder = jest.fn().mockResolvedValue(true);
+        mockOrderQueue.addOrder = jest.fn().mockResolvedValue(undefined);
+
+        watcher = new TriggerWatcher(mockDatabase, mockExecutionEngine, mockOrderQueue);
+    });
+
+    afterEach(() => {
+        watcher.stop();
+        jest.clearAllMocks();
+    });
+
+    test('should load orders that are waiting for a trigger', async () => {
+        mockDatabase.getOrdersByStatus.mockResolvedValue([]);
+
+        await watcher.checkOrders();
+
+        expect(mockDatabase.getOrdersByStatus).toHaveBeenCalledWith(OrderStatus.WAITING_TRIGGER);
+    });
+
+    test('should expire but never price-trigger sniper orders', async () => {
+        const armed = limitOrder({ id: 'armed-sniper', type: OrderType.SNIPER, limitPrice: undefined, maxPrice: 0.01 });
+        const stale = limitOrder({ id: 'stale-sniper', type: OrderType.SNIPER, expiresAt: new Date(Date.now() - 1000) });
+        mockDatabase.getOrdersByStatus.mockResolvedValue([armed, stale]);
+
+        await watcher.checkOrders();
+
+        expect(mockExecutionEngine.getQuote).not.toHaveBeenCalled();
+        expect(mockExecutionEngine.updateOrderStatus).toHaveBeenCalledTimes(1);
+        expect(mockExecutionEngine.updateOrderStatus).toHaveBeenCalledWith('stale-sniper', OrderStatus.EXPIRED, expect.any(Object));
+    });
+
+    test('should keep order waiting while price is below the limit', async () => {
+        mockDatabase.getOrdersByStatus.mockResolvedValue([limitOrder()]);
+        mockExecutionEngine.getQuote.mockResolvedValue(routeAt(249.5));
+
+        await watcher.checkOrders();
+
+        expect(mockExecutionEngine.getQuote).toHaveBeenCalledWith('SOL', 'USDC', '1000000000');
+        expect(mockExecutionEngine.updateOrderStatus).not.toHaveBeenCalled();
+        expect(mockOrderQueue.addOrder).not.toHaveBeenCalled();
+    });
+
+    test('should enqueue order once the best quote crosses the limit', async () => {
+        const order = limitOrder();
+        mockDatabase.getOrdersByStatus.mockResolvedValue([order]);
+        mockExecutionEngine.getQuote.mockResolvedValue(routeAt(251));
+
+        await watcher.checkOrders();
+
+        expect(mockExecutionEngine.updateOrderStatus).toHaveBeenCalledWith(
+            order.id,
+            OrderStatus.PENDING,
+            expect.objectContaining({ routeResult: expect.any(Object) })
+        );
+        expect(mockOrderQueue.addOrder).toHaveBeenCalledWith(
+            expect.objectContaining({ id: order.id, status: OrderStatus.PENDING })
+        );
+    });
+
+    test('should expire order without quoting once expiry has passed', async () => {
+        const order = limitOrder({ expiresAt: new Date(Date.now() - 1000) });
+        mockDatabase.getOrdersByStatus.mockResolvedValue([order]);
+
+        await watcher.checkOrders();
+
+        expect(mockExecutionEngine.getQuote).not.toHaveBeenCalled();
+        expect(mockExecutionEngine.updateOrderStatus).toHaveBeenCalledWith(
+            order.id,
+            OrderStatus.EXPIRED,
+            expect.objectContaining({ errorMessage: expect.any(String) })
+        );
+        expect(mockOrderQueue.addOrder).not.toHaveBeenCalled();
+    });
+
+    test('should keep evaluating other orders when one quote fails', async () => {
+        const failing = limitOrder({ id: 'failing-order' });
+        const crossing = limitOrder({ id: 'crossing-order' });
+        mockDatabase.getOrdersByStatus.mockResolvedValue([failing, crossing]);
+        mockExecutionEngine.getQuote
+            .mockRejectedValueOnce(new Error('Quote failed'))
+            .mockResolvedValueOnce(routeAt(300));
+
+        await watcher.checkOrders();
+
+        expect(mockOrderQueue.addOrder).toHaveBeenCalledTimes(1);
+        expect(mockOrderQueue.addOrder).toHaveBeenCalledWith(expect.objectContaining({ id: 'crossing-order' }));
+    });
+
+    describe('Stop-loss and take-profit orders', () => {
+        const triggerOrder = (type: OrderType, triggerPrice: number, overrides: Partial<Order> = {}): Order =>
+            limitOrder({ id: `${type}-order`, type, limitPrice: undefined, triggerPrice, ...overrides });
+
+        test('should fire a stop-loss once the best quote falls to its trigger price', async () => {
+            mockDatabase.getOrdersByStatus.mockResolvedValue([
+                triggerOrder(OrderType.STOP_LOSS, 200),
+                triggerOrder(OrderType.STOP_LOSS, 190, { id: 'deep-stop-loss' })
+            ]);
+            mockExecutionEngine.getQuote.mockResolvedValue(routeAt(199.5));
+
+            await watcher.checkOrders();
+
+            expect(mockOrderQueue.addOrder).toHaveBeenCalledTimes(1);
+            expect(mockOrderQueue.addOrder).toHaveBeenCalledWith(
+                expect.objectContaining({ id: 'stop_loss-order', status: OrderStatus.PENDING })
+            );
+        });
+
+        test('should fire a take-profit once the best quote rises to its trigger price', async () => {
+            mockDatabase.getOrdersByStatus.mockResolvedValue([
+                triggerOrder(OrderType.TAKE_PROFIT, 300),
+                triggerOrder(OrderType.TAKE_PROFIT, 320, { id: 'high-take-profit' })
+            ]);
+            mockExecutionEngine.getQuote.mockResolvedValue(routeAt(300));
+
+            await watcher.checkOrders();
+
+            expect(mockExecutionEngine.updateOrderStatus).toHaveBeenCalledTimes(1);
+            expect(mockExecutionEngine.updateOrderStatus).toHaveBeenCalledWith(
+                'take_profit-order',
+                OrderStatus.PENDING,
+                expect.objectContaining({ message: 'Trigger price reached at 300' })
+            );
+            expect(mockOrderQueue.addOrder).toHaveBeenCalledTimes(1);
+        });
+
+        test('should cancel the other order of an OCO pair before firing', async () => {
+            const stopLoss = triggerOrder(OrderType.STOP_LOSS, 200, { ocoOrderId: 'take_profit-order' });
+            const takeProfit = triggerOrder(OrderType.TAKE_PROFIT, 300, { ocoOrderId: 'stop_loss-order' });
+            mockDatabase.getOrdersByStatus.mockResolvedValue([stopLoss, takeProfit]);
+            mockExecutionEngine.getQuote.mockResolvedValue(routeAt(180));
+
+            await watcher.checkOrders();
+
+            expect(mockExecutionEngine.cancelOcoOrder).toHaveBeenCalledTimes(1);
+            expect(mockExecutionEngine.cancelOcoOrder).toHaveBeenCalledWith(stopLoss, 'Cancelled: OCO order stop_loss-order fired');
+            expect(mockExecutionEngine.cancelOcoOrder.mock.invocationCallOrder[0])
+                .toBeLessThan(mockExecutionEngine.updateOrderStatus.mock.invocationCallOrder[0]);
+            expect(mockOrderQueue.addOrder).toHaveBeenCalledWith(expect.objectContaining({ id: 'stop_loss-order' }));
+        });
+
+        test('should not fire when the other order of its OCO pair already moved on', async () => {
+            mockDatabase.getOrdersByStatus.mockResolvedValue([
+                triggerOrder(OrderType.TAKE_PROFIT, 300, { ocoOrderId: 'stop_loss-order' })
+            ]);
+            mockExecutionEngine.getQuote.mockResolvedValue(routeAt(310));
+            mockExecutionEngine.cancelOcoOrder.mockResolvedValue(false);
+
+            await watcher.checkOrders();
+
+            expect(mockExecutionEngine.updateOrderStatus).not.toHaveBeenCalled();
+            expect(mockOrderQueue.addOrder).not.toHaveBeenCalled();
+        });
+    });
+});
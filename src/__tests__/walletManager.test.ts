@@ -0,0 +1,140 @@
+import { randomBytes } from 'crypto';
+import { Keypair, PublicKey, Transaction } from '@solana/web3.js';
+import { WalletManager, encryptSecretKey, decryptSecretKey } from '../services/walletManager';
+import { KeypairSigner } from '../services/signers/keypairSigner';
+import { RemoteSigner } from '../services/signers/remoteSigner';
+import { Database } from '../database/connection';
+import { Order, OrderStatus, OrderType, Wallet } from '../types';
+
+// Mock dependencies
+jest.mock('../database/connection');
+
+describe('WalletManager - Wallet Selection and Locking Tests', () => {
+    let walletManager: WalletManager;
+    let mockDatabase: jest.Mocked<Database>;
+    let storedWallets: Wallet[];
+
+    const encryptionKey = randomBytes(32);
+    const engineSigner = new KeypairSigner(Keypair.generate());
+
+    const order = (overrides: Partial<Order> = {}): Order => ({
+        id: 'order-1',
+        type: OrderType.MARKET,
+        tokenIn: 'SOL',
+        tokenOut: 'USDC',
+        tokenInMint: 'So11111111111111111111111111111111111111112',
+        tokenOutMint: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+        amountIn: '1000000000',
+        status: OrderStatus.PENDING,
+        accountId: 'account-1',
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        retryCount: 0,
+        ...overrides
+    });
+
+    beforeEach(() => {
+        storedWallets = [];
+        mockDatabase = new Database('test') as jest.Mocked<Database>;
+        mockDatabase.createWallet = jest.fn().mockImplementation(async (wallet: Wallet) => {
+            storedWallets.push(wallet);
+        });
+        mockDatabase.getWallet = jest.fn().mockImplementation(async (accountId: string, strategy: string) =>
+            storedWallets.find(wallet => wallet.accountId === accountId && wallet.strategy === strategy) ?? null
+        );
+
+        walletManager = new WalletManager(engineSigner, mockDatabase, encryptionKey, {
+            custody: { url: 'https://signer.example.com', authToken: 'custody-token' }
+        });
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    test('should round-trip secret keys and reject tampered ciphertext', () => {
+        const keypair = Keypair.generate();
+        const encrypted = encryptSecretKey(keypair.secretKey, encryptionKey);
+
+        expect(Buffer.from(decryptSecretKey(encrypted, encryptionKey))).toEqual(Buffer.from(keypair.secretKey));
+        expect(() => decryptSecretKey(encrypted, randomBytes(32))).toThrow();
+
+        const [iv, tag, ciphertext] = encrypted.split(':');
+        const tampered = Buffer.from(ciphertext, 'base64');
+        tampered[0] ^= 1;
+        expect(() => decryptSecretKey([iv, tag, tampered.toString('base64')].join(':'), encryptionKey)).toThrow();
+    });
+
+    test('should store only the encrypted secret key', async () => {
+        const keypair = Keypair.generate();
+        const wallet = await walletManager.createWallet('account-1', 'default', keypair);
+
+        expect(wallet.publicKey).toBe(keypair.publicKey.toString());
+        expect(storedWallets[0].encryptedSecretKey).not.toContain(Buffer.from(keypair.secretKey).toString('base64'));
+        expect((await walletManager.walletFor(order())).signer.publicKey.equals(keypair.publicKey)).toBe(true);
+    });
+
+    test('should sign remote wallets through their signer without storing a key', async () => {
+        const publicKey = Keypair.generate().publicKey.toString();
+        const wallet = await walletManager.createRemoteWallet('account-1', 'arb', publicKey, 'custody');
+        await expect(walletManager.createRemoteWallet('account-1', 'other', publicKey, 'unknown')).rejects.toThrow('Remote signer unknown is not configured');
+
+        expect(storedWallets).toEqual([expect.objectContaining({ publicKey, remoteSigner: 'custody' })]);
+        expect(storedWallets[0].encryptedSecretKey).toBeUndefined();
+
+        const tradingWallet = await walletManager.walletFor(order({ strategy: 'arb' }));
+        expect(tradingWallet.id).toBe(wallet.id);
+        expect(tradingWallet.signer).toBeInstanceOf(RemoteSigner);
+        expect(tradingWallet.signer.publicKey.toString()).toBe(publicKey);
+
+        // Signs at the configured URL with that service's own credential
+        const fetchMock = jest.spyOn(global, 'fetch').mockResolvedValue(new Response('unavailable', { status: 503 }));
+        const transaction = new Transaction({ feePayer: new PublicKey(publicKey), recentBlockhash: Keypair.generate().publicKey.toString() });
+        await expect(tradingWallet.signer.signTransaction(transaction)).rejects.toThrow('Remote signer returned 503');
+        expect(fetchMock).toHaveBeenCalledWith('https://signer.example.com/sign', expect.objectContaining({
+            headers: expect.objectContaining({ authorization: 'Bearer custody-token' })
+        }));
+    });
+
+    test('should pick the strategy wallet, then the account default, then the engine wallet', async () => {
+        const defaultWallet = await walletManager.createWallet('account-1');
+        const arbWallet = await walletManager.createWallet('account-1', 'arb');
+
+        expect((await walletManager.walletFor(order({ strategy: 'arb' }))).id).toBe(arbWallet.id);
+        expect((await walletManager.walletFor(order())).id).toBe(defaultWallet.id);
+        expect((await walletManager.walletFor(order({ accountId: 'account-2' }))).signer).toBe(engineSigner);
+        await expect(walletManager.walletFor(order({ strategy: 'missing' }))).rejects.toThrow('No wallet for strategy missing');
+    });
+
+    test('should run swaps on one wallet one at a time and on different wallets side by side', async () => {
+        await walletManager.createWallet('account-1');
+        await walletManager.createWallet('account-2');
+
+        const events: string[] = [];
+        const swap = (name: string) => async () => {
+            events.push(`${name} start`);
+            await new Promise(resolve => setTimeout(resolve, 10));
+            events.push(`${name} end`);
+            return name;
+        };
+
+        const results = await Promise.all([
+            walletManager.withWallet(order(), swap('first')),
+            walletManager.withWallet(order({ id: 'order-2' }), swap('second')),
+            walletManager.withWallet(order({ id: 'order-3', accountId: 'account-2' }), swap('other'))
+        ]);
+
+        expect(results).toEqual(['first', 'second', 'other']);
+        expect(events.indexOf('second start')).toBeGreaterThan(events.indexOf('first end'));
+        expect(events.indexOf('other start')).toBeLessThan(events.indexOf('first end'));
+    });
+
+    test('should release the wallet when a swap fails', async () => {
+        await expect(walletManager.withWallet(order(), async () => {
+            throw new Error('Blockhash expired');
+        })).rejects.toThrow('Blockhash expired');
+
+        await expect(walletManager.withWallet(order(), async () => 'sent')).resolves.toBe('sent');
+    });
+});
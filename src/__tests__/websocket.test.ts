@@ -20,7 +20,8 @@ describe('WebSocketManager - WebSocket Lifecycle Tests', () => {
         } as any;
 
         mockServer.get = jest.fn().mockImplementation((path, options, handler) => {
-            // Store the handler for testing
+            // Store the options and handler for testing
+            (mockServer as any)._wsOptions = options;
             (mockServer as any)._wsHandler = handler;
         });
 
@@ -48,11 +49,42 @@ describe('WebSocketManager - WebSocket Lifecycle Tests', () => {
         expect(mockServer.register).toHaveBeenCalled();
         expect(mockServer.get).toHaveBeenCalledWith(
             '/ws/:orderId',
-            { websocket: true },
+            expect.objectContaining({ websocket: true }),
             expect.any(Function)
         );
     });
 
+    test('should refuse the handshake for orders of other accounts', async () => {
+        mockDatabase.getOrder.mockResolvedValue({
+            id: 'owned-order',
+            status: OrderStatus.PENDING,
+            accountId: 'account-2'
+        } as Order);
+
+        const reply = { code: jest.fn().mockReturnThis(), send: jest.fn().mockReturnThis() };
+        const request = { params: { orderId: 'owned-order' }, account: { id: 'account-1' } };
+
+        await (mockServer as any)._wsOptions.preValidation(request, reply);
+
+        expect(reply.code).toHaveBeenCalledWith(404);
+        expect(reply.send).toHaveBeenCalledWith(expect.objectContaining({ error: 'Order not found' }));
+    });
+
+    test('should accept the handshake from the owning account', async () => {
+        mockDatabase.getOrder.mockResolvedValue({
+            id: 'owned-order',
+            status: OrderStatus.PENDING,
+            accountId: 'account-1'
+        } as Order);
+
+        const reply = { code: jest.fn().mockReturnThis(), send: jest.fn().mockReturnThis() };
+        const request = { params: { orderId: 'owned-order' }, account: { id: 'account-1' } };
+
+        await (mockServer as any)._wsOptions.preValidation(request, reply);
+
+        expect(reply.code).not.toHaveBeenCalled();
+    });
+
     test('should handle WebSocket connection and send current order status', async () => {
         const mockOrder: Order = {
             id: 'test-order-1',
@@ -1,5 +1,81 @@
 import { Pool, PoolClient } from 'pg';
-import { Order, OrderStatus } from '../types';
+import { Account, Order, OrderEvent, Wallet, OrderFill, OrderHop, OrderListFilter, OrderSortField, OrderStatus, OrderType, RiskCheck, RiskLimits, RiskUsage, RouteResult, Schedule, ScheduleStatus, SniperPool, SubmissionMode, SwapFee, SwapSimulation, TwapProgress } from '../types';
+import { assertTransition, isTerminal } from '../models/orderStateMachine';
+
+// Sortable timestamp columns, keyed by API field name
+const SORT_COLUMNS: Record<OrderSortField, string> = {
+  createdAt: 'created_at',
+  updatedAt: 'updated_at',
+  executedAt: 'executed_at',
+};
+
+// The take-profit of an OCO pair whose orders both still rest; its stop-loss stands for the pair
+const RESTING_OCO_TAKE_PROFIT = "(type = 'take_profit' AND oco_order_id IS NOT NULL AND status = 'waiting_trigger')";
+
+// Orders that still count against maxOpenOrders
+const OPEN_STATUSES = Object.values(OrderStatus).filter(status => !isTerminal(status));
+
+// Rows as pg returns them; BIGINT columns come back as strings
+interface AccountRow {
+  id: string;
+  name: string;
+  created_at: Date;
+  rate_limit_max: number | null;
+  risk_limits: RiskLimits | null;
+}
+
+interface WalletRow {
+  id: string;
+  account_id: string;
+  strategy: string;
+  public_key: string;
+  encrypted_secret_key: string | null;
+  remote_signer: string | null;
+  created_at: Date;
+}
+
+interface ScheduleRow {
+  id: string;
+  account_id: string;
+  token_in: string;
+  token_out: string;
+  token_in_mint: string;
+  token_out_mint: string;
+  amount_in: string;
+  total_amount: string | null;
+  interval_ms: string;
+  slippage_bps: number;
+  strategy: string | null;
+  submission_mode: SubmissionMode | null;
+  status: ScheduleStatus;
+  order_count: number;
+  skipped_ticks: number;
+  last_tick_at: Date | null;
+  last_error: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export class IdempotencyConflictError extends Error {
+  constructor(readonly idempotencyKey: string) {
+    super(`An order with idempotency key ${idempotencyKey} already exists`);
+    this.name = 'IdempotencyConflictError';
+  }
+}
+
+export class RiskLimitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RiskLimitError';
+  }
+}
+
+export class WalletExistsError extends Error {
+  constructor(readonly accountId: string, readonly strategy: string) {
+    super(`Account ${accountId} already has a wallet for strategy ${strategy}`);
+    this.name = 'WalletExistsError';
+  }
+}
 
 export class Database {
   private pool: Pool;
@@ -20,29 +96,108 @@ export class Database {
     }
   }
 
-  async createOrder(order: Order): Promise<void> {
+  /**
+   * Store an order. With `riskCheck`, it is only stored if the check passes
+   * against the account's usage, read under a lock on the account, so
+   * concurrent submissions of the account are checked one after the other.
+   * A failing check throws a RiskLimitError.
+   */
+  async createOrder(order: Order, riskCheck?: RiskCheck): Promise<void> {
+    await this.insertOrders(order, [], riskCheck);
+  }
+
+  /**
+   * Store a TWAP order and its slices in one transaction
+   */
+  async createTwapOrder(order: Order, slices: Order[], riskCheck?: RiskCheck): Promise<void> {
+    await this.insertOrders(order, slices, riskCheck);
+  }
+
+  /**
+   * Store both orders of an OCO pair in one transaction; the idempotency key
+   * is carried by the stop-loss
+   */
+  async createOcoOrders(stopLoss: Order, takeProfit: Order, riskCheck?: RiskCheck): Promise<void> {
+    await this.insertOrders(stopLoss, [takeProfit], riskCheck);
+  }
+
+  /**
+   * Store a batch of independent orders in one transaction
+   */
+  async createOrders(orders: Order[], riskCheck?: RiskCheck): Promise<void> {
+    await this.insertOrders(orders[0], orders.slice(1), riskCheck);
+  }
+
+  private async insertOrders(order: Order, linked: Order[], riskCheck?: RiskCheck): Promise<void> {
     const query = `
       INSERT INTO orders (
         id, type, token_in, token_out, token_in_mint, token_out_mint, amount_in, 
-        status, retry_count, created_at, updated_at
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+        status, retry_count, created_at, updated_at, slippage_bps, min_amount_out,
+        limit_price, max_price, expires_at, idempotency_key, request_hash, account_id, strategy, submission_mode,
+        parent_order_id, twap, trigger_price, oco_order_id, schedule_id, notional_value
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23, $24, $25, $26, $27)
     `;
-    
-    const values = [
-      order.id,
-      order.type.toString(),
-      order.tokenIn,
-      order.tokenOut,
-      order.tokenInMint,
-      order.tokenOutMint,
-      order.amountIn,
-      order.status.toString(),
-      order.retryCount,
-      order.createdAt,
-      order.updatedAt
-    ];
-
-    await this.pool.query(query, values);
+
+    const client: PoolClient = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      if (riskCheck) {
+        // Held until commit: the account's next submission waits and then counts these orders
+        await client.query('SELECT id FROM accounts WHERE id = $1 FOR UPDATE', [order.accountId]);
+
+        const error = riskCheck.evaluate(await this.readRiskUsage(client, order.accountId!, riskCheck.since));
+        if (error) {
+          throw new RiskLimitError(error);
+        }
+      }
+
+      for (const created of [order, ...linked]) {
+        await client.query(query, [
+          created.id,
+          created.type.toString(),
+          created.tokenIn,
+          created.tokenOut,
+          created.tokenInMint,
+          created.tokenOutMint,
+          created.amountIn,
+          created.status.toString(),
+          created.retryCount,
+          created.createdAt,
+          created.updatedAt,
+          created.slippageBps,
+          created.minAmountOut,
+          created.limitPrice,
+          created.maxPrice,
+          created.expiresAt,
+          created.idempotencyKey,
+          created.requestHash,
+          created.accountId,
+          created.strategy,
+          created.submissionMode,
+          created.parentOrderId,
+          created.twap ? JSON.stringify(created.twap) : null,
+          created.triggerPrice,
+          created.ocoOrderId,
+          created.scheduleId,
+          created.notionalValue
+        ]);
+        await this.insertOrderEvent(client, created.id, undefined, created.status);
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+
+      // A concurrent request with the same key got there first
+      if ((error as { constraint?: string }).constraint === 'orders_account_id_idempotency_key_key') {
+        throw new IdempotencyConflictError(order.idempotencyKey!);
+      }
+      throw error;
+    } finally {
+      client.release();
+    }
   }
 
   async updateOrderStatus(
@@ -52,7 +207,15 @@ export class Database {
       txHash?: string;
       executedAt?: Date;
       errorMessage?: string;
+      errorCode?: string;
       dex?: string;
+      routeResult?: RouteResult;
+      message?: string;
+      simulation?: SwapSimulation;
+      fee?: SwapFee;
+      feeLamports?: number;
+      actualAmountOut?: number;
+      executedPrice?: number;
     }
   ): Promise<void> {
     const client: PoolClient = await this.pool.connect();
@@ -60,6 +223,16 @@ export class Database {
     try {
       await client.query('BEGIN');
 
+      // Lock the row so concurrent updates (e.g. a cancel racing execution) are checked one at a time
+      const current = await client.query('SELECT status, type FROM orders WHERE id = $1 FOR UPDATE', [orderId]);
+      if (current.rows.length === 0) {
+        await client.query('ROLLBACK');
+        return;
+      }
+
+      const fromStatus: OrderStatus = current.rows[0].status;
+      assertTransition(orderId, fromStatus, status, current.rows[0].type);
+
       // Update order
       const updateQuery = `
         UPDATE orders SET 
@@ -69,8 +242,14 @@ export class Database {
           executed_at = COALESCE($3, executed_at),
           error_message = COALESCE($4, error_message),
           dex = COALESCE($5, dex),
-          retry_count = CASE WHEN $1 = 'failed' THEN retry_count + 1 ELSE retry_count END
-        WHERE id = $6
+          error_code = COALESCE($6, error_code),
+          simulation = COALESCE($7, simulation),
+          fee = COALESCE($8, fee),
+          fee_lamports = COALESCE($9, fee_lamports),
+          actual_amount_out = COALESCE($10, actual_amount_out),
+          executed_price = COALESCE($11, executed_price),
+          retry_count = CASE WHEN $1 = 'pending' AND status <> 'waiting_trigger' THEN retry_count + 1 ELSE retry_count END
+        WHERE id = $12
       `;
 
       await client.query(updateQuery, [
@@ -79,9 +258,17 @@ export class Database {
         data?.executedAt,
         data?.errorMessage,
         data?.dex,
+        data?.errorCode,
+        data?.simulation ? JSON.stringify(data.simulation) : null,
+        data?.fee ? JSON.stringify(data.fee) : null,
+        data?.feeLamports,
+        data?.actualAmountOut,
+        data?.executedPrice,
         orderId
       ]);
 
+      await this.insertOrderEvent(client, orderId, fromStatus, status, data);
+
       await client.query('COMMIT');
     } catch (error) {
       await client.query('ROLLBACK');
@@ -91,6 +278,49 @@ export class Database {
     }
   }
 
+  /**
+   * Record a status transition; runs inside the caller's transaction
+   */
+  private async insertOrderEvent(
+    client: PoolClient,
+    orderId: string,
+    fromStatus: OrderStatus | undefined,
+    toStatus: OrderStatus,
+    data?: { errorMessage?: string; errorCode?: string; routeResult?: RouteResult; message?: string }
+  ): Promise<void> {
+    await client.query(
+      `INSERT INTO order_events (
+        order_id, from_status, to_status, route_result, error_message, error_code, message
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+      [
+        orderId,
+        fromStatus?.toString(),
+        toStatus.toString(),
+        data?.routeResult ? JSON.stringify(data.routeResult) : null,
+        data?.errorMessage,
+        data?.errorCode,
+        data?.message
+      ]
+    );
+  }
+
+  async getOrderEvents(orderId: string): Promise<OrderEvent[]> {
+    const query = 'SELECT * FROM order_events WHERE order_id = $1 ORDER BY id ASC';
+    const result = await this.pool.query(query, [orderId]);
+
+    return result.rows.map(row => ({
+      id: Number(row.id),
+      orderId: row.order_id,
+      fromStatus: row.from_status ?? undefined,
+      toStatus: row.to_status,
+      routeResult: row.route_result ?? undefined,
+      errorMessage: row.error_message ?? undefined,
+      errorCode: row.error_code ?? undefined,
+      message: row.message ?? undefined,
+      createdAt: row.created_at
+    }));
+  }
+
   async getOrder(orderId: string): Promise<Order | null> {
     const query = 'SELECT * FROM orders WHERE id = $1';
     const result = await this.pool.query(query, [orderId]);
@@ -99,7 +329,423 @@ export class Database {
       return null;
     }
 
-    const row = result.rows[0];
+    const order = this.mapOrderRow(result.rows[0]);
+
+    // Only split orders have fills
+    const fills = await this.getOrderFills(orderId);
+    if (fills.length > 0) {
+      order.fills = fills;
+    }
+
+    return order;
+  }
+
+  async getOrderByIdempotencyKey(accountId: string, idempotencyKey: string): Promise<Order | null> {
+    const query = 'SELECT * FROM orders WHERE account_id = $1 AND idempotency_key = $2';
+    const result = await this.pool.query(query, [accountId, idempotencyKey]);
+
+    return result.rows.length > 0 ? this.mapOrderRow(result.rows[0]) : null;
+  }
+
+  async createAccount(account: Account, apiKeyHash: string): Promise<void> {
+    const query = 'INSERT INTO accounts (id, name, api_key_hash, created_at) VALUES ($1, $2, $3, $4)';
+    await this.pool.query(query, [account.id, account.name, apiKeyHash, account.createdAt]);
+  }
+
+  async getAccountByApiKeyHash(apiKeyHash: string): Promise<Account | null> {
+    const query = 'SELECT id, name, created_at, rate_limit_max, risk_limits FROM accounts WHERE api_key_hash = $1';
+    const result = await this.pool.query<AccountRow>(query, [apiKeyHash]);
+
+    return result.rows.length > 0 ? this.mapAccountRow(result.rows[0]) : null;
+  }
+
+  async getAccount(accountId: string): Promise<Account | null> {
+    const query = 'SELECT id, name, created_at, rate_limit_max, risk_limits FROM accounts WHERE id = $1';
+    const result = await this.pool.query<AccountRow>(query, [accountId]);
+
+    return result.rows.length > 0 ? this.mapAccountRow(result.rows[0]) : null;
+  }
+
+  async createWallet(wallet: Wallet): Promise<void> {
+    const query = `
+      INSERT INTO wallets (id, account_id, strategy, public_key, encrypted_secret_key, remote_signer, created_at)
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
+    `;
+
+    try {
+      await this.pool.query(query, [
+        wallet.id,
+        wallet.accountId,
+        wallet.strategy,
+        wallet.publicKey,
+        wallet.encryptedSecretKey ?? null,
+        wallet.remoteSigner ?? null,
+        wallet.createdAt
+      ]);
+    } catch (error) {
+      if ((error as { constraint?: string }).constraint === 'wallets_account_id_strategy_key') {
+        throw new WalletExistsError(wallet.accountId, wallet.strategy);
+      }
+      throw error;
+    }
+  }
+
+  async getWallet(accountId: string, strategy: string): Promise<Wallet | null> {
+    const query = 'SELECT * FROM wallets WHERE account_id = $1 AND strategy = $2';
+    const result = await this.pool.query<WalletRow>(query, [accountId, strategy]);
+
+    return result.rows.length > 0 ? this.mapWalletRow(result.rows[0]) : null;
+  }
+
+  async getWallets(accountId: string): Promise<Wallet[]> {
+    const query = 'SELECT * FROM wallets WHERE account_id = $1 ORDER BY created_at ASC';
+    const result = await this.pool.query<WalletRow>(query, [accountId]);
+
+    return result.rows.map(row => this.mapWalletRow(row));
+  }
+
+  async createSchedule(schedule: Schedule): Promise<void> {
+    const query = `
+      INSERT INTO schedules (
+        id, account_id, token_in, token_out, token_in_mint, token_out_mint, amount_in, total_amount,
+        interval_ms, slippage_bps, strategy, submission_mode, status, created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+    `;
+
+    await this.pool.query(query, [
+      schedule.id,
+      schedule.accountId,
+      schedule.tokenIn,
+      schedule.tokenOut,
+      schedule.tokenInMint,
+      schedule.tokenOutMint,
+      schedule.amountIn,
+      schedule.totalAmount,
+      schedule.intervalMs,
+      schedule.slippageBps,
+      schedule.strategy,
+      schedule.submissionMode,
+      schedule.status,
+      schedule.createdAt,
+      schedule.updatedAt
+    ]);
+  }
+
+  async getSchedule(scheduleId: string): Promise<Schedule | null> {
+    const query = 'SELECT * FROM schedules WHERE id = $1';
+    const result = await this.pool.query<ScheduleRow>(query, [scheduleId]);
+
+    return result.rows.length > 0 ? this.mapScheduleRow(result.rows[0]) : null;
+  }
+
+  async getSchedules(accountId: string): Promise<Schedule[]> {
+    const query = 'SELECT * FROM schedules WHERE account_id = $1 ORDER BY created_at ASC, id ASC';
+    const result = await this.pool.query<ScheduleRow>(query, [accountId]);
+
+    return result.rows.map(row => this.mapScheduleRow(row));
+  }
+
+  /**
+   * Move a schedule to `status` if it is still in one of the `from` statuses.
+   * Returns false when it had already moved on.
+   */
+  async updateScheduleStatus(scheduleId: string, status: ScheduleStatus, from: ScheduleStatus[]): Promise<boolean> {
+    const query = 'UPDATE schedules SET status = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2 AND status = ANY($3)';
+    const result = await this.pool.query(query, [status, scheduleId, from]);
+
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Record a tick of a schedule: one that placed an order, or one skipped for `error`
+   */
+  async recordScheduleTick(scheduleId: string, error?: string): Promise<void> {
+    const query = `
+      UPDATE schedules SET
+        order_count = order_count + CASE WHEN $2::text IS NULL THEN 1 ELSE 0 END,
+        skipped_ticks = skipped_ticks + CASE WHEN $2::text IS NULL THEN 0 ELSE 1 END,
+        last_error = $2,
+        last_tick_at = CURRENT_TIMESTAMP,
+        updated_at = CURRENT_TIMESTAMP
+      WHERE id = $1
+    `;
+    await this.pool.query(query, [scheduleId, error ?? null]);
+  }
+
+  /**
+   * Total amountIn, in base units, of the orders a schedule placed. Orders that
+   * failed, expired or were cancelled spent nothing, so they do not use up its budget.
+   */
+  async getScheduleSpent(scheduleId: string): Promise<string> {
+    const query = `
+      SELECT COALESCE(SUM(amount_in), 0) AS spent FROM orders
+      WHERE schedule_id = $1 AND status NOT IN ('failed', 'expired', 'cancelled')
+    `;
+    const result = await this.pool.query(query, [scheduleId]);
+
+    return result.rows[0].spent.toString();
+  }
+
+  /**
+   * Usage of the account against its risk limits: its open orders, and the
+   * value of the orders it placed since the given time. Orders that failed,
+   * expired or were cancelled before filling anything traded nothing. TWAP slices are counted through
+   * their TWAP order, and a resting OCO pair counts once since only one of its
+   * orders can fire.
+   */
+  async getRiskUsage(accountId: string, since: Date): Promise<RiskUsage> {
+    return await this.readRiskUsage(this.pool, accountId, since);
+  }
+
+  private async readRiskUsage(client: Pool | PoolClient, accountId: string, since: Date): Promise<RiskUsage> {
+    const query = `
+      SELECT
+        COUNT(*) FILTER (WHERE status = ANY($2)) AS open_orders,
+        COALESCE(SUM(notional_value) FILTER (
+          WHERE created_at >= $3 AND status NOT IN ('failed', 'expired')
+            AND NOT (status = 'cancelled' AND actual_amount_out IS NULL)
+        ), 0) AS daily_value
+      FROM orders
+      WHERE account_id = $1 AND parent_order_id IS NULL AND NOT ${RESTING_OCO_TAKE_PROFIT}
+    `;
+    const result = await client.query(query, [accountId, OPEN_STATUSES, since]);
+
+    return {
+      openOrders: parseInt(result.rows[0].open_orders),
+      dailyValue: parseFloat(result.rows[0].daily_value)
+    };
+  }
+
+  async getOrdersByStatus(status: OrderStatus, types?: OrderType[]): Promise<Order[]> {
+    const query = `
+      SELECT * FROM orders
+      WHERE status = $1 AND ($2::text[] IS NULL OR type = ANY($2))
+      ORDER BY created_at ASC
+    `;
+    const result = await this.pool.query(query, [status.toString(), types ?? null]);
+
+    return result.rows.map(row => this.mapOrderRow(row));
+  }
+
+  /**
+   * One page of orders matching the filter, in keyset order of the sort
+   * timestamp then id. Sorting by executedAt only lists executed orders.
+   */
+  async listOrders(filter: OrderListFilter): Promise<{ orders: Order[]; hasMore: boolean }> {
+    const column = SORT_COLUMNS[filter.sortBy];
+    const direction = filter.sortDirection === 'asc' ? 'ASC' : 'DESC';
+    const conditions: string[] = [];
+    const values: unknown[] = [];
+
+    const addCondition = (sql: (param: string) => string, value: unknown) => {
+      values.push(value);
+      conditions.push(sql(`$${values.length}`));
+    };
+
+    addCondition(param => `account_id = ${param}`, filter.accountId);
+    if (filter.statuses?.length) addCondition(param => `status = ANY(${param})`, filter.statuses);
+    if (filter.type) addCondition(param => `type = ${param}`, filter.type);
+    if (filter.tokenInMint) addCondition(param => `token_in_mint = ${param}`, filter.tokenInMint);
+    if (filter.tokenOutMint) addCondition(param => `token_out_mint = ${param}`, filter.tokenOutMint);
+    if (filter.dex) addCondition(param => `dex = ${param}`, filter.dex);
+    if (filter.scheduleId) addCondition(param => `schedule_id = ${param}`, filter.scheduleId);
+    if (filter.createdFrom) addCondition(param => `created_at >= ${param}`, filter.createdFrom);
+    if (filter.createdTo) addCondition(param => `created_at < ${param}`, filter.createdTo);
+    if (filter.sortBy === 'executedAt') conditions.push('executed_at IS NOT NULL');
+
+    if (filter.after) {
+      values.push(filter.after.value, filter.after.id);
+      const comparison = direction === 'ASC' ? '>' : '<';
+      conditions.push(`(${column}, id) ${comparison} ($${values.length - 1}, $${values.length})`);
+    }
+
+    // One extra row tells whether another page follows
+    values.push(filter.limit + 1);
+    const query = `
+      SELECT * FROM orders
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY ${column} ${direction}, id ${direction}
+      LIMIT $${values.length}
+    `;
+
+    const result = await this.pool.query(query, values);
+    const rows = result.rows.slice(0, filter.limit);
+
+    return {
+      orders: rows.map(row => this.mapOrderRow(row)),
+      hasMore: result.rows.length > filter.limit
+    };
+  }
+
+  /**
+   * Replace the fills of the orders given, so a split order requeued before
+   * any leg was sent starts its next attempt from fresh legs
+   */
+  async createOrderFills(fills: OrderFill[]): Promise<void> {
+    const client: PoolClient = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const orderIds = [...new Set(fills.map(fill => fill.orderId))];
+      await client.query('DELETE FROM order_fills WHERE order_id = ANY($1)', [orderIds]);
+
+      for (const fill of fills) {
+        await client.query(
+          `INSERT INTO order_fills (
+            id, order_id, leg_index, dex, amount_in, expected_amount_out, status, created_at, updated_at
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+          [
+            fill.id,
+            fill.orderId,
+            fill.legIndex,
+            fill.dex,
+            fill.amountIn,
+            fill.expectedAmountOut,
+            fill.status.toString(),
+            fill.createdAt,
+            fill.updatedAt
+          ]
+        );
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async updateOrderFill(fill: OrderFill): Promise<void> {
+    const query = `
+      UPDATE order_fills SET
+        status = $1,
+        updated_at = CURRENT_TIMESTAMP,
+        tx_hash = COALESCE($2, tx_hash),
+        executed_price = COALESCE($3, executed_price),
+        actual_amount_out = COALESCE($4, actual_amount_out),
+        error_message = COALESCE($5, error_message),
+        fee_lamports = COALESCE($6, fee_lamports)
+      WHERE id = $7
+    `;
+
+    await this.pool.query(query, [
+      fill.status.toString(),
+      fill.txHash,
+      fill.executedPrice,
+      fill.actualAmountOut,
+      fill.errorMessage,
+      fill.feeLamports,
+      fill.id
+    ]);
+  }
+
+  async getSliceOrders(parentOrderId: string): Promise<Order[]> {
+    const query = 'SELECT * FROM orders WHERE parent_order_id = $1 ORDER BY created_at ASC, id ASC';
+    const result = await this.pool.query(query, [parentOrderId]);
+
+    return result.rows.map(row => this.mapOrderRow(row));
+  }
+
+  /**
+   * Store a TWAP order's progress unless progress counting more settled
+   * slices was stored first. Returns false when it was not stored.
+   */
+  async updateTwapProgress(orderId: string, twap: TwapProgress): Promise<boolean> {
+    const query = `
+      UPDATE orders SET twap = $1, updated_at = CURRENT_TIMESTAMP
+      WHERE id = $2 AND COALESCE((twap->>'settledSlices')::int, 0) <= $3
+    `;
+    const result = await this.pool.query(query, [JSON.stringify(twap), orderId, twap.settledSlices]);
+
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async updateOrderHops(orderId: string, hops: OrderHop[]): Promise<void> {
+    const query = 'UPDATE orders SET hops = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2';
+    await this.pool.query(query, [JSON.stringify(hops), orderId]);
+  }
+
+  /**
+   * Arm a sniper order on the pool its target token went live on, held to
+   * the output its max price allows
+   */
+  async updateSniperPool(orderId: string, sniperPool: SniperPool, minAmountOut?: string): Promise<void> {
+    const query = 'UPDATE orders SET sniper_pool = $1, min_amount_out = $2, updated_at = CURRENT_TIMESTAMP WHERE id = $3';
+    await this.pool.query(query, [JSON.stringify(sniperPool), minAmountOut, orderId]);
+  }
+
+  async getOrderFills(orderId: string): Promise<OrderFill[]> {
+    const query = 'SELECT * FROM order_fills WHERE order_id = $1 ORDER BY leg_index ASC';
+    const result = await this.pool.query(query, [orderId]);
+
+    return result.rows.map(row => ({
+      id: row.id,
+      orderId: row.order_id,
+      legIndex: row.leg_index,
+      dex: row.dex,
+      amountIn: row.amount_in,
+      expectedAmountOut: row.expected_amount_out ?? undefined,
+      status: row.status,
+      txHash: row.tx_hash ?? undefined,
+      executedPrice: row.executed_price ? parseFloat(row.executed_price) : undefined,
+      actualAmountOut: row.actual_amount_out ? parseFloat(row.actual_amount_out) : undefined,
+      feeLamports: row.fee_lamports ? Number(row.fee_lamports) : undefined,
+      errorMessage: row.error_message ?? undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    }));
+  }
+
+  private mapAccountRow(row: AccountRow): Account {
+    return {
+      id: row.id,
+      name: row.name,
+      createdAt: row.created_at,
+      rateLimitMax: row.rate_limit_max ?? undefined,
+      riskLimits: row.risk_limits ?? undefined
+    };
+  }
+
+  private mapScheduleRow(row: ScheduleRow): Schedule {
+    return {
+      id: row.id,
+      accountId: row.account_id,
+      tokenIn: row.token_in,
+      tokenOut: row.token_out,
+      tokenInMint: row.token_in_mint,
+      tokenOutMint: row.token_out_mint,
+      amountIn: row.amount_in,
+      totalAmount: row.total_amount ?? undefined,
+      intervalMs: Number(row.interval_ms),
+      slippageBps: row.slippage_bps,
+      strategy: row.strategy ?? undefined,
+      submissionMode: row.submission_mode ?? undefined,
+      status: row.status,
+      orderCount: row.order_count,
+      skippedTicks: row.skipped_ticks,
+      lastTickAt: row.last_tick_at ?? undefined,
+      lastError: row.last_error ?? undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+
+  private mapWalletRow(row: WalletRow): Wallet {
+    return {
+      id: row.id,
+      accountId: row.account_id,
+      strategy: row.strategy,
+      publicKey: row.public_key,
+      encryptedSecretKey: row.encrypted_secret_key ?? undefined,
+      remoteSigner: row.remote_signer ?? undefined,
+      createdAt: row.created_at
+    };
+  }
+
+  private mapOrderRow(row: any): Order {
     return {
       id: row.id,
       type: row.type,
@@ -109,13 +755,37 @@ export class Database {
       tokenOutMint: row.token_out_mint,
       amountIn: row.amount_in,
       status: row.status,
+      accountId: row.account_id,
+      strategy: row.strategy ?? undefined,
+      submissionMode: row.submission_mode ?? undefined,
       createdAt: row.created_at,
       updatedAt: row.updated_at,
       executedAt: row.executed_at,
       txHash: row.tx_hash,
       errorMessage: row.error_message,
       retryCount: row.retry_count,
-      dex: row.dex
+      dex: row.dex,
+      slippageBps: row.slippage_bps ?? undefined,
+      minAmountOut: row.min_amount_out ?? undefined,
+      errorCode: row.error_code ?? undefined,
+      limitPrice: row.limit_price ? parseFloat(row.limit_price) : undefined,
+      maxPrice: row.max_price ? parseFloat(row.max_price) : undefined,
+      triggerPrice: row.trigger_price ? parseFloat(row.trigger_price) : undefined,
+      ocoOrderId: row.oco_order_id ?? undefined,
+      expiresAt: row.expires_at ?? undefined,
+      hops: row.hops ?? undefined,
+      sniperPool: row.sniper_pool ?? undefined,
+      simulation: row.simulation ?? undefined,
+      fee: row.fee ?? undefined,
+      feeLamports: row.fee_lamports ? Number(row.fee_lamports) : undefined,
+      actualAmountOut: row.actual_amount_out ? parseFloat(row.actual_amount_out) : undefined,
+      executedPrice: row.executed_price ? parseFloat(row.executed_price) : undefined,
+      notionalValue: row.notional_value ? parseFloat(row.notional_value) : undefined,
+      parentOrderId: row.parent_order_id ?? undefined,
+      twap: row.twap ?? undefined,
+      scheduleId: row.schedule_id ?? undefined,
+      idempotencyKey: row.idempotency_key ?? undefined,
+      requestHash: row.request_hash ?? undefined
     };
   }
 }
@@ -1,6 +1,58 @@
+-- API clients; keys are only stored as their sha256
+CREATE TABLE IF NOT EXISTS accounts (
+  id               TEXT PRIMARY KEY,
+  name             TEXT NOT NULL,
+  api_key_hash     TEXT NOT NULL UNIQUE,
+  created_at       TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  rate_limit_max   INTEGER CHECK (rate_limit_max > 0),             -- requests per window; configured default when NULL
+  risk_limits      JSONB                                           -- overrides of the configured risk limits
+);
+
+
+-- Signing wallets of an account, one per strategy; secret keys are AES-256-GCM encrypted,
+-- or held by the configured remote signer named by remote_signer and never stored here
+CREATE TABLE IF NOT EXISTS wallets (
+  id                    TEXT PRIMARY KEY,
+  account_id            TEXT NOT NULL REFERENCES accounts(id),
+  strategy              TEXT NOT NULL DEFAULT 'default',
+  public_key            TEXT NOT NULL UNIQUE,
+  encrypted_secret_key  TEXT,
+  remote_signer         TEXT,
+  created_at            TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (account_id, strategy),
+  CHECK ((encrypted_secret_key IS NULL) <> (remote_signer IS NULL))
+);
+
+
+-- Recurring DCA schedules; each tick places a market order linked back through orders.schedule_id
+CREATE TABLE IF NOT EXISTS schedules (
+  id               TEXT PRIMARY KEY,
+  account_id       TEXT NOT NULL REFERENCES accounts(id),
+  token_in         TEXT NOT NULL,
+  token_out        TEXT NOT NULL,
+  token_in_mint    TEXT NOT NULL,
+  token_out_mint   TEXT NOT NULL,
+  amount_in        BIGINT NOT NULL CHECK (amount_in > 0),          -- tokenIn base units per order
+  total_amount     BIGINT CHECK (total_amount > 0),                -- budget in tokenIn base units; runs until cancelled when NULL
+  interval_ms      BIGINT NOT NULL CHECK (interval_ms > 0),
+  slippage_bps     SMALLINT NOT NULL CHECK (slippage_bps BETWEEN 0 AND 10000),
+  strategy         TEXT,
+  submission_mode  TEXT CHECK (submission_mode IN ('rpc','bundle')),
+  status           TEXT NOT NULL CHECK (status IN ('active','paused','completed','cancelled')),
+  order_count      INTEGER NOT NULL DEFAULT 0,
+  skipped_ticks    INTEGER NOT NULL DEFAULT 0,
+  last_tick_at     TIMESTAMPTZ,
+  last_error       TEXT,                                           -- why the last tick placed no order
+  created_at       TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at       TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_schedules_account_id ON schedules (account_id, created_at);
+
+
 CREATE TABLE IF NOT EXISTS orders (
   id               TEXT PRIMARY KEY,                              -- app-generated (uuid/nanoid)
-  type             TEXT NOT NULL CHECK (type IN ('market','limit','sniper')),
+  type             TEXT NOT NULL CHECK (type IN ('market','limit','sniper','twap','stop_loss','take_profit')),
   token_in    TEXT NOT NULL,
   token_out   TEXT NOT NULL,
   token_in_mint TEXT NOT NULL,
@@ -8,13 +60,130 @@ CREATE TABLE IF NOT EXISTS orders (
   amount_in        BIGINT NOT NULL CHECK (amount_in > 0),         
   amount_out  BIGINT CHECK (amount_out > 0),
   status           TEXT NOT NULL CHECK (
-                     status IN ('pending','routing','building','submitted','confirmed','failed')
+                     status IN ('pending','waiting_trigger','routing','building','submitted','confirmed','partially_filled','failed','expired','cancelled')
                    ),
+  account_id       TEXT NOT NULL REFERENCES accounts(id),
+  strategy         TEXT,                                           -- selects the account's wallet for that strategy
+  submission_mode  TEXT CHECK (submission_mode IN ('rpc','bundle')),  -- public RPC when NULL
   dex     TEXT,
   tx_hash          TEXT UNIQUE,
   error_message    TEXT,
+  error_code       TEXT,
   retry_count      SMALLINT NOT NULL DEFAULT 0,
-  created_at       DATE NOT NULL DEFAULT NOW(),
-  updated_at       DATE NOT NULL DEFAULT NOW(),
-  executed_at      DATE
+  created_at       TIMESTAMPTZ(3) NOT NULL DEFAULT NOW(),          -- millisecond precision, so list cursors round-trip exactly
+  updated_at       TIMESTAMPTZ(3) NOT NULL DEFAULT NOW(),
+  executed_at      TIMESTAMPTZ(3),
+  slippage_bps     SMALLINT CHECK (slippage_bps BETWEEN 0 AND 10000),
+  min_amount_out   BIGINT CHECK (min_amount_out >= 0),            -- tokenOut base units
+  limit_price      NUMERIC CHECK (limit_price > 0),                -- tokenOut per tokenIn, limit orders only
+  max_price        NUMERIC CHECK (max_price > 0),                  -- tokenIn per tokenOut, sniper orders only
+  trigger_price    NUMERIC CHECK (trigger_price > 0),              -- tokenOut per tokenIn, stop-loss and take-profit orders only
+  oco_order_id     TEXT REFERENCES orders(id) DEFERRABLE INITIALLY DEFERRED,  -- other order of an OCO pair; the pair references each other
+  expires_at       TIMESTAMPTZ,
+  hops             JSONB,                                          -- per-hop amounts of multi-hop orders
+  sniper_pool      JSONB,                                          -- pool a sniper order was armed on, with its target token's decimals
+  simulation       JSONB,                                          -- pre-flight simulation: output, compute units, logs
+  fee              JSONB,                                          -- compute budget and fee of single-swap orders
+  fee_lamports     BIGINT,                                         -- network fees paid across all of the order's transactions
+  actual_amount_out NUMERIC,                                       -- tokenOut units received
+  executed_price   NUMERIC,                                        -- tokenOut per tokenIn across the whole order
+  notional_value   NUMERIC,                                        -- amount_in valued in the risk quote token when placed
+  parent_order_id  TEXT REFERENCES orders(id),                     -- TWAP order this order is a slice of
+  twap             JSONB,                                          -- slice schedule and progress of TWAP orders
+  schedule_id      TEXT REFERENCES schedules(id),                  -- DCA schedule that placed the order
+  idempotency_key  TEXT,                                           -- client-supplied Idempotency-Key header
+  request_hash     TEXT,                                           -- sha256 of the submitted request
+  UNIQUE (account_id, idempotency_key)                             -- keys are scoped to the account that sent them
+);
+
+-- Upgrade of an orders table created by an earlier version of this file; a no-op on a new one, so the
+-- whole file can be re-run on every deploy. Orders placed before accounts existed keep a NULL account_id
+-- and are listed to no account.
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS account_id       TEXT REFERENCES accounts(id),
+  ADD COLUMN IF NOT EXISTS strategy         TEXT,
+  ADD COLUMN IF NOT EXISTS submission_mode  TEXT CHECK (submission_mode IN ('rpc','bundle')),
+  ADD COLUMN IF NOT EXISTS error_code       TEXT,
+  ADD COLUMN IF NOT EXISTS slippage_bps     SMALLINT CHECK (slippage_bps BETWEEN 0 AND 10000),
+  ADD COLUMN IF NOT EXISTS min_amount_out   BIGINT CHECK (min_amount_out >= 0),
+  ADD COLUMN IF NOT EXISTS limit_price      NUMERIC CHECK (limit_price > 0),
+  ADD COLUMN IF NOT EXISTS max_price        NUMERIC CHECK (max_price > 0),
+  ADD COLUMN IF NOT EXISTS trigger_price    NUMERIC CHECK (trigger_price > 0),
+  ADD COLUMN IF NOT EXISTS oco_order_id     TEXT REFERENCES orders(id) DEFERRABLE INITIALLY DEFERRED,
+  ADD COLUMN IF NOT EXISTS expires_at       TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS hops             JSONB,
+  ADD COLUMN IF NOT EXISTS sniper_pool      JSONB,
+  ADD COLUMN IF NOT EXISTS simulation       JSONB,
+  ADD COLUMN IF NOT EXISTS fee              JSONB,
+  ADD COLUMN IF NOT EXISTS fee_lamports     BIGINT,
+  ADD COLUMN IF NOT EXISTS actual_amount_out NUMERIC,
+  ADD COLUMN IF NOT EXISTS executed_price   NUMERIC,
+  ADD COLUMN IF NOT EXISTS notional_value   NUMERIC,
+  ADD COLUMN IF NOT EXISTS parent_order_id  TEXT REFERENCES orders(id),
+  ADD COLUMN IF NOT EXISTS twap             JSONB,
+  ADD COLUMN IF NOT EXISTS schedule_id      TEXT REFERENCES schedules(id),
+  ADD COLUMN IF NOT EXISTS idempotency_key  TEXT,
+  ADD COLUMN IF NOT EXISTS request_hash     TEXT,
+  ALTER COLUMN created_at TYPE TIMESTAMPTZ(3),
+  ALTER COLUMN updated_at TYPE TIMESTAMPTZ(3),
+  ALTER COLUMN executed_at TYPE TIMESTAMPTZ(3),
+  DROP CONSTRAINT IF EXISTS orders_type_check,
+  DROP CONSTRAINT IF EXISTS orders_status_check;
+
+ALTER TABLE orders
+  ADD CONSTRAINT orders_type_check CHECK (type IN ('market','limit','sniper','twap','stop_loss','take_profit')),
+  ADD CONSTRAINT orders_status_check CHECK (
+    status IN ('pending','waiting_trigger','routing','building','submitted','confirmed','partially_filled','failed','expired','cancelled')
+  );
+
+CREATE UNIQUE INDEX IF NOT EXISTS orders_account_id_idempotency_key_key ON orders (account_id, idempotency_key);
+
+CREATE INDEX IF NOT EXISTS idx_orders_waiting_trigger ON orders (created_at) WHERE status = 'waiting_trigger';
+CREATE INDEX IF NOT EXISTS idx_orders_parent_order_id ON orders (parent_order_id) WHERE parent_order_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_orders_schedule_id ON orders (schedule_id) WHERE schedule_id IS NOT NULL;
+
+-- Order listing: keyset pagination on each sortable timestamp within an account, plus the common filters
+CREATE INDEX IF NOT EXISTS idx_orders_created_at ON orders (account_id, created_at, id);
+CREATE INDEX IF NOT EXISTS idx_orders_updated_at ON orders (account_id, updated_at, id);
+CREATE INDEX IF NOT EXISTS idx_orders_executed_at ON orders (account_id, executed_at, id) WHERE executed_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_orders_status_created_at ON orders (account_id, status, created_at, id);
+CREATE INDEX IF NOT EXISTS idx_orders_pair_created_at ON orders (account_id, token_in_mint, token_out_mint, created_at, id);
+CREATE INDEX IF NOT EXISTS idx_orders_dex_created_at ON orders (account_id, dex, created_at, id);
+
+
+-- Legs of orders split across several pools; each leg is its own transaction
+CREATE TABLE IF NOT EXISTS order_fills (
+  id                   TEXT PRIMARY KEY,
+  order_id             TEXT NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  leg_index            SMALLINT NOT NULL,
+  dex                  TEXT NOT NULL,
+  amount_in            BIGINT NOT NULL CHECK (amount_in > 0),       -- tokenIn base units
+  expected_amount_out  BIGINT,                                      -- tokenOut base units
+  status               TEXT NOT NULL CHECK (status IN ('pending','submitted','confirmed','failed')),
+  tx_hash              TEXT UNIQUE,
+  executed_price       NUMERIC,
+  actual_amount_out    NUMERIC,                                     -- tokenOut units
+  fee_lamports         BIGINT,                                      -- network fee paid by the leg's transaction
+  error_message        TEXT,
+  created_at           TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at           TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (order_id, leg_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_fills_order_id ON order_fills (order_id);
+
+
+-- Status history: one row per transition, written in the same transaction as the status change
+CREATE TABLE IF NOT EXISTS order_events (
+  id             BIGSERIAL PRIMARY KEY,
+  order_id       TEXT NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  from_status    TEXT,                                            -- NULL when the order was created
+  to_status      TEXT NOT NULL,
+  route_result   JSONB,
+  error_message  TEXT,
+  error_code     TEXT,
+  message        TEXT,
+  created_at     TIMESTAMPTZ NOT NULL DEFAULT NOW()
 );
+
+CREATE INDEX IF NOT EXISTS idx_order_events_order_id ON order_events (order_id, id);
@@ -6,7 +6,24 @@ import { OrderQueue } from './services/queue';
 import { OrderExecutionEngine } from './services/orderExecutionEngine';
 import { WebSocketManager } from './services/websocketManager';
 import { SolanaConnectionManager } from './services/solanaConnection';
+import { TriggerWatcher } from './services/triggerWatcher';
+import { SniperDetector } from './services/sniperDetector';
+import { SolanaPoolCreationSource } from './services/poolCreationSource';
+import { TokenRegistry } from './services/tokenRegistry';
 import { orderRoutes } from './routes/orders';
+import { authPlugin } from './plugins/auth';
+import { rateLimitPlugin } from './plugins/rateLimit';
+import { RiskManager } from './services/riskManager';
+import { WalletManager } from './services/walletManager';
+import { ConfirmationTracker } from './services/confirmationTracker';
+import { FeeStrategy } from './services/feeStrategy';
+import { BundleSubmitter } from './services/bundleSubmitter';
+import { walletRoutes } from './routes/wallets';
+import { scheduleRoutes } from './routes/schedules';
+import { DcaScheduler } from './services/dcaScheduler';
+import { QuoteCache } from './services/quoteCache';
+import { KeypairSigner } from './services/signers/keypairSigner';
+import { RemoteSigner, loadRemoteSigners } from './services/signers/remoteSigner';
 
 // Load environment variables
 dotenv.config();
@@ -17,7 +34,27 @@ const REDIS_URL = process.env.REDIS_PUBLIC_URL;
 const REDIS_HOST = process.env.REDIS_HOST!;
 const REDIS_PORT = parseInt(process.env.REDIS_PORT!);
 const SOLANA_RPC_URL = process.env.SOLANA_RPC_URL!;
-const PRIVATE_KEY = process.env.PRIVATE_KEY!;
+const PRIVATE_KEY = process.env.PRIVATE_KEY;
+const REMOTE_SIGNER_URL = process.env.REMOTE_SIGNER_URL;
+const REMOTE_SIGNER_PUBLIC_KEY = process.env.REMOTE_SIGNER_PUBLIC_KEY;
+const REMOTE_SIGNER_TOKEN = process.env.REMOTE_SIGNER_TOKEN;
+const REMOTE_SIGNERS_PATH = process.env.REMOTE_SIGNERS_PATH;
+const WALLET_ENCRYPTION_KEY = process.env.WALLET_ENCRYPTION_KEY;
+const TRIGGER_POLL_INTERVAL_MS = parseInt(process.env.TRIGGER_POLL_INTERVAL_MS || '5000');
+const ENABLED_DEXES = process.env.ENABLED_DEXES?.split(',').map(dex => dex.trim()).filter(Boolean);
+const TOKEN_REGISTRY_PATH = process.env.TOKEN_REGISTRY_PATH;
+const RATE_LIMIT_MAX = parseInt(process.env.RATE_LIMIT_MAX || '120');
+const RATE_LIMIT_WINDOW_MS = parseInt(process.env.RATE_LIMIT_WINDOW_MS || '60000');
+const RISK_LIMITS_PATH = process.env.RISK_LIMITS_PATH;
+const CONFIRMATION_POLL_INTERVAL_MS = parseInt(process.env.CONFIRMATION_POLL_INTERVAL_MS || '1000');
+const CONFIRMATION_COMMITMENT = process.env.CONFIRMATION_COMMITMENT === 'finalized' ? 'finalized' : 'confirmed';
+const MAX_RESUBMITS = parseInt(process.env.MAX_RESUBMITS || '2');
+const PRIORITY_FEE_MIN_MICRO_LAMPORTS = parseInt(process.env.PRIORITY_FEE_MIN_MICRO_LAMPORTS || '1000');
+const PRIORITY_FEE_MAX_MICRO_LAMPORTS = parseInt(process.env.PRIORITY_FEE_MAX_MICRO_LAMPORTS || '2000000');
+const BLOCK_ENGINE_URL = process.env.BLOCK_ENGINE_URL;
+const BUNDLE_TIP_LAMPORTS = parseInt(process.env.BUNDLE_TIP_LAMPORTS || '10000');
+const BUNDLE_INCLUSION_TIMEOUT_MS = parseInt(process.env.BUNDLE_INCLUSION_TIMEOUT_MS || '15000');
+const QUOTE_TTL_MS = parseInt(process.env.QUOTE_TTL_MS || '30000');
 
 async function startServer() {
   // Create Fastify instance
@@ -33,7 +70,17 @@ async function startServer() {
     const database = new Database(DATABASE_URL);
     await database.connect();
 
-    const solanaManager = new SolanaConnectionManager(SOLANA_RPC_URL, PRIVATE_KEY);
+    // Every route below needs an API key, except those marked public
+    await server.register(authPlugin, { database });
+    await server.register(rateLimitPlugin, { maxRequests: RATE_LIMIT_MAX, windowMs: RATE_LIMIT_WINDOW_MS });
+
+    // The engine wallet signs through the signing service when one is configured,
+    // so its key never enters this process; otherwise with PRIVATE_KEY
+    const engineSigner = REMOTE_SIGNER_URL
+      ? new RemoteSigner(REMOTE_SIGNER_URL, REMOTE_SIGNER_PUBLIC_KEY!, { authToken: REMOTE_SIGNER_TOKEN })
+      : KeypairSigner.fromBase64(PRIVATE_KEY!);
+
+    const solanaManager = new SolanaConnectionManager(SOLANA_RPC_URL, engineSigner);
 
     // Verify connection
     const isReady = await solanaManager.checkConnection();
@@ -43,8 +90,48 @@ async function startServer() {
 
     const wsManager = new WebSocketManager(server, database);
 
+    // Per-account signing wallets, stored encrypted or held by a configured remote signer; the engine wallet
+    // signs for accounts without one
+    const walletManager = new WalletManager(
+      solanaManager.signer,
+      database,
+      WALLET_ENCRYPTION_KEY ? Buffer.from(WALLET_ENCRYPTION_KEY, 'base64') : undefined,
+      loadRemoteSigners(REMOTE_SIGNERS_PATH)
+    );
+
+    // Tradable tokens and the pools serving each pair
+    const tokenRegistry = TokenRegistry.fromFile(TOKEN_REGISTRY_PATH);
+
+    // Follows sent swaps until they land, resubmitting those whose blockhash expired
+    const confirmationTracker = new ConfirmationTracker(solanaManager.connection, {
+      pollIntervalMs: CONFIRMATION_POLL_INTERVAL_MS,
+      maxResubmits: MAX_RESUBMITS,
+      commitment: CONFIRMATION_COMMITMENT
+    });
+
+    // Prices each swap's compute units from recent fees, higher for more urgent order types
+    const feeStrategy = new FeeStrategy(solanaManager.connection, {
+      minComputeUnitPrice: PRIORITY_FEE_MIN_MICRO_LAMPORTS,
+      maxComputeUnitPrice: PRIORITY_FEE_MAX_MICRO_LAMPORTS
+    });
+
+    // Orders may ask for bundle submission only when a block engine is configured
+    const bundleSubmitter = BLOCK_ENGINE_URL
+      ? new BundleSubmitter(solanaManager.connection, BLOCK_ENGINE_URL, {
+        tipLamports: BUNDLE_TIP_LAMPORTS,
+        inclusionTimeoutMs: BUNDLE_INCLUSION_TIMEOUT_MS
+      })
+      : undefined;
+
     // Initialize order execution engine
-    const executionEngine = new OrderExecutionEngine(database, solanaManager, wsManager);
+    const executionEngine = new OrderExecutionEngine(database, solanaManager, wsManager, {
+      enabledDexes: ENABLED_DEXES,
+      tokenRegistry,
+      walletManager,
+      confirmationTracker,
+      feeStrategy,
+      bundleSubmitter
+    });
 
     // Initialize order queue with Redis
     const orderQueue = new OrderQueue(
@@ -58,15 +145,59 @@ async function startServer() {
 
     executionEngine.setOrderQueue(orderQueue);
 
+    // Per-account order value, open order and daily value limits, valuing orders at current quotes
+    const riskManager = RiskManager.fromFile(
+      database,
+      tokenRegistry,
+      (tokenIn, tokenOut, amountIn) => executionEngine.getQuote(tokenIn, tokenOut, amountIn),
+      RISK_LIMITS_PATH
+    );
+
+    // Watch resting limit orders for their trigger price
+    const triggerWatcher = new TriggerWatcher(database, executionEngine, orderQueue, TRIGGER_POLL_INTERVAL_MS);
+    triggerWatcher.start();
+
+    // Fire armed sniper orders when their target pool goes live
+    const sniperDetector = new SniperDetector(
+      database,
+      executionEngine,
+      orderQueue,
+      new SolanaPoolCreationSource(solanaManager.connection),
+      tokenRegistry,
+      TRIGGER_POLL_INTERVAL_MS
+    );
+    await sniperDetector.start();
+
+    // Place the orders of recurring DCA schedules
+    const dcaScheduler = new DcaScheduler(
+      {
+        host: REDIS_HOST,
+        port: REDIS_PORT,
+        url: REDIS_URL
+      },
+      database,
+      orderQueue,
+      solanaManager,
+      walletManager,
+      riskManager,
+      tokenRegistry
+    );
+
     // Register API routes
     await server.register(orderRoutes, {
       database,
       orderQueue,
-      executionEngine
+      executionEngine,
+      tokenRegistry,
+      riskManager,
+      walletManager,
+      quoteCache: new QuoteCache(QUOTE_TTL_MS)
     });
+    await server.register(walletRoutes, { walletManager });
+    await server.register(scheduleRoutes, { database, dcaScheduler, tokenRegistry, walletManager });
 
     // Health check endpoint
-    server.get('/health', async (request, reply) => {
+    server.get('/health', { config: { public: true } }, async (request, reply) => {
       try {
         return {
           status: 'healthy',
@@ -74,7 +205,8 @@ async function startServer() {
           services: {
             database: 'connected',
             redis: 'connected',
-          }
+          },
+          dexes: await executionEngine.checkDexHealth()
         };
       } catch (error) {
         reply.code(503).send({
@@ -86,13 +218,32 @@ async function startServer() {
     });
 
     // Root endpoint with API information
-    server.get('/', async (request, reply) => {
+    server.get('/', { config: { public: true } }, async (request, reply) => {
       return {
         name: 'Eterna Order Execution Engine',
         description: 'DEX order execution engine with Raydium and Meteora routing',
         endpoints: {
+          'GET /api/quote': 'Quote a swap without placing an order',
           'POST /api/orders/execute': 'Submit a new market order',
+          'POST /api/orders/batch': 'Submit several market orders at once',
+          'POST /api/orders/limit': 'Submit a new limit order',
+          'POST /api/orders/twap': 'Submit a new TWAP order',
+          'POST /api/orders/stop-loss': 'Submit a new stop-loss order',
+          'POST /api/orders/take-profit': 'Submit a new take-profit order',
+          'POST /api/orders/oco': 'Submit a stop-loss and take-profit pair',
+          'POST /api/orders/sniper': 'Arm a new sniper order',
+          'GET /api/orders': 'List orders',
           'GET /api/orders/:orderId': 'Get order details',
+          'GET /api/orders/:orderId/events': 'Get order status history',
+          'DELETE /api/orders/:orderId': 'Cancel an order',
+          'POST /api/schedules': 'Create a recurring DCA schedule',
+          'GET /api/schedules': 'List DCA schedules',
+          'GET /api/schedules/:scheduleId': 'Get schedule details',
+          'POST /api/schedules/:scheduleId/pause': 'Pause a schedule',
+          'POST /api/schedules/:scheduleId/resume': 'Resume a schedule',
+          'DELETE /api/schedules/:scheduleId': 'Delete a schedule',
+          'POST /api/wallets': 'Create a signing wallet',
+          'GET /api/wallets': 'List signing wallets',
           'WebSocket /ws/:orderId': 'Real-time order updates'
         },
       };
@@ -103,8 +254,23 @@ async function startServer() {
 
     server.log.info(`Eterna Order Execution Engine started on port ${PORT}`);
     server.log.info('Available endpoints:');
+    server.log.info('- GET /api/quote - Quote a swap');
     server.log.info('- POST /api/orders/execute - Submit market order');
+    server.log.info('- POST /api/orders/batch - Submit market orders in a batch');
+    server.log.info('- POST /api/orders/limit - Submit limit order');
+    server.log.info('- POST /api/orders/twap - Submit TWAP order');
+    server.log.info('- POST /api/orders/stop-loss - Submit stop-loss order');
+    server.log.info('- POST /api/orders/take-profit - Submit take-profit order');
+    server.log.info('- POST /api/orders/oco - Submit OCO order pair');
+    server.log.info('- POST /api/orders/sniper - Arm sniper order');
+    server.log.info('- GET /api/orders - List orders');
     server.log.info('- GET /api/orders/:orderId - Get order status');
+    server.log.info('- GET /api/orders/:orderId/events - Get order status history');
+    server.log.info('- DELETE /api/orders/:orderId - Cancel order');
+    server.log.info('- POST /api/schedules, GET /api/schedules[/:scheduleId] - Create and read DCA schedules');
+    server.log.info('- POST /api/schedules/:scheduleId/pause|resume, DELETE /api/schedules/:scheduleId - Manage DCA schedules');
+    server.log.info('- POST /api/wallets, GET /api/wallets - Manage signing wallets');
+    server.log.info('- WebSocket /ws/:orderId - Real-time order updates');
 
     // Setup heartbeat for WebSocket connections (every 30 seconds)
     setInterval(() => {
@@ -0,0 +1,47 @@
+import { OrderStatus, OrderType } from '../types';
+
+// Statuses an order may move to from each status; terminal statuses have none
+const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  [OrderStatus.PENDING]: [OrderStatus.ROUTING, OrderStatus.FAILED, OrderStatus.CANCELLED],
+  [OrderStatus.WAITING_TRIGGER]: [OrderStatus.PENDING, OrderStatus.EXPIRED, OrderStatus.CANCELLED],
+  // A stalled job is picked up again from routing; a failed attempt that will be retried goes back to pending
+  [OrderStatus.ROUTING]: [OrderStatus.ROUTING, OrderStatus.BUILDING, OrderStatus.PENDING, OrderStatus.FAILED, OrderStatus.CANCELLED],
+  [OrderStatus.BUILDING]: [OrderStatus.ROUTING, OrderStatus.SUBMITTED, OrderStatus.PENDING, OrderStatus.FAILED, OrderStatus.CANCELLED],
+  // Once submitted, a transaction may land on-chain, so the order can no longer be cancelled or retried
+  [OrderStatus.SUBMITTED]: [OrderStatus.CONFIRMED, OrderStatus.PARTIALLY_FILLED, OrderStatus.FAILED],
+  [OrderStatus.CONFIRMED]: [],
+  [OrderStatus.PARTIALLY_FILLED]: [],
+  [OrderStatus.FAILED]: [],
+  [OrderStatus.EXPIRED]: [],
+  [OrderStatus.CANCELLED]: [],
+};
+
+// Where an order type moves differently. A TWAP order stays submitted while its slices run, and is
+// cancelled once they settle if its unsent slices were cancelled; the slices themselves cannot be
+const TYPE_TRANSITIONS: Partial<Record<OrderType, Partial<Record<OrderStatus, OrderStatus[]>>>> = {
+  [OrderType.TWAP]: {
+    [OrderStatus.SUBMITTED]: [OrderStatus.CONFIRMED, OrderStatus.PARTIALLY_FILLED, OrderStatus.FAILED, OrderStatus.CANCELLED],
+  },
+};
+
+export class InvalidTransitionError extends Error {
+  constructor(readonly orderId: string, readonly from: OrderStatus, readonly to: OrderStatus) {
+    super(`Order ${orderId} cannot move from ${from} to ${to}`);
+    this.name = 'InvalidTransitionError';
+  }
+}
+
+export function canTransition(from: OrderStatus, to: OrderStatus, type?: OrderType): boolean {
+  const transitions = (type && TYPE_TRANSITIONS[type]?.[from]) ?? ORDER_TRANSITIONS[from];
+  return transitions?.includes(to) ?? false;
+}
+
+export function assertTransition(orderId: string, from: OrderStatus, to: OrderStatus, type?: OrderType): void {
+  if (!canTransition(from, to, type)) {
+    throw new InvalidTransitionError(orderId, from, to);
+  }
+}
+
+export function isTerminal(status: OrderStatus): boolean {
+  return ORDER_TRANSITIONS[status].length === 0;
+}
@@ -7,6 +7,187 @@ export const executeOrderSchema = {
             tokenIn: { type: 'string', minLength: 1 },
             tokenOut: { type: 'string', minLength: 1 },
             amountIn: { type: 'number', minimum: 0 },
+            slippageBps: { type: 'integer', minimum: 0, maximum: 5000 },
+            strategy: { type: 'string', minLength: 1, maxLength: 64 },
+            submissionMode: { type: 'string', enum: ['rpc', 'bundle'] },
+            minAmountOut: { type: 'number', minimum: 0 },
+            quoteId: { type: 'string', minLength: 1 },
         }
     }
-};
\ No newline at end of file
+};
+
+// Schema for batch order request; each entry is checked against executeOrderSchema on its own
+export const batchOrderSchema = {
+    body: {
+        type: 'object',
+        required: ['orders'],
+        properties: {
+            orders: { type: 'array', minItems: 1, maxItems: 50, items: { type: 'object' } },
+            allOrNothing: { type: 'boolean', default: false },
+        }
+    }
+};
+
+// Schema for limit order request
+export const limitOrderSchema = {
+    body: {
+        type: 'object',
+        required: ['tokenIn', 'tokenOut', 'amountIn', 'limitPrice'],
+        properties: {
+            tokenIn: { type: 'string', minLength: 1 },
+            tokenOut: { type: 'string', minLength: 1 },
+            amountIn: { type: 'number', minimum: 0 },
+            limitPrice: { type: 'number', exclusiveMinimum: 0 },
+            slippageBps: { type: 'integer', minimum: 0, maximum: 5000 },
+            strategy: { type: 'string', minLength: 1, maxLength: 64 },
+            submissionMode: { type: 'string', enum: ['rpc', 'bundle'] },
+            minAmountOut: { type: 'number', minimum: 0 },
+            expiresAt: { type: 'string', format: 'date-time' },
+        }
+    }
+};
+
+// Schema for TWAP order request
+export const twapOrderSchema = {
+    body: {
+        type: 'object',
+        required: ['tokenIn', 'tokenOut', 'amountIn', 'limitPrice', 'slices', 'durationSeconds'],
+        properties: {
+            tokenIn: { type: 'string', minLength: 1 },
+            tokenOut: { type: 'string', minLength: 1 },
+            amountIn: { type: 'number', minimum: 0 },
+            limitPrice: { type: 'number', exclusiveMinimum: 0 },
+            slices: { type: 'integer', minimum: 2, maximum: 100 },
+            durationSeconds: { type: 'integer', minimum: 1, maximum: 86400 },
+            slippageBps: { type: 'integer', minimum: 0, maximum: 5000 },
+            strategy: { type: 'string', minLength: 1, maxLength: 64 },
+            submissionMode: { type: 'string', enum: ['rpc', 'bundle'] },
+            minAmountOut: { type: 'number', minimum: 0 },
+        }
+    }
+};
+
+// Schema for stop-loss and take-profit order requests
+export const triggerOrderSchema = {
+    body: {
+        type: 'object',
+        required: ['tokenIn', 'tokenOut', 'amountIn', 'triggerPrice'],
+        properties: {
+            tokenIn: { type: 'string', minLength: 1 },
+            tokenOut: { type: 'string', minLength: 1 },
+            amountIn: { type: 'number', minimum: 0 },
+            triggerPrice: { type: 'number', exclusiveMinimum: 0 },
+            slippageBps: { type: 'integer', minimum: 0, maximum: 5000 },
+            strategy: { type: 'string', minLength: 1, maxLength: 64 },
+            submissionMode: { type: 'string', enum: ['rpc', 'bundle'] },
+            minAmountOut: { type: 'number', minimum: 0 },
+            expiresAt: { type: 'string', format: 'date-time' },
+        }
+    }
+};
+
+// Schema for OCO order request: a stop-loss and a take-profit on the same amount
+export const ocoOrderSchema = {
+    body: {
+        type: 'object',
+        required: ['tokenIn', 'tokenOut', 'amountIn', 'stopLossPrice', 'takeProfitPrice'],
+        properties: {
+            tokenIn: { type: 'string', minLength: 1 },
+            tokenOut: { type: 'string', minLength: 1 },
+            amountIn: { type: 'number', minimum: 0 },
+            stopLossPrice: { type: 'number', exclusiveMinimum: 0 },
+            takeProfitPrice: { type: 'number', exclusiveMinimum: 0 },
+            slippageBps: { type: 'integer', minimum: 0, maximum: 5000 },
+            strategy: { type: 'string', minLength: 1, maxLength: 64 },
+            submissionMode: { type: 'string', enum: ['rpc', 'bundle'] },
+            minAmountOut: { type: 'number', minimum: 0 },
+            expiresAt: { type: 'string', format: 'date-time' },
+        }
+    }
+};
+
+// Schema for sniper order request
+export const sniperOrderSchema = {
+    body: {
+        type: 'object',
+        required: ['tokenIn', 'targetMint', 'amountIn', 'maxPrice'],
+        properties: {
+            tokenIn: { type: 'string', minLength: 1 },
+            targetMint: { type: 'string', minLength: 32, maxLength: 44 },
+            amountIn: { type: 'number', minimum: 0 },
+            maxPrice: { type: 'number', exclusiveMinimum: 0 },
+            slippageBps: { type: 'integer', minimum: 0, maximum: 5000 },
+            strategy: { type: 'string', minLength: 1, maxLength: 64 },
+            submissionMode: { type: 'string', enum: ['rpc', 'bundle'] },
+            expiresAt: { type: 'string', format: 'date-time' },
+        }
+    }
+};
+
+// Schema for DCA schedule creation request
+export const createScheduleSchema = {
+    body: {
+        type: 'object',
+        required: ['tokenIn', 'tokenOut', 'amountIn', 'intervalSeconds'],
+        properties: {
+            tokenIn: { type: 'string', minLength: 1 },
+            tokenOut: { type: 'string', minLength: 1 },
+            amountIn: { type: 'number', exclusiveMinimum: 0 },
+            intervalSeconds: { type: 'integer', minimum: 60, maximum: 2592000 },
+            totalAmount: { type: 'number', exclusiveMinimum: 0 },
+            slippageBps: { type: 'integer', minimum: 0, maximum: 5000 },
+            strategy: { type: 'string', minLength: 1, maxLength: 64 },
+            submissionMode: { type: 'string', enum: ['rpc', 'bundle'] },
+        }
+    }
+};
+
+// Schema for wallet creation request; a remote signer's wallet names both its public key and the configured signer
+export const createWalletSchema = {
+    body: {
+        type: 'object',
+        properties: {
+            strategy: { type: 'string', minLength: 1, maxLength: 64 },
+            publicKey: { type: 'string', minLength: 32, maxLength: 44 },
+            remoteSigner: { type: 'string', minLength: 1, maxLength: 64 },
+        },
+        dependencies: {
+            publicKey: ['remoteSigner'],
+            remoteSigner: ['publicKey'],
+        }
+    }
+};
+
+// Schema for quote query
+export const quoteSchema = {
+    querystring: {
+        type: 'object',
+        required: ['tokenIn', 'tokenOut', 'amountIn'],
+        properties: {
+            tokenIn: { type: 'string', minLength: 1 },
+            tokenOut: { type: 'string', minLength: 1 },
+            amountIn: { type: 'number', exclusiveMinimum: 0 },
+        }
+    }
+};
+
+// Schema for order listing query
+export const listOrdersSchema = {
+    querystring: {
+        type: 'object',
+        properties: {
+            status: { type: 'string', minLength: 1 },
+            type: { type: 'string', enum: ['market', 'limit', 'sniper', 'twap', 'stop_loss', 'take_profit'] },
+            tokenIn: { type: 'string', minLength: 1 },
+            tokenOut: { type: 'string', minLength: 1 },
+            dex: { type: 'string', minLength: 1 },
+            scheduleId: { type: 'string', minLength: 1 },
+            createdFrom: { type: 'string', format: 'date-time' },
+            createdTo: { type: 'string', format: 'date-time' },
+            sortBy: { type: 'string', enum: ['createdAt', 'updatedAt', 'executedAt'], default: 'createdAt' },
+            order: { type: 'string', enum: ['asc', 'desc'], default: 'desc' },
+            limit: { type: 'integer', minimum: 1, maximum: 200, default: 50 },
+            cursor: { type: 'string', minLength: 1 },
+        }
+    }
+};
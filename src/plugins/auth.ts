@@ -0,0 +1,74 @@
+import { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import fp from 'fastify-plugin';
+import { createHash } from 'crypto';
+import { Account } from '../types';
+import { Database } from '../database/connection';
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    account: Account; // set on every route that is not public
+  }
+
+  interface FastifyContextConfig {
+    public?: boolean; // served without an API key
+  }
+}
+
+interface AuthPluginOptions {
+  database: Database;
+}
+
+export function hashApiKey(apiKey: string): string {
+  return createHash('sha256').update(apiKey).digest('hex');
+}
+
+/**
+ * API key of a request: the X-API-Key header, or the apiKey query parameter
+ * on WebSocket handshakes, since browsers cannot set headers on those
+ */
+function readApiKey(request: FastifyRequest): string | undefined {
+  const header = request.headers['x-api-key'];
+  if (typeof header === 'string') {
+    return header;
+  }
+
+  const query = request.query as { apiKey?: unknown } | undefined;
+  return request.ws && typeof query?.apiKey === 'string' ? query.apiKey : undefined;
+}
+
+/**
+ * Authenticates every route not marked public, WebSocket handshakes included,
+ * and attaches the calling account to the request
+ */
+async function auth(fastify: FastifyInstance, options: AuthPluginOptions): Promise<void> {
+  const { database } = options;
+
+  fastify.decorateRequest('account', null as unknown as Account);
+
+  fastify.addHook('onRequest', async (request: FastifyRequest, reply: FastifyReply) => {
+    if (request.routeOptions.config?.public) {
+      return;
+    }
+
+    const apiKey = readApiKey(request);
+    if (!apiKey) {
+      return reply.code(401).send({
+        error: 'Unauthorized',
+        message: 'Missing API key'
+      });
+    }
+
+    const account = await database.getAccountByApiKeyHash(hashApiKey(apiKey));
+    if (!account) {
+      return reply.code(401).send({
+        error: 'Unauthorized',
+        message: 'Invalid API key'
+      });
+    }
+
+    request.account = account;
+  });
+}
+
+// Not encapsulated, so the hook covers routes registered outside the plugin
+export const authPlugin = fp(auth, { name: 'auth' });
@@ -0,0 +1,90 @@
+import { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import fp from 'fastify-plugin';
+
+interface RateLimitPluginOptions {
+  maxRequests: number; // per account and window, unless the account sets its own
+  windowMs: number;
+}
+
+interface RateLimitWindow {
+  startedAt: number;
+  count: number;
+}
+
+/**
+ * Current window of each account that made requests. Windows that have
+ * passed are dropped by `sweep`, so accounts that stop calling are not kept.
+ */
+export class RateLimitWindows {
+  private windowMs: number;
+  private windows: Map<string, RateLimitWindow> = new Map(); // accountId -> current window
+
+  constructor(windowMs: number) {
+    this.windowMs = windowMs;
+  }
+
+  get size(): number {
+    return this.windows.size;
+  }
+
+  /**
+   * Count a request of the account, in a new window when its last one has passed
+   */
+  hit(accountId: string, now: number): RateLimitWindow {
+    let window = this.windows.get(accountId);
+    if (!window || now - window.startedAt >= this.windowMs) {
+      window = { startedAt: now, count: 0 };
+      this.windows.set(accountId, window);
+    }
+
+    window.count++;
+    return window;
+  }
+
+  sweep(now: number): void {
+    for (const [accountId, window] of this.windows) {
+      if (now - window.startedAt >= this.windowMs) {
+        this.windows.delete(accountId);
+      }
+    }
+  }
+}
+
+/**
+ * Fixed-window request limit per account, so one busy client cannot crowd
+ * out the others. Must be registered after the auth plugin, whose hook
+ * identifies the account; public routes are not limited.
+ */
+async function rateLimit(fastify: FastifyInstance, options: RateLimitPluginOptions): Promise<void> {
+  const { maxRequests, windowMs } = options;
+  const windows = new RateLimitWindows(windowMs);
+
+  // Drop passed windows once per window length
+  const sweeper = setInterval(() => windows.sweep(Date.now()), windowMs);
+  sweeper.unref();
+  fastify.addHook('onClose', async () => clearInterval(sweeper));
+
+  fastify.addHook('onRequest', async (request: FastifyRequest, reply: FastifyReply) => {
+    if (!request.account) {
+      return;
+    }
+
+    const now = Date.now();
+    const limit = request.account.rateLimitMax ?? maxRequests;
+    const window = windows.hit(request.account.id, now);
+    const resetSeconds = Math.ceil((window.startedAt + windowMs - now) / 1000);
+
+    reply.header('x-ratelimit-limit', limit);
+    reply.header('x-ratelimit-remaining', Math.max(limit - window.count, 0));
+    reply.header('x-ratelimit-reset', resetSeconds);
+
+    if (window.count > limit) {
+      return reply.code(429).header('retry-after', resetSeconds).send({
+        error: 'Too many requests',
+        message: `Rate limit of ${limit} requests per ${windowMs / 1000}s exceeded, retry in ${resetSeconds}s`
+      });
+    }
+  });
+}
+
+export const rateLimitPlugin = fp(rateLimit, { name: 'rate-limit', dependencies: ['auth'] });
@@ -1,25 +1,492 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { v4 as uuidv4 } from 'uuid';
-import { Order, OrderRequest, OrderType, OrderStatus } from '../types';
-import { Database } from '../database/connection';
+import { createHash } from 'crypto';
+import { Order, OrderRequest, BatchOrderRequest, LimitOrderRequest, TwapOrderRequest, TriggerOrderRequest, OcoOrderRequest, SniperOrderRequest, OrderType, OrderStatus, TokenInfo, OrderListQuery, OrderSortField, Quote, QuoteQuery } from '../types';
+import { Database, IdempotencyConflictError, RiskLimitError } from '../database/connection';
 import { OrderQueue } from '../services/queue';
 import { OrderExecutionEngine } from '../services/orderExecutionEngine';
-import { executeOrderSchema } from '../models/schema';
-import { NATIVE_MINT } from '@solana/spl-token';
-import { TOKEN_MINTS } from '../services/dexRouter';
+import { executeOrderSchema, batchOrderSchema, limitOrderSchema, twapOrderSchema, triggerOrderSchema, ocoOrderSchema, sniperOrderSchema, listOrdersSchema, quoteSchema } from '../models/schema';
+import { DEFAULT_SLIPPAGE_BPS } from '../services/dexRouter';
+import { TokenRegistry } from '../services/tokenRegistry';
+import { RiskManager } from '../services/riskManager';
+import { WalletManager, DEFAULT_STRATEGY } from '../services/walletManager';
+import { QuoteCache } from '../services/quoteCache';
+import { canTransition, InvalidTransitionError } from '../models/orderStateMachine';
 import { ethers } from 'ethers';
 
 interface OrderRouteContext {
   database: Database;
   orderQueue: OrderQueue;
   executionEngine: OrderExecutionEngine;
+  tokenRegistry: TokenRegistry;
+  riskManager: RiskManager;
+  walletManager: WalletManager;
+  quoteCache: QuoteCache;
+}
+
+// Default lifetime of a limit order submitted without an expiry
+const DEFAULT_LIMIT_ORDER_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Single stop-loss and take-profit orders share a handler; they rest until cancelled unless given an expiry
+const TRIGGER_ORDER_ROUTES = [
+  { url: '/api/orders/stop-loss', type: OrderType.STOP_LOSS },
+  { url: '/api/orders/take-profit', type: OrderType.TAKE_PROFIT }
+];
+
+/**
+ * Build an order from a request whose tokens were resolved through the token registry.
+ * Orders keep the registry symbol, so a request by mint and by symbol store the same order.
+ */
+function createOrder(type: OrderType, status: OrderStatus, accountId: string, request: OrderRequest, tokenIn: TokenInfo, tokenOut: TokenInfo): Order {
+  const { amountIn, slippageBps, minAmountOut, strategy, submissionMode } = request;
+
+  return {
+    id: uuidv4(),
+    type,
+    tokenIn: tokenIn.symbol,
+    tokenOut: tokenOut.symbol,
+    tokenInMint: tokenIn.mint,
+    tokenOutMint: tokenOut.mint,
+    amountIn: ethers.parseUnits(amountIn.toString(), tokenIn.decimals).toString(),
+    slippageBps: slippageBps ?? DEFAULT_SLIPPAGE_BPS,
+    minAmountOut: minAmountOut !== undefined
+      ? ethers.parseUnits(minAmountOut.toString(), tokenOut.decimals).toString()
+      : undefined,
+    status,
+    accountId,
+    strategy,
+    submissionMode,
+    retryCount: 0,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+}
+
+/**
+ * tokenOut base units that `amountIn` tokenIn base units buy at `price`
+ * (tokenOut per tokenIn)
+ */
+function amountOutAtPrice(amountIn: bigint, price: number, tokenIn: TokenInfo, tokenOut: TokenInfo): bigint {
+  const priceAmountOut = ethers.parseUnits(price.toFixed(tokenOut.decimals), tokenOut.decimals);
+  return amountIn * priceAmountOut / BigInt(10) ** BigInt(tokenIn.decimals);
+}
+
+/**
+ * Split a TWAP order into market orders of equal size, the last taking the
+ * remainder. A slice's minimum output is its size at the limit price, or its
+ * share of the order's minimum output when that is higher, so no slice fills
+ * below the limit.
+ */
+function createTwapSlices(order: Order, tokenIn: TokenInfo, tokenOut: TokenInfo): Order[] {
+  const slices = order.twap!.slices;
+  const amountIn = BigInt(order.amountIn);
+  const sliceAmountIn = amountIn / BigInt(slices);
+
+  return Array.from({ length: slices }, (_, index) => {
+    const sliceAmount = index === slices - 1 ? amountIn - sliceAmountIn * BigInt(slices - 1) : sliceAmountIn;
+    const atLimit = amountOutAtPrice(sliceAmount, order.limitPrice!, tokenIn, tokenOut);
+    const share = order.minAmountOut ? BigInt(order.minAmountOut) * sliceAmount / amountIn : BigInt(0);
+
+    return {
+      ...order,
+      id: uuidv4(),
+      type: OrderType.MARKET,
+      status: OrderStatus.PENDING,
+      amountIn: sliceAmount.toString(),
+      minAmountOut: (atLimit > share ? atLimit : share).toString(),
+      parentOrderId: order.id,
+      twap: undefined,
+      idempotencyKey: undefined,
+      requestHash: undefined
+    };
+  });
+}
+
+/**
+ * Hash of a submission, so a retried request can be told apart from a
+ * different request reusing the same Idempotency-Key. Body keys are sorted,
+ * so clients may serialize them in any order.
+ */
+function hashRequest(url: string, body: object): string {
+  const canonical = JSON.stringify(body, Object.keys(body).sort());
+  return createHash('sha256').update(`${url}\n${canonical}`).digest('hex');
+}
+
+// Creation responses, also replayed for repeated Idempotency-Keys
+function marketOrderResponse(order: Order) {
+  return {
+    orderId: order.id,
+    status: OrderStatus.PENDING,
+    message: 'Order submitted successfully',
+    websocketUrl: `/ws/${order.id}`,
+    createdAt: order.createdAt
+  };
+}
+
+// Amounts are base units; `quotes` are per venue, or per hop for a route through base tokens
+function quoteResponse(quote: Quote) {
+  const { route } = quote;
+  return {
+    quoteId: quote.id,
+    tokenIn: quote.tokenIn,
+    tokenOut: quote.tokenOut,
+    amountIn: quote.amountIn,
+    expectedAmountOut: route.expectedAmountOut,
+    priceImpact: route.bestQuote.priceImpact,
+    route: {
+      dex: route.dex,
+      routingReason: route.routingReason,
+      splits: route.splits?.map(split => ({ dex: split.dex, amountIn: split.amountIn, amountOut: split.quote.amountOut })),
+      hops: route.hops?.map(hop => ({ dex: hop.dex, tokenIn: hop.tokenIn, tokenOut: hop.tokenOut, amountIn: hop.amountIn, amountOut: hop.quote.amountOut }))
+    },
+    quotes: route.allQuotes.map(venueQuote => ({
+      dex: venueQuote.dex,
+      price: venueQuote.price,
+      amountOut: venueQuote.amountOut,
+      priceImpact: venueQuote.priceImpact,
+      feeAmount: venueQuote.feeAmount,
+      poolAddress: venueQuote.poolAddress
+    })),
+    createdAt: quote.createdAt,
+    expiresAt: quote.expiresAt
+  };
+}
+
+function limitOrderResponse(order: Order) {
+  return {
+    orderId: order.id,
+    status: OrderStatus.WAITING_TRIGGER,
+    message: 'Limit order submitted successfully',
+    websocketUrl: `/ws/${order.id}`,
+    limitPrice: order.limitPrice,
+    expiresAt: order.expiresAt,
+    createdAt: order.createdAt
+  };
+}
+
+function twapOrderResponse(order: Order) {
+  return {
+    orderId: order.id,
+    status: OrderStatus.SUBMITTED,
+    message: 'TWAP order scheduled successfully',
+    websocketUrl: `/ws/${order.id}`,
+    limitPrice: order.limitPrice,
+    slices: order.twap!.slices,
+    intervalMs: order.twap!.intervalMs,
+    createdAt: order.createdAt
+  };
+}
+
+function triggerOrderResponse(order: Order) {
+  return {
+    orderId: order.id,
+    type: order.type,
+    status: OrderStatus.WAITING_TRIGGER,
+    message: `${order.type === OrderType.STOP_LOSS ? 'Stop-loss' : 'Take-profit'} order submitted successfully`,
+    websocketUrl: `/ws/${order.id}`,
+    triggerPrice: order.triggerPrice,
+    ocoOrderId: order.ocoOrderId,
+    expiresAt: order.expiresAt,
+    createdAt: order.createdAt
+  };
+}
+
+function ocoOrderResponse(stopLoss: Order, takeProfit: Order) {
+  return {
+    status: OrderStatus.WAITING_TRIGGER,
+    message: 'OCO order submitted successfully',
+    stopLoss: triggerOrderResponse(stopLoss),
+    takeProfit: triggerOrderResponse(takeProfit)
+  };
+}
+
+function sniperOrderResponse(order: Order) {
+  return {
+    orderId: order.id,
+    status: OrderStatus.WAITING_TRIGGER,
+    message: 'Sniper order armed successfully',
+    websocketUrl: `/ws/${order.id}`,
+    targetMint: order.tokenOutMint,
+    maxPrice: order.maxPrice,
+    expiresAt: order.expiresAt,
+    createdAt: order.createdAt
+  };
+}
+
+/**
+ * List cursors are opaque to clients: base64url JSON of the sort field and
+ * the sort timestamp and id of the last order on the page
+ */
+function encodeCursor(sortBy: OrderSortField, order: Order): string {
+  const value = new Date(order[sortBy]!).toISOString();
+  return Buffer.from(JSON.stringify({ sortBy, value, id: order.id })).toString('base64url');
+}
+
+function decodeCursor(cursor: string, sortBy: OrderSortField): { value: Date; id: string } | null {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    const value = new Date(decoded.value);
+    if (decoded.sortBy !== sortBy || typeof decoded.id !== 'string' || isNaN(value.getTime())) {
+      return null;
+    }
+    return { value, id: decoded.id };
+  } catch {
+    return null;
+  }
 }
 
 export async function orderRoutes(
   fastify: FastifyInstance,
   context: OrderRouteContext
 ): Promise<void> {
-  const { database, orderQueue, executionEngine } = context;
+  const { database, orderQueue, executionEngine, tokenRegistry, riskManager, walletManager, quoteCache } = context;
+
+  /**
+   * The order, when it belongs to the calling account. Other accounts' orders
+   * are reported as missing, so order ids cannot be probed.
+   */
+  const findOwnedOrder = async (request: FastifyRequest, orderId: string): Promise<Order | null> => {
+    const order = await database.getOrder(orderId);
+    return order && order.accountId === request.account.id ? order : null;
+  };
+
+  /**
+   * Answer a submission whose Idempotency-Key was used before: the original
+   * response when the request matches, 409 when it does not. Returns true
+   * when a reply was sent and no order should be created.
+   */
+  const replayIfSubmitted = async (
+    request: FastifyRequest<{ Body: object }>,
+    reply: FastifyReply,
+    respond: (order: Order) => object | Promise<object>
+  ): Promise<boolean> => {
+    const idempotencyKey = request.headers['idempotency-key'];
+    if (idempotencyKey === undefined) {
+      return false;
+    }
+
+    if (typeof idempotencyKey !== 'string' || idempotencyKey.length === 0 || idempotencyKey.length > 255) {
+      reply.code(400).send({
+        error: 'Invalid order',
+        message: 'Idempotency-Key must be a single value of 1 to 255 characters'
+      });
+      return true;
+    }
+
+    const existing = await database.getOrderByIdempotencyKey(request.account.id, idempotencyKey);
+    if (!existing) {
+      return false;
+    }
+
+    if (existing.requestHash !== hashRequest(request.routeOptions.url!, request.body as object)) {
+      reply.code(409).send({
+        error: 'Idempotency key conflict',
+        message: `Idempotency-Key ${idempotencyKey} was already used for a different request`
+      });
+      return true;
+    }
+
+    console.log(`Replaying order ${existing.id} for idempotency key ${idempotencyKey}`);
+    reply.code(201).header('idempotent-replayed', 'true').send(await respond(existing));
+    return true;
+  };
+
+  // Idempotency fields stored with a new order, when the request carries a key
+  const idempotencyFields = (request: FastifyRequest<{ Body: object }>): Pick<Order, 'idempotencyKey' | 'requestHash'> => {
+    const idempotencyKey = request.headers['idempotency-key'] as string | undefined;
+    return idempotencyKey
+      ? { idempotencyKey, requestHash: hashRequest(request.routeOptions.url!, request.body as object) }
+      : {};
+  };
+
+  /**
+   * Save a new order, through `save` when it is stored with other orders.
+   * When a concurrent request with the same key saved its order first, that
+   * order is replayed instead and false is returned; false is also returned
+   * when the account went over its risk limits before the order was stored.
+   */
+  const saveOrder = async (
+    request: FastifyRequest<{ Body: object }>,
+    reply: FastifyReply,
+    order: Order,
+    respond: (order: Order) => object | Promise<object>,
+    save: () => Promise<void> = () => database.createOrder(order, riskManager.guard(request.account, [order]))
+  ): Promise<boolean> => {
+    try {
+      await save();
+      return true;
+    } catch (error) {
+      if (error instanceof IdempotencyConflictError && await replayIfSubmitted(request, reply, respond)) {
+        return false;
+      }
+      if (error instanceof RiskLimitError) {
+        console.log(`Order ${order.id} rejected for account ${request.account.id}: ${error.message}`);
+        reply.code(422).send({
+          error: 'Risk limit exceeded',
+          message: error.message
+        });
+        return false;
+      }
+      throw error;
+    }
+  };
+
+  // Orders without a strategy sign with the account's default wallet, or the engine wallet
+  const hasWallet = async (request: FastifyRequest, order: Order): Promise<boolean> =>
+    !order.strategy || order.strategy === DEFAULT_STRATEGY || !!await walletManager.getWallet(request.account.id, order.strategy);
+
+  /**
+   * Reject an order naming a strategy the account has no wallet for.
+   * Returns true when a reply was sent and the order should not be stored.
+   */
+  const rejectIfNoWallet = async (request: FastifyRequest, reply: FastifyReply, order: Order): Promise<boolean> => {
+    if (await hasWallet(request, order)) {
+      return false;
+    }
+
+    reply.code(400).send({
+      error: 'Invalid order',
+      message: `No wallet for strategy ${order.strategy}`
+    });
+    return true;
+  };
+
+  /**
+   * Reject an order that breaks the submitting account's risk limits.
+   * Returns true when a reply was sent and the order should not be stored.
+   */
+  const rejectIfOverLimits = async (request: FastifyRequest, reply: FastifyReply, order: Order): Promise<boolean> => {
+    const risk = await riskManager.checkOrder(order, request.account);
+    if (risk.isValid) {
+      return false;
+    }
+
+    console.log(`Order ${order.id} rejected for account ${request.account.id}: ${risk.error}`);
+    reply.code(422).send({
+      error: 'Risk limit exceeded',
+      message: risk.error
+    });
+    return true;
+  };
+
+  /**
+   * Hold a market order to the quote it references: the quoted output, less
+   * the order's slippage tolerance, becomes its minimum output unless the order
+   * asks for more. Returns why the quote cannot be used, if it cannot.
+   */
+  const applyQuote = (request: FastifyRequest, order: Order, quoteId?: string): string | undefined => {
+    if (!quoteId) {
+      return undefined;
+    }
+
+    const quote = quoteCache.get(quoteId, request.account.id);
+    if (!quote) {
+      return `Quote ${quoteId} does not exist or has expired`;
+    }
+    if (quote.tokenInMint !== order.tokenInMint || quote.tokenOutMint !== order.tokenOutMint || quote.amountIn !== order.amountIn) {
+      return `Order does not match quote ${quoteId}`;
+    }
+
+    const quotedMinAmountOut = BigInt(quote.route.expectedAmountOut!) * BigInt(10000 - order.slippageBps!) / BigInt(10000);
+    if (quotedMinAmountOut > BigInt(order.minAmountOut ?? '0')) {
+      order.minAmountOut = quotedMinAmountOut.toString();
+    }
+    return undefined;
+  };
+
+  /**
+   * Check one entry of a batch as /api/orders/execute would check the order,
+   * counting `accepted` entries against the account's limits
+   */
+  const checkBatchEntry = async (
+    request: FastifyRequest,
+    entry: OrderRequest,
+    accepted: Order[]
+  ): Promise<{ order: Order } | { error: string; message: string }> => {
+    const validate = request.compileValidationSchema(executeOrderSchema.body);
+    if (!validate(entry)) {
+      const [first] = validate.errors ?? [];
+      return { error: 'Invalid order', message: `entry${first?.instancePath ?? ''} ${first?.message ?? 'is invalid'}` };
+    }
+
+    const pair = tokenRegistry.resolvePair(entry.tokenIn, entry.tokenOut);
+    if (pair.error) {
+      return { error: 'Invalid order', message: pair.error };
+    }
+
+    let order: Order;
+    try {
+      order = createOrder(OrderType.MARKET, OrderStatus.PENDING, request.account.id, entry, pair.tokenIn!, pair.tokenOut!);
+    } catch {
+      return { error: 'Invalid order', message: `Amounts have more decimals than ${pair.tokenIn!.symbol} or ${pair.tokenOut!.symbol} supports` };
+    }
+
+    const quoteError = applyQuote(request, order, entry.quoteId);
+    if (quoteError) {
+      return { error: 'Invalid order', message: quoteError };
+    }
+
+    const validation = executionEngine.validateMarketOrder(order);
+    if (!validation.isValid) {
+      return { error: 'Invalid order', message: validation.error! };
+    }
+
+    if (!await hasWallet(request, order)) {
+      return { error: 'Invalid order', message: `No wallet for strategy ${order.strategy}` };
+    }
+
+    const risk = await riskManager.checkOrder(order, request.account, accepted);
+    if (!risk.isValid) {
+      return { error: 'Risk limit exceeded', message: risk.error! };
+    }
+
+    return { order };
+  };
+
+  /**
+   * GET /api/quote
+   * Quote a market order on every venue without placing it. The quote id can be
+   * passed to /api/orders/execute until the quote expires.
+   */
+  fastify.get<{ Querystring: QuoteQuery }>('/api/quote', {
+    schema: quoteSchema,
+    handler: async (request: FastifyRequest<{ Querystring: QuoteQuery }>, reply: FastifyReply) => {
+      try {
+        const pair = tokenRegistry.resolvePair(request.query.tokenIn, request.query.tokenOut);
+        if (pair.error) {
+          return reply.code(400).send({
+            error: 'Invalid quote',
+            message: pair.error
+          });
+        }
+
+        const tokenIn = pair.tokenIn!;
+        const tokenOut = pair.tokenOut!;
+        const amountIn = ethers.parseUnits(request.query.amountIn.toString(), tokenIn.decimals).toString();
+
+        const route = await executionEngine.getQuote(tokenIn.symbol, tokenOut.symbol, amountIn);
+
+        const quote = quoteCache.save({
+          accountId: request.account.id,
+          tokenIn: tokenIn.symbol,
+          tokenOut: tokenOut.symbol,
+          tokenInMint: tokenIn.mint,
+          tokenOutMint: tokenOut.mint,
+          amountIn,
+          route
+        });
+
+        reply.send(quoteResponse(quote));
+
+      } catch (error) {
+        console.error('Error quoting order:', error);
+        reply.code(500).send({
+          error: 'Internal server error',
+          message: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+  });
 
   /**
    * POST /api/orders/execute
@@ -29,23 +496,31 @@ export async function orderRoutes(
     schema: executeOrderSchema,
     handler: async (request: FastifyRequest<{ Body: OrderRequest }>, reply: FastifyReply) => {
       try {
-        const { tokenIn, tokenOut, amountIn } = request.body;
+        if (await replayIfSubmitted(request, reply, marketOrderResponse)) return;
+
+        // Reject unknown tokens and pairs no pool serves before anything is stored
+        const pair = tokenRegistry.resolvePair(request.body.tokenIn, request.body.tokenOut);
+        if (pair.error) {
+          return reply.code(400).send({
+            error: 'Invalid order',
+            message: pair.error
+          });
+        }
 
         // Create order object
         const order: Order = {
-          id: uuidv4(),
-          type: OrderType.MARKET,
-          tokenIn,
-          tokenOut,
-          tokenInMint: TOKEN_MINTS[tokenIn as keyof typeof TOKEN_MINTS].mint,
-          tokenOutMint: TOKEN_MINTS[tokenOut as keyof typeof TOKEN_MINTS].mint,
-          amountIn: ethers.parseUnits(amountIn.toString(), TOKEN_MINTS[tokenIn as keyof typeof TOKEN_MINTS].decimals).toString(),
-          status: OrderStatus.PENDING,
-          retryCount: 0,
-          createdAt: new Date(),
-          updatedAt: new Date(),
+          ...createOrder(OrderType.MARKET, OrderStatus.PENDING, request.account.id, request.body, pair.tokenIn!, pair.tokenOut!),
+          ...idempotencyFields(request)
         };
 
+        const quoteError = applyQuote(request, order, request.body.quoteId);
+        if (quoteError) {
+          return reply.code(400).send({
+            error: 'Invalid order',
+            message: quoteError
+          });
+        }
+
         // Validate market order
         const validation = executionEngine.validateMarketOrder(order);
         if (!validation.isValid) {
@@ -55,8 +530,11 @@ export async function orderRoutes(
           });
         }
 
+        if (await rejectIfNoWallet(request, reply, order)) return;
+        if (await rejectIfOverLimits(request, reply, order)) return;
+
         // Save order to database
-        await database.createOrder(order);
+        if (!await saveOrder(request, reply, order, marketOrderResponse)) return;
 
         // Add to execution queue
         await orderQueue.addOrder(order);
@@ -64,16 +542,478 @@ export async function orderRoutes(
         console.log(`Order ${order.id} submitted successfully`);
 
         // Return order ID and WebSocket URL
+        reply.code(201).send(marketOrderResponse(order));
+
+      } catch (error) {
+        console.error('Error creating order:', error);
+        reply.code(500).send({
+          error: 'Internal server error',
+          message: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+  });
+
+  /**
+   * POST /api/orders/batch
+   * Submit several market orders at once. Each entry is validated on its own;
+   * the valid ones are stored in one transaction and queued.
+   */
+  fastify.post<{ Body: BatchOrderRequest }>('/api/orders/batch', {
+    schema: batchOrderSchema,
+    handler: async (request: FastifyRequest<{ Body: BatchOrderRequest }>, reply: FastifyReply) => {
+      try {
+        const { orders: entries, allOrNothing } = request.body;
+
+        const accepted: Order[] = [];
+        const checked = [];
+        for (const entry of entries) {
+          const result = await checkBatchEntry(request, entry, accepted);
+          if ('order' in result) {
+            accepted.push(result.order);
+          }
+          checked.push(result);
+        }
+
+        const rejectedCount = entries.length - accepted.length;
+        const stored = accepted.length > 0 && !(allOrNothing && rejectedCount > 0);
+
+        // Results in request order; valid entries of a rejected batch are reported as not stored
+        const results = checked.map((result, index) => {
+          if (!('order' in result)) {
+            return { index, accepted: false, ...result };
+          }
+          return stored
+            ? { index, accepted: true, ...marketOrderResponse(result.order) }
+            : { index, accepted: false, error: 'Batch rejected', message: 'Another order in the batch is invalid' };
+        });
+
+        if (!stored) {
+          return reply.code(400).send({
+            error: 'Invalid batch',
+            message: `${rejectedCount} of ${entries.length} orders are invalid`,
+            results
+          });
+        }
+
+        try {
+          await database.createOrders(accepted, riskManager.guard(request.account, accepted));
+        } catch (error) {
+          if (error instanceof RiskLimitError) {
+            return reply.code(422).send({
+              error: 'Risk limit exceeded',
+              message: error.message
+            });
+          }
+          throw error;
+        }
+
+        for (const order of accepted) {
+          await orderQueue.addOrder(order);
+        }
+
+        console.log(`Batch of ${accepted.length} orders submitted, ${rejectedCount} rejected`);
+
         reply.code(201).send({
-          orderId: order.id,
-          status: 'pending',
-          message: 'Order submitted successfully',
-          websocketUrl: `/ws/${order.id}`,
-          createdAt: order.createdAt
+          accepted: accepted.length,
+          rejected: rejectedCount,
+          results
         });
 
       } catch (error) {
-        console.error('Error creating order:', error);
+        console.error('Error creating order batch:', error);
+        reply.code(500).send({
+          error: 'Internal server error',
+          message: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+  });
+
+  /**
+   * POST /api/orders/limit
+   * Submit a limit order that rests until the best quote reaches its limit price
+   */
+  fastify.post<{ Body: LimitOrderRequest }>('/api/orders/limit', {
+    schema: limitOrderSchema,
+    handler: async (request: FastifyRequest<{ Body: LimitOrderRequest }>, reply: FastifyReply) => {
+      try {
+        if (await replayIfSubmitted(request, reply, limitOrderResponse)) return;
+
+        const { limitPrice, expiresAt } = request.body;
+
+        const pair = tokenRegistry.resolvePair(request.body.tokenIn, request.body.tokenOut);
+        if (pair.error) {
+          return reply.code(400).send({
+            error: 'Invalid order',
+            message: pair.error
+          });
+        }
+
+        // Held on-chain to the limit price, so a fill after the price moves back cannot fall short of it
+        const base = createOrder(OrderType.LIMIT, OrderStatus.WAITING_TRIGGER, request.account.id, request.body, pair.tokenIn!, pair.tokenOut!);
+        const atLimit = amountOutAtPrice(BigInt(base.amountIn), limitPrice, pair.tokenIn!, pair.tokenOut!);
+        const requested = base.minAmountOut ? BigInt(base.minAmountOut) : BigInt(0);
+        const order: Order = {
+          ...base,
+          minAmountOut: (atLimit > requested ? atLimit : requested).toString(),
+          limitPrice,
+          expiresAt: expiresAt ? new Date(expiresAt) : new Date(Date.now() + DEFAULT_LIMIT_ORDER_TTL_MS),
+          ...idempotencyFields(request)
+        };
+
+        // Validate limit order
+        const validation = executionEngine.validateLimitOrder(order);
+        if (!validation.isValid) {
+          return reply.code(400).send({
+            error: 'Invalid order',
+            message: validation.error
+          });
+        }
+
+        if (await rejectIfNoWallet(request, reply, order)) return;
+        if (await rejectIfOverLimits(request, reply, order)) return;
+
+        // Save order to database; the trigger watcher picks it up from there
+        if (!await saveOrder(request, reply, order, limitOrderResponse)) return;
+
+        console.log(`Limit order ${order.id} submitted at ${limitPrice}`);
+
+        reply.code(201).send(limitOrderResponse(order));
+
+      } catch (error) {
+        console.error('Error creating limit order:', error);
+        reply.code(500).send({
+          error: 'Internal server error',
+          message: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+  });
+
+  /**
+   * POST /api/orders/twap
+   * Submit a TWAP order, executed as market order slices spread evenly over its duration
+   */
+  fastify.post<{ Body: TwapOrderRequest }>('/api/orders/twap', {
+    schema: twapOrderSchema,
+    handler: async (request: FastifyRequest<{ Body: TwapOrderRequest }>, reply: FastifyReply) => {
+      try {
+        if (await replayIfSubmitted(request, reply, twapOrderResponse)) return;
+
+        const { limitPrice, slices, durationSeconds } = request.body;
+
+        const pair = tokenRegistry.resolvePair(request.body.tokenIn, request.body.tokenOut);
+        if (pair.error) {
+          return reply.code(400).send({
+            error: 'Invalid order',
+            message: pair.error
+          });
+        }
+
+        // The order is submitted once its slices are scheduled; it settles with its last slice
+        const base = createOrder(OrderType.TWAP, OrderStatus.SUBMITTED, request.account.id, request.body, pair.tokenIn!, pair.tokenOut!);
+        const order: Order = {
+          ...base,
+          limitPrice,
+          twap: {
+            slices,
+            intervalMs: Math.floor(durationSeconds * 1000 / slices),
+            settledSlices: 0,
+            filledSlices: 0,
+            amountFilled: '0',
+            amountRemaining: base.amountIn,
+            actualAmountOut: 0
+          },
+          ...idempotencyFields(request)
+        };
+
+        // Validate TWAP order
+        const validation = executionEngine.validateTwapOrder(order);
+        if (!validation.isValid) {
+          return reply.code(400).send({
+            error: 'Invalid order',
+            message: validation.error
+          });
+        }
+
+        if (await rejectIfNoWallet(request, reply, order)) return;
+        if (await rejectIfOverLimits(request, reply, order)) return;
+
+        const sliceOrders = createTwapSlices(order, pair.tokenIn!, pair.tokenOut!);
+        if (!await saveOrder(request, reply, order, twapOrderResponse, () => database.createTwapOrder(order, sliceOrders, riskManager.guard(request.account, [order])))) return;
+
+        // Delayed jobs live in Redis, so scheduled slices survive a restart
+        for (const [index, slice] of sliceOrders.entries()) {
+          await orderQueue.addOrder(slice, index * order.twap!.intervalMs);
+        }
+
+        console.log(`TWAP order ${order.id} scheduled in ${slices} slices every ${order.twap!.intervalMs}ms`);
+
+        reply.code(201).send(twapOrderResponse(order));
+
+      } catch (error) {
+        console.error('Error creating TWAP order:', error);
+        reply.code(500).send({
+          error: 'Internal server error',
+          message: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+  });
+
+  /**
+   * POST /api/orders/stop-loss, POST /api/orders/take-profit
+   * Submit an order that sells once the best quote falls to (stop-loss) or
+   * rises to (take-profit) its trigger price
+   */
+  for (const { url, type } of TRIGGER_ORDER_ROUTES) {
+    fastify.post<{ Body: TriggerOrderRequest }>(url, {
+      schema: triggerOrderSchema,
+      handler: async (request: FastifyRequest<{ Body: TriggerOrderRequest }>, reply: FastifyReply) => {
+        try {
+          if (await replayIfSubmitted(request, reply, triggerOrderResponse)) return;
+
+          const { triggerPrice, expiresAt } = request.body;
+
+          const pair = tokenRegistry.resolvePair(request.body.tokenIn, request.body.tokenOut);
+          if (pair.error) {
+            return reply.code(400).send({
+              error: 'Invalid order',
+              message: pair.error
+            });
+          }
+
+          const order: Order = {
+            ...createOrder(type, OrderStatus.WAITING_TRIGGER, request.account.id, request.body, pair.tokenIn!, pair.tokenOut!),
+            triggerPrice,
+            expiresAt: expiresAt ? new Date(expiresAt) : undefined,
+            ...idempotencyFields(request)
+          };
+
+          // Validate trigger order
+          const validation = executionEngine.validateTriggerOrder(order);
+          if (!validation.isValid) {
+            return reply.code(400).send({
+              error: 'Invalid order',
+              message: validation.error
+            });
+          }
+
+          if (await rejectIfNoWallet(request, reply, order)) return;
+          if (await rejectIfOverLimits(request, reply, order)) return;
+
+          // Save order to database; the trigger watcher picks it up from there
+          if (!await saveOrder(request, reply, order, triggerOrderResponse)) return;
+
+          console.log(`${type} order ${order.id} submitted at ${triggerPrice}`);
+
+          reply.code(201).send(triggerOrderResponse(order));
+
+        } catch (error) {
+          console.error(`Error creating ${type} order:`, error);
+          reply.code(500).send({
+            error: 'Internal server error',
+            message: error instanceof Error ? error.message : 'Unknown error'
+          });
+        }
+      }
+    });
+  }
+
+  /**
+   * POST /api/orders/oco
+   * Submit a stop-loss and a take-profit on the same amount; when one fires the other is cancelled
+   */
+  fastify.post<{ Body: OcoOrderRequest }>('/api/orders/oco', {
+    schema: ocoOrderSchema,
+    handler: async (request: FastifyRequest<{ Body: OcoOrderRequest }>, reply: FastifyReply) => {
+      // Replays are answered from the stop-loss, which carries the idempotency key
+      const replayOcoOrder = async (stopLoss: Order) => ocoOrderResponse(stopLoss, (await database.getOrder(stopLoss.ocoOrderId!))!);
+
+      try {
+        if (await replayIfSubmitted(request, reply, replayOcoOrder)) return;
+
+        const { stopLossPrice, takeProfitPrice, expiresAt } = request.body;
+
+        const pair = tokenRegistry.resolvePair(request.body.tokenIn, request.body.tokenOut);
+        if (pair.error) {
+          return reply.code(400).send({
+            error: 'Invalid order',
+            message: pair.error
+          });
+        }
+
+        const stopLossId = uuidv4();
+        const takeProfitId = uuidv4();
+        const linkedOrder = (type: OrderType, id: string, triggerPrice: number, ocoOrderId: string): Order => ({
+          ...createOrder(type, OrderStatus.WAITING_TRIGGER, request.account.id, request.body, pair.tokenIn!, pair.tokenOut!),
+          id,
+          triggerPrice,
+          ocoOrderId,
+          expiresAt: expiresAt ? new Date(expiresAt) : undefined
+        });
+
+        const stopLoss: Order = {
+          ...linkedOrder(OrderType.STOP_LOSS, stopLossId, stopLossPrice, takeProfitId),
+          ...idempotencyFields(request)
+        };
+        const takeProfit = linkedOrder(OrderType.TAKE_PROFIT, takeProfitId, takeProfitPrice, stopLossId);
+
+        // Validate OCO orders
+        const validation = executionEngine.validateOcoOrders(stopLoss, takeProfit);
+        if (!validation.isValid) {
+          return reply.code(400).send({
+            error: 'Invalid order',
+            message: validation.error
+          });
+        }
+
+        // Only one order of the pair can fire, so the stop-loss is checked for both
+        if (await rejectIfNoWallet(request, reply, stopLoss)) return;
+        if (await rejectIfOverLimits(request, reply, stopLoss)) return;
+
+        if (!await saveOrder(request, reply, stopLoss, replayOcoOrder, () => database.createOcoOrders(stopLoss, takeProfit, riskManager.guard(request.account, [stopLoss])))) return;
+
+        console.log(`OCO orders ${stopLoss.id} and ${takeProfit.id} submitted at ${stopLossPrice} and ${takeProfitPrice}`);
+
+        reply.code(201).send(ocoOrderResponse(stopLoss, takeProfit));
+
+      } catch (error) {
+        console.error('Error creating OCO order:', error);
+        reply.code(500).send({
+          error: 'Internal server error',
+          message: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+  });
+
+  /**
+   * POST /api/orders/sniper
+   * Arm a sniper order that fires when a pool for the target token goes live
+   */
+  fastify.post<{ Body: SniperOrderRequest }>('/api/orders/sniper', {
+    schema: sniperOrderSchema,
+    handler: async (request: FastifyRequest<{ Body: SniperOrderRequest }>, reply: FastifyReply) => {
+      try {
+        if (await replayIfSubmitted(request, reply, sniperOrderResponse)) return;
+
+        const { tokenIn, targetMint, amountIn, maxPrice, slippageBps, expiresAt, strategy, submissionMode } = request.body;
+        const inputToken = tokenRegistry.resolve(tokenIn);
+
+        if (!inputToken) {
+          return reply.code(400).send({
+            error: 'Invalid order',
+            message: `Unsupported token: ${tokenIn}`
+          });
+        }
+
+        // The target token is not listed and no pool serves it yet, so it is
+        // identified by its mint and the pair check is left to the detector
+        const order: Order = {
+          id: uuidv4(),
+          type: OrderType.SNIPER,
+          tokenIn: inputToken.symbol,
+          tokenOut: targetMint,
+          tokenInMint: inputToken.mint,
+          tokenOutMint: targetMint,
+          amountIn: ethers.parseUnits(amountIn.toString(), inputToken.decimals).toString(),
+          slippageBps: slippageBps ?? DEFAULT_SLIPPAGE_BPS,
+          status: OrderStatus.WAITING_TRIGGER,
+          accountId: request.account.id,
+          strategy,
+          submissionMode,
+          retryCount: 0,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+          maxPrice,
+          expiresAt: expiresAt ? new Date(expiresAt) : undefined,
+          ...idempotencyFields(request)
+        };
+
+        // Validate sniper order
+        const validation = executionEngine.validateSniperOrder(order);
+        if (!validation.isValid) {
+          return reply.code(400).send({
+            error: 'Invalid order',
+            message: validation.error
+          });
+        }
+
+        if (await rejectIfNoWallet(request, reply, order)) return;
+        if (await rejectIfOverLimits(request, reply, order)) return;
+
+        // Save order to database; the sniper detector picks it up from there
+        if (!await saveOrder(request, reply, order, sniperOrderResponse)) return;
+
+        console.log(`Sniper order ${order.id} armed for ${targetMint}`);
+
+        reply.code(201).send(sniperOrderResponse(order));
+
+      } catch (error) {
+        console.error('Error creating sniper order:', error);
+        reply.code(500).send({
+          error: 'Internal server error',
+          message: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+  });
+
+  /**
+   * GET /api/orders
+   * List orders matching the filters, one page at a time
+   */
+  fastify.get<{ Querystring: OrderListQuery }>('/api/orders', {
+    schema: listOrdersSchema,
+    handler: async (request: FastifyRequest<{ Querystring: OrderListQuery }>, reply: FastifyReply) => {
+      try {
+        const { status, type, tokenIn, tokenOut, dex, scheduleId, createdFrom, createdTo, cursor } = request.query;
+        const sortBy = request.query.sortBy ?? 'createdAt';
+        const limit = request.query.limit ?? 50;
+
+        const statuses = status?.split(',').map(value => value.trim()) as OrderStatus[] | undefined;
+        const unknownStatus = statuses?.find(value => !Object.values(OrderStatus).includes(value));
+        if (unknownStatus !== undefined) {
+          return reply.code(400).send({
+            error: 'Invalid query',
+            message: `Unknown status: ${unknownStatus}`
+          });
+        }
+
+        const after = cursor ? decodeCursor(cursor, sortBy) : undefined;
+        if (after === null) {
+          return reply.code(400).send({
+            error: 'Invalid query',
+            message: `Cursor is invalid or was not issued for sortBy=${sortBy}`
+          });
+        }
+
+        // Listed tokens filter by symbol or mint; unlisted ones (sniper targets) by mint
+        const { orders, hasMore } = await database.listOrders({
+          accountId: request.account.id,
+          statuses,
+          type,
+          tokenInMint: tokenIn ? tokenRegistry.resolve(tokenIn)?.mint ?? tokenIn : undefined,
+          tokenOutMint: tokenOut ? tokenRegistry.resolve(tokenOut)?.mint ?? tokenOut : undefined,
+          dex,
+          scheduleId,
+          createdFrom: createdFrom ? new Date(createdFrom) : undefined,
+          createdTo: createdTo ? new Date(createdTo) : undefined,
+          sortBy,
+          sortDirection: request.query.order ?? 'desc',
+          limit,
+          after
+        });
+
+        reply.send({
+          orders,
+          nextCursor: hasMore ? encodeCursor(sortBy, orders[orders.length - 1]) : null
+        });
+
+      } catch (error) {
+        console.error('Error listing orders:', error);
         reply.code(500).send({
           error: 'Internal server error',
           message: error instanceof Error ? error.message : 'Unknown error'
@@ -91,7 +1031,7 @@ export async function orderRoutes(
       try {
         const { orderId } = request.params;
 
-        const order = await database.getOrder(orderId);
+        const order = await findOwnedOrder(request, orderId);
         if (!order) {
           return reply.code(404).send({
             error: 'Order not found',
@@ -113,4 +1053,115 @@ export async function orderRoutes(
       }
     }
   });
+
+  /**
+   * GET /api/orders/:orderId/events
+   * Get the order's status history, oldest first
+   */
+  fastify.get<{ Params: { orderId: string } }>('/api/orders/:orderId/events', {
+    handler: async (request: FastifyRequest<{ Params: { orderId: string } }>, reply: FastifyReply) => {
+      try {
+        const { orderId } = request.params;
+
+        const order = await findOwnedOrder(request, orderId);
+        if (!order) {
+          return reply.code(404).send({
+            error: 'Order not found',
+            message: `Order ${orderId} does not exist`
+          });
+        }
+
+        const events = await database.getOrderEvents(orderId);
+
+        reply.send({
+          orderId,
+          status: order.status,
+          events
+        });
+
+      } catch (error) {
+        console.error(`Error fetching events for order ${request.params.orderId}:`, error);
+        reply.code(500).send({
+          error: 'Internal server error',
+          message: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+  });
+
+  /**
+   * DELETE /api/orders/:orderId
+   * Cancel an order that has not been submitted to the network yet, together
+   * with the other order of its OCO pair. Cancelling a TWAP order cancels its
+   * slices that have not been submitted yet.
+   */
+  fastify.delete<{ Params: { orderId: string } }>('/api/orders/:orderId', {
+    handler: async (request: FastifyRequest<{ Params: { orderId: string } }>, reply: FastifyReply) => {
+      const { orderId } = request.params;
+
+      try {
+        const order = await findOwnedOrder(request, orderId);
+        if (!order) {
+          return reply.code(404).send({
+            error: 'Order not found',
+            message: `Order ${orderId} does not exist`
+          });
+        }
+
+        // A TWAP order only settles once all of its slices have
+        if (order.parentOrderId) {
+          return reply.code(409).send({
+            error: 'Order cannot be cancelled',
+            message: `Order ${orderId} is a slice of TWAP order ${order.parentOrderId}`
+          });
+        }
+
+        if (order.type === OrderType.TWAP && order.status === OrderStatus.SUBMITTED) {
+          const cancelledSlices = await executionEngine.cancelTwapOrder(order);
+          const updated = await database.getOrder(orderId);
+
+          console.log(`TWAP order ${orderId}: ${cancelledSlices} slices cancelled`);
+
+          return reply.send({
+            orderId,
+            status: updated?.status ?? order.status,
+            cancelledSlices,
+            message: 'Remaining slices cancelled'
+          });
+        }
+
+        if (!canTransition(order.status, OrderStatus.CANCELLED)) {
+          return reply.code(409).send({
+            error: 'Order cannot be cancelled',
+            message: `Order ${orderId} is ${order.status}`
+          });
+        }
+
+        await executionEngine.cancelOrder(order);
+
+        console.log(`Order ${orderId} cancelled`);
+
+        reply.send({
+          orderId,
+          status: OrderStatus.CANCELLED,
+          message: 'Order cancelled successfully'
+        });
+
+      } catch (error) {
+        // Execution moved the order on between the check above and the cancel
+        if (error instanceof InvalidTransitionError) {
+          return reply.code(409).send({
+            error: 'Order cannot be cancelled',
+            message: `Order ${orderId} is ${error.from}`
+          });
+        }
+
+        console.error(`Error cancelling order ${orderId}:`, error);
+        reply.code(500).send({
+          error: 'Internal server error',
+          message: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+  });
 }
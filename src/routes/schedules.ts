@@ -0,0 +1,296 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { v4 as uuidv4 } from 'uuid';
+import { ethers } from 'ethers';
+import { Schedule, ScheduleRequest, ScheduleStatus } from '../types';
+import { Database } from '../database/connection';
+import { createScheduleSchema } from '../models/schema';
+import { DEFAULT_SLIPPAGE_BPS } from '../services/dexRouter';
+import { DcaScheduler } from '../services/dcaScheduler';
+import { TokenRegistry } from '../services/tokenRegistry';
+import { WalletManager, DEFAULT_STRATEGY } from '../services/walletManager';
+
+interface ScheduleRouteContext {
+  database: Database;
+  dcaScheduler: DcaScheduler;
+  tokenRegistry: TokenRegistry;
+  walletManager: WalletManager;
+}
+
+type ScheduleParams = { Params: { scheduleId: string } };
+
+// Schedule changes: the statuses each may start from, and the status it leads to
+const SCHEDULE_ACTIONS = {
+  pause: { from: [ScheduleStatus.ACTIVE], to: ScheduleStatus.PAUSED, done: 'paused' },
+  resume: { from: [ScheduleStatus.PAUSED], to: ScheduleStatus.ACTIVE, done: 'resumed' },
+  delete: { from: [ScheduleStatus.ACTIVE, ScheduleStatus.PAUSED], to: ScheduleStatus.CANCELLED, done: 'deleted' }
+};
+
+// Amounts are tokenIn base units, like those of the orders the schedule places
+function scheduleResponse(schedule: Schedule, amountSpent?: string) {
+  return {
+    scheduleId: schedule.id,
+    status: schedule.status,
+    tokenIn: schedule.tokenIn,
+    tokenOut: schedule.tokenOut,
+    amountIn: schedule.amountIn,
+    totalAmount: schedule.totalAmount,
+    amountSpent,
+    intervalMs: schedule.intervalMs,
+    orderCount: schedule.orderCount,
+    skippedTicks: schedule.skippedTicks,
+    lastTickAt: schedule.lastTickAt,
+    lastError: schedule.lastError,
+    createdAt: schedule.createdAt
+  };
+}
+
+export async function scheduleRoutes(
+  fastify: FastifyInstance,
+  context: ScheduleRouteContext
+): Promise<void> {
+  const { database, dcaScheduler, tokenRegistry, walletManager } = context;
+
+  // The schedule, when it belongs to the calling account; others' schedules are reported as missing
+  const findOwnedSchedule = async (request: FastifyRequest, scheduleId: string): Promise<Schedule | null> => {
+    const schedule = await database.getSchedule(scheduleId);
+    return schedule && schedule.accountId === request.account.id ? schedule : null;
+  };
+
+  /**
+   * Move an owned schedule from one of `from` to `to`, replying 404 or 409 when
+   * it cannot. Returns the schedule as it was, or null when a reply was sent.
+   */
+  const changeStatus = async (
+    request: FastifyRequest<ScheduleParams>,
+    reply: FastifyReply,
+    action: keyof typeof SCHEDULE_ACTIONS
+  ): Promise<Schedule | null> => {
+    const { scheduleId } = request.params;
+    const { from, to, done } = SCHEDULE_ACTIONS[action];
+
+    const schedule = await findOwnedSchedule(request, scheduleId);
+    if (!schedule) {
+      reply.code(404).send({
+        error: 'Schedule not found',
+        message: `Schedule ${scheduleId} does not exist`
+      });
+      return null;
+    }
+
+    // Conditional, so a tick completing the schedule meanwhile is not overwritten
+    if (!from.includes(schedule.status) || !await database.updateScheduleStatus(scheduleId, to, from)) {
+      const current = (await database.getSchedule(scheduleId))?.status ?? schedule.status;
+      reply.code(409).send({
+        error: `Schedule cannot be ${done}`,
+        message: `Schedule ${scheduleId} is ${current}`
+      });
+      return null;
+    }
+
+    return schedule;
+  };
+
+  /**
+   * POST /api/schedules
+   * Create a DCA schedule placing a market order every interval, until its budget is spent
+   */
+  fastify.post<{ Body: ScheduleRequest }>('/api/schedules', {
+    schema: createScheduleSchema,
+    handler: async (request: FastifyRequest<{ Body: ScheduleRequest }>, reply: FastifyReply) => {
+      try {
+        const { amountIn, totalAmount, intervalSeconds, slippageBps, strategy, submissionMode } = request.body;
+
+        const pair = tokenRegistry.resolvePair(request.body.tokenIn, request.body.tokenOut);
+        if (pair.error) {
+          return reply.code(400).send({
+            error: 'Invalid schedule',
+            message: pair.error
+          });
+        }
+
+        const { decimals } = pair.tokenIn!;
+        const schedule: Schedule = {
+          id: uuidv4(),
+          accountId: request.account.id,
+          tokenIn: pair.tokenIn!.symbol,
+          tokenOut: pair.tokenOut!.symbol,
+          tokenInMint: pair.tokenIn!.mint,
+          tokenOutMint: pair.tokenOut!.mint,
+          amountIn: ethers.parseUnits(amountIn.toString(), decimals).toString(),
+          totalAmount: totalAmount !== undefined ? ethers.parseUnits(totalAmount.toString(), decimals).toString() : undefined,
+          intervalMs: intervalSeconds * 1000,
+          slippageBps: slippageBps ?? DEFAULT_SLIPPAGE_BPS,
+          strategy,
+          submissionMode,
+          status: ScheduleStatus.ACTIVE,
+          orderCount: 0,
+          skippedTicks: 0,
+          createdAt: new Date(),
+          updatedAt: new Date()
+        };
+
+        if (schedule.totalAmount !== undefined && BigInt(schedule.totalAmount) < BigInt(schedule.amountIn)) {
+          return reply.code(400).send({
+            error: 'Invalid schedule',
+            message: 'Total amount must be at least the amount per order'
+          });
+        }
+
+        if (strategy && strategy !== DEFAULT_STRATEGY && !await walletManager.getWallet(request.account.id, strategy)) {
+          return reply.code(400).send({
+            error: 'Invalid schedule',
+            message: `No wallet for strategy ${strategy}`
+          });
+        }
+
+        await database.createSchedule(schedule);
+        await dcaScheduler.start(schedule);
+
+        console.log(`Schedule ${schedule.id} created: ${amountIn} ${schedule.tokenIn} into ${schedule.tokenOut} every ${intervalSeconds}s`);
+
+        reply.code(201).send(scheduleResponse(schedule, '0'));
+
+      } catch (error) {
+        console.error('Error creating schedule:', error);
+        reply.code(500).send({
+          error: 'Internal server error',
+          message: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+  });
+
+  /**
+   * GET /api/schedules
+   * List the account's schedules
+   */
+  fastify.get('/api/schedules', {
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const schedules = await database.getSchedules(request.account.id);
+
+        reply.send({ schedules: schedules.map(schedule => scheduleResponse(schedule)) });
+
+      } catch (error) {
+        console.error('Error listing schedules:', error);
+        reply.code(500).send({
+          error: 'Internal server error',
+          message: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+  });
+
+  /**
+   * GET /api/schedules/:scheduleId
+   * Get a schedule with the amount its orders have spent so far
+   */
+  fastify.get<ScheduleParams>('/api/schedules/:scheduleId', {
+    handler: async (request: FastifyRequest<ScheduleParams>, reply: FastifyReply) => {
+      const { scheduleId } = request.params;
+
+      try {
+        const schedule = await findOwnedSchedule(request, scheduleId);
+        if (!schedule) {
+          return reply.code(404).send({
+            error: 'Schedule not found',
+            message: `Schedule ${scheduleId} does not exist`
+          });
+        }
+
+        reply.send(scheduleResponse(schedule, await database.getScheduleSpent(scheduleId)));
+
+      } catch (error) {
+        console.error(`Error fetching schedule ${scheduleId}:`, error);
+        reply.code(500).send({
+          error: 'Internal server error',
+          message: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+  });
+
+  /**
+   * POST /api/schedules/:scheduleId/pause
+   * Stop placing orders until the schedule is resumed
+   */
+  fastify.post<ScheduleParams>('/api/schedules/:scheduleId/pause', {
+    handler: async (request: FastifyRequest<ScheduleParams>, reply: FastifyReply) => {
+      const { scheduleId } = request.params;
+
+      try {
+        const schedule = await changeStatus(request, reply, 'pause');
+        if (!schedule) return;
+
+        await dcaScheduler.stop(scheduleId);
+
+        reply.send(scheduleResponse({ ...schedule, status: ScheduleStatus.PAUSED }));
+
+      } catch (error) {
+        console.error(`Error pausing schedule ${scheduleId}:`, error);
+        reply.code(500).send({
+          error: 'Internal server error',
+          message: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+  });
+
+  /**
+   * POST /api/schedules/:scheduleId/resume
+   * Resume a paused schedule; its next order is placed right away
+   */
+  fastify.post<ScheduleParams>('/api/schedules/:scheduleId/resume', {
+    handler: async (request: FastifyRequest<ScheduleParams>, reply: FastifyReply) => {
+      const { scheduleId } = request.params;
+
+      try {
+        const schedule = await changeStatus(request, reply, 'resume');
+        if (!schedule) return;
+
+        await dcaScheduler.start(schedule);
+
+        reply.send(scheduleResponse({ ...schedule, status: ScheduleStatus.ACTIVE }));
+
+      } catch (error) {
+        console.error(`Error resuming schedule ${scheduleId}:`, error);
+        reply.code(500).send({
+          error: 'Internal server error',
+          message: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+  });
+
+  /**
+   * DELETE /api/schedules/:scheduleId
+   * Cancel a schedule for good. Orders it already placed are kept and run to completion.
+   */
+  fastify.delete<ScheduleParams>('/api/schedules/:scheduleId', {
+    handler: async (request: FastifyRequest<ScheduleParams>, reply: FastifyReply) => {
+      const { scheduleId } = request.params;
+
+      try {
+        const schedule = await changeStatus(request, reply, 'delete');
+        if (!schedule) return;
+
+        await dcaScheduler.stop(scheduleId);
+
+        console.log(`Schedule ${scheduleId} cancelled`);
+
+        reply.send({
+          scheduleId,
+          status: ScheduleStatus.CANCELLED,
+          message: 'Schedule cancelled successfully'
+        });
+
+      } catch (error) {
+        console.error(`Error deleting schedule ${scheduleId}:`, error);
+        reply.code(500).send({
+          error: 'Internal server error',
+          message: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+  });
+}
@@ -0,0 +1,114 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { PublicKey } from '@solana/web3.js';
+import { Wallet } from '../types';
+import { WalletExistsError } from '../database/connection';
+import { WalletManager, DEFAULT_STRATEGY } from '../services/walletManager';
+import { createWalletSchema } from '../models/schema';
+
+interface WalletRouteContext {
+  walletManager: WalletManager;
+}
+
+interface CreateWalletBody {
+  strategy?: string;
+  publicKey?: string; // with remoteSigner, a wallet whose key is held by that configured signing service
+  remoteSigner?: string;
+}
+
+function isPublicKey(value: string): boolean {
+  try {
+    new PublicKey(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Wallets as clients see them; the encrypted key never leaves the server
+function walletResponse(wallet: Wallet) {
+  return {
+    walletId: wallet.id,
+    strategy: wallet.strategy,
+    publicKey: wallet.publicKey,
+    ...(wallet.remoteSigner ? { remoteSigner: wallet.remoteSigner } : {}),
+    createdAt: wallet.createdAt
+  };
+}
+
+export async function walletRoutes(
+  fastify: FastifyInstance,
+  context: WalletRouteContext
+): Promise<void> {
+  const { walletManager } = context;
+
+  /**
+   * POST /api/wallets
+   * Create a signing wallet for the account, or for one of its strategies,
+   * or add one signed by a remote signing service
+   */
+  fastify.post<{ Body: CreateWalletBody }>('/api/wallets', {
+    schema: createWalletSchema,
+    handler: async (request: FastifyRequest<{ Body: CreateWalletBody }>, reply: FastifyReply) => {
+      const { publicKey, remoteSigner } = request.body ?? {};
+      const strategy = request.body?.strategy ?? DEFAULT_STRATEGY;
+
+      if (publicKey && !isPublicKey(publicKey)) {
+        return reply.code(400).send({
+          error: 'Invalid wallet',
+          message: `${publicKey} is not a Solana public key`
+        });
+      }
+
+      // Only signing services the operator configured are reachable, never a URL of the account's choosing
+      if (remoteSigner && !walletManager.hasRemoteSigner(remoteSigner)) {
+        return reply.code(400).send({
+          error: 'Invalid wallet',
+          message: `Unknown remote signer ${remoteSigner}`
+        });
+      }
+
+      try {
+        const wallet = publicKey && remoteSigner
+          ? await walletManager.createRemoteWallet(request.account.id, strategy, publicKey, remoteSigner)
+          : await walletManager.createWallet(request.account.id, strategy);
+
+        reply.code(201).send(walletResponse(wallet));
+
+      } catch (error) {
+        if (error instanceof WalletExistsError) {
+          return reply.code(409).send({
+            error: 'Wallet already exists',
+            message: `A wallet for strategy ${strategy} already exists`
+          });
+        }
+
+        console.error('Error creating wallet:', error);
+        reply.code(500).send({
+          error: 'Internal server error',
+          message: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+  });
+
+  /**
+   * GET /api/wallets
+   * List the account's wallets
+   */
+  fastify.get('/api/wallets', {
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const wallets = await walletManager.getWallets(request.account.id);
+
+        reply.send({ wallets: wallets.map(walletResponse) });
+
+      } catch (error) {
+        console.error('Error listing wallets:', error);
+        reply.code(500).send({
+          error: 'Internal server error',
+          message: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+  });
+}
@@ -0,0 +1,114 @@
+import { createHash } from 'crypto';
+import { PublicKey, Transaction } from '@solana/web3.js';
+import { AmmImpl } from '@meteora-ag/dynamic-amm-sdk';
+import BN from 'bn.js';
+import { BuiltSwap, DexAdapter, DexHealth, DexQuoter, PoolConfig, SentTransaction, SwapSimulation, TokenInfo, TradingWallet } from '../../types';
+import { SolanaConnectionManager } from '../solanaConnection';
+import { buildQuote, probeHealth, sendSwap, simulateSwap } from './swapHelpers';
+
+// Anchor `Swap` event: 8-byte discriminator, then in_amount and out_amount as u64
+const SWAP_EVENT_DISCRIMINATOR = createHash('sha256').update('event:Swap').digest().subarray(0, 8);
+const SWAP_EVENT_OUT_AMOUNT_OFFSET = 16;
+
+/**
+ * Output of a dynamic AMM swap from the `Swap` event the program emits
+ */
+function readSwapEventAmountOut(logs: string[]): string | undefined {
+  for (const line of logs) {
+    const match = line.match(/^Program data: (.+)$/);
+    if (!match) continue;
+
+    const event = Buffer.from(match[1], 'base64');
+    if (event.subarray(0, 8).equals(SWAP_EVENT_DISCRIMINATOR) && event.length >= SWAP_EVENT_OUT_AMOUNT_OFFSET + 8) {
+      return event.readBigUInt64LE(SWAP_EVENT_OUT_AMOUNT_OFFSET).toString();
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Meteora dynamic AMM venue
+ */
+export class MeteoraAdapter implements DexAdapter {
+  readonly name = 'meteora';
+  private solanaManager: SolanaConnectionManager;
+  private pools: Map<string, AmmImpl> = new Map(); // SDK instance per pool address
+
+  constructor(solanaManager: SolanaConnectionManager) {
+    this.solanaManager = solanaManager;
+  }
+
+  /**
+   * The Meteora SDK is bound to a single pool, so pools are loaded on first use
+   */
+  async initialize(): Promise<void> {
+    console.log('Meteora adapter initialized');
+  }
+
+  /**
+   * Refresh pool state once and return a quoter that prices any input size against it
+   */
+  async loadQuoter(pool: PoolConfig, tokenIn: TokenInfo, tokenOut: TokenInfo): Promise<DexQuoter> {
+    const meteora = await this.getPool(pool);
+
+    // Refresh reserves; the pool state is otherwise only read when the pool is loaded
+    await meteora.updateState();
+
+    return (amountIn: string) => {
+      const quote = meteora.getSwapQuote(new PublicKey(tokenIn.mint), new BN(amountIn), 0);
+
+      return {
+        ...buildQuote(this.name, tokenIn, tokenOut, amountIn, quote.swapOutAmount, quote.fee, quote.priceImpact.toNumber()),
+        poolAddress: pool.address,
+      };
+    };
+  }
+
+  async buildSwap(
+    pool: PoolConfig,
+    tokenIn: TokenInfo,
+    tokenOut: TokenInfo,
+    amountIn: string,
+    minAmountOut: string,
+    wallet: TradingWallet
+  ): Promise<BuiltSwap> {
+    const meteora = await this.getPool(pool);
+    const sdkTransaction = await meteora.swap(
+      wallet.signer.publicKey,
+      new PublicKey(tokenIn.mint),
+      new BN(amountIn),
+      new BN(minAmountOut)
+    );
+
+    // The SDK bundles its own web3.js; rebuild the transaction with ours
+    const transaction = Transaction.from(sdkTransaction.serialize({ requireAllSignatures: false, verifySignatures: false }));
+
+    return { dex: this.name, transaction, signers: [], amountIn, minAmountOut };
+  }
+
+  async simulateSwap(swap: BuiltSwap): Promise<SwapSimulation> {
+    return await simulateSwap(this.solanaManager.connection, swap, readSwapEventAmountOut);
+  }
+
+  async executeSwap(swap: BuiltSwap, wallet: TradingWallet): Promise<SentTransaction> {
+    return await sendSwap(this.solanaManager.connection, swap, wallet);
+  }
+
+  async checkHealth(pool: PoolConfig): Promise<DexHealth> {
+    return await probeHealth(this.name, async () => (await this.getPool(pool)).updateState());
+  }
+
+  private async getPool(pool: PoolConfig): Promise<AmmImpl> {
+    let meteora = this.pools.get(pool.address);
+
+    if (!meteora) {
+      meteora = await AmmImpl.create(
+        this.solanaManager.connection as any, // Type assertion to handle compatibility
+        new PublicKey(pool.address)
+      );
+      this.pools.set(pool.address, meteora);
+    }
+
+    return meteora;
+  }
+}
@@ -0,0 +1,156 @@
+import { ApiV3PoolInfoStandardItem, Raydium, TxVersion } from '@raydium-io/raydium-sdk-v2';
+import BN from 'bn.js';
+import { BuiltSwap, DexAdapter, DexHealth, DexQuoter, PoolConfig, SentTransaction, SwapSimulation, TokenInfo, TradingWallet } from '../../types';
+import { SolanaConnectionManager } from '../solanaConnection';
+import { buildQuote, probeHealth, sendSwap, simulateSwap } from './swapHelpers';
+
+// ray_log entry of a fixed-input swap: log type 3, then six u64 fields before out_amount
+const SWAP_BASE_IN_LOG = 3;
+const SWAP_BASE_IN_OUT_AMOUNT_OFFSET = 49;
+
+/**
+ * Output of an AMM v4 swap from the `ray_log` the program writes for it
+ */
+function readRayLogAmountOut(logs: string[]): string | undefined {
+  for (const line of logs) {
+    const match = line.match(/^Program log: ray_log: (.+)$/);
+    if (!match) continue;
+
+    const log = Buffer.from(match[1], 'base64');
+    if (log[0] === SWAP_BASE_IN_LOG && log.length >= SWAP_BASE_IN_OUT_AMOUNT_OFFSET + 8) {
+      return log.readBigUInt64LE(SWAP_BASE_IN_OUT_AMOUNT_OFFSET).toString();
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Raydium AMM v4 venue
+ */
+export class RaydiumAdapter implements DexAdapter {
+  readonly name = 'raydium';
+  private solanaManager: SolanaConnectionManager;
+  private raydium: Raydium | null = null;
+  private walletSdks: Map<string, Raydium> = new Map(); // SDK instance per signing wallet, for building swaps
+
+  constructor(solanaManager: SolanaConnectionManager) {
+    this.solanaManager = solanaManager;
+  }
+
+  async initialize(): Promise<void> {
+    if (this.raydium) return;
+
+    this.raydium = await Raydium.load({
+      owner: this.solanaManager.signer.publicKey,
+      connection: this.solanaManager.connection,
+      cluster: 'mainnet',
+      blockhashCommitment: 'finalized',
+      disableFeatureCheck: true,
+    });
+
+    this.raydium.account.updateTokenAccount(await this.solanaManager.fetchTokenAccountData());
+
+    console.log('Raydium SDK initialized');
+  }
+
+  /**
+   * Fetch pool reserves once and return a quoter that prices any input size against them
+   */
+  async loadQuoter(pool: PoolConfig, tokenIn: TokenInfo, tokenOut: TokenInfo): Promise<DexQuoter> {
+    const raydium = this.getSdk();
+
+    // Get RPC data for more accurate calculations
+    const data = await raydium.api.fetchPoolById({ ids: pool.address });
+    const poolInfo = data[0] as ApiV3PoolInfoStandardItem;
+    const rpcData = await raydium.liquidity.getRpcPoolInfo(pool.address);
+
+    return (amountIn: string) => {
+      const out = raydium.liquidity.computeAmountOut({
+        poolInfo: {
+          ...poolInfo,
+          baseReserve: rpcData.baseReserve,
+          quoteReserve: rpcData.quoteReserve,
+          status: rpcData.status.toNumber(),
+          version: 4,
+        },
+        amountIn: new BN(amountIn),
+        mintIn: tokenIn.mint,
+        mintOut: tokenOut.mint,
+        slippage: 0,
+      });
+
+      return {
+        ...buildQuote(this.name, tokenIn, tokenOut, amountIn, out.amountOut, out.fee, out.priceImpact.toNumber()),
+        poolAddress: pool.address,
+      };
+    };
+  }
+
+  async buildSwap(
+    pool: PoolConfig,
+    tokenIn: TokenInfo,
+    tokenOut: TokenInfo,
+    amountIn: string,
+    minAmountOut: string,
+    wallet: TradingWallet
+  ): Promise<BuiltSwap> {
+    const raydium = await this.getWalletSdk(wallet);
+
+    const data = await raydium.api.fetchPoolById({ ids: pool.address });
+    const poolInfo = data[0] as ApiV3PoolInfoStandardItem;
+    const poolKeys = await raydium.liquidity.getAmmPoolKeys(pool.address);
+
+    const { transaction, signers } = await raydium.liquidity.swap({
+      poolInfo,
+      poolKeys,
+      amountIn: new BN(amountIn),
+      amountOut: new BN(minAmountOut), // enforced on-chain as the minimum received
+      fixedSide: 'in',
+      inputMint: tokenIn.mint,
+      txVersion: TxVersion.V0,
+    });
+
+    return { dex: this.name, transaction, signers, amountIn, minAmountOut };
+  }
+
+  async simulateSwap(swap: BuiltSwap): Promise<SwapSimulation> {
+    return await simulateSwap(this.solanaManager.connection, swap, readRayLogAmountOut);
+  }
+
+  async executeSwap(swap: BuiltSwap, wallet: TradingWallet): Promise<SentTransaction> {
+    return await sendSwap(this.solanaManager.connection, swap, wallet);
+  }
+
+  async checkHealth(pool: PoolConfig): Promise<DexHealth> {
+    return await probeHealth(this.name, () => this.getSdk().liquidity.getRpcPoolInfo(pool.address));
+  }
+
+  /**
+   * SDK instance owned by the wallet, so swaps use that wallet's token accounts.
+   * Token accounts change with every swap, so they are read again for each build.
+   */
+  private async getWalletSdk(wallet: TradingWallet): Promise<Raydium> {
+    let raydium = this.walletSdks.get(wallet.id);
+
+    if (!raydium) {
+      raydium = await Raydium.load({
+        owner: wallet.signer.publicKey, // builds only; signing goes through the wallet's signer
+        connection: this.solanaManager.connection,
+        cluster: 'mainnet',
+        blockhashCommitment: 'finalized',
+        disableFeatureCheck: true,
+      });
+      this.walletSdks.set(wallet.id, raydium);
+    }
+
+    raydium.account.updateTokenAccount(await this.solanaManager.fetchTokenAccountData(wallet.signer.publicKey));
+    return raydium;
+  }
+
+  private getSdk(): Raydium {
+    if (!this.raydium) {
+      throw new Error('Raydium SDK not initialized');
+    }
+    return this.raydium;
+  }
+}
@@ -0,0 +1,148 @@
+import { Connection, Transaction, TransactionError, VersionedTransaction } from '@solana/web3.js';
+import BN from 'bn.js';
+import { ethers } from 'ethers';
+import { BuiltSwap, DexHealth, DexQuote, SentTransaction, SwapSimulation, TokenInfo, TradingWallet } from '../../types';
+
+/**
+ * Normalize an SDK quote into a DexQuote, with price as tokenOut per tokenIn for this size
+ */
+export function buildQuote(
+  dex: string,
+  tokenIn: TokenInfo,
+  tokenOut: TokenInfo,
+  amountIn: string,
+  amountOut: BN,
+  fee: BN,
+  priceImpact: number
+): DexQuote {
+  const effectivePrice = parseFloat(ethers.formatUnits(amountOut.toString(), tokenOut.decimals)) /
+    parseFloat(ethers.formatUnits(amountIn, tokenIn.decimals));
+
+  return {
+    dex,
+    price: effectivePrice,
+    amountOut: amountOut.toString(),
+    priceImpact,
+    feeAmount: fee.toString(),
+  };
+}
+
+/**
+ * Sign a built swap with any venue signers plus the order's wallet and send it.
+ * The swap is stamped with a fresh blockhash on every send, so swaps queued behind
+ * another on the same wallet, and resubmissions after an expired blockhash, do not
+ * go out with a stale one. Confirmation is left to the ConfirmationTracker.
+ */
+export async function sendSwap(connection: Connection, swap: BuiltSwap, wallet: TradingWallet): Promise<SentTransaction> {
+  const { transaction, lastValidBlockHeight } = await signSwap(connection, swap, wallet);
+
+  const signature = await connection.sendRawTransaction(transaction.serialize());
+
+  console.log('Swap transaction sent: https://solscan.io/tx/' + signature);
+  return { signature, lastValidBlockHeight };
+}
+
+/**
+ * Stamp a built swap with a fresh blockhash and sign it with any venue signers plus the order's wallet
+ */
+export async function signSwap(
+  connection: Connection,
+  swap: BuiltSwap,
+  wallet: TradingWallet
+): Promise<{ transaction: Transaction | VersionedTransaction; blockhash: string; lastValidBlockHeight: number }> {
+  const transaction = swap.transaction;
+  const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash('confirmed');
+
+  if (transaction instanceof VersionedTransaction) {
+    transaction.message.recentBlockhash = blockhash;
+    transaction.sign(swap.signers);
+  } else {
+    transaction.recentBlockhash = blockhash;
+    if (swap.signers.length > 0) {
+      transaction.partialSign(...swap.signers);
+    }
+  }
+
+  await wallet.signer.signTransaction(transaction);
+
+  return { transaction, blockhash, lastValidBlockHeight };
+}
+
+/**
+ * Simulate a built swap against current chain state. Nothing needs to be signed:
+ * signatures are not verified and the blockhash is replaced with a recent one.
+ * `readAmountOut` picks the swap's output out of the venue's program logs.
+ */
+export async function simulateSwap(
+  connection: Connection,
+  swap: BuiltSwap,
+  readAmountOut: (logs: string[]) => string | undefined
+): Promise<SwapSimulation> {
+  const transaction = swap.transaction instanceof VersionedTransaction
+    ? swap.transaction
+    : new VersionedTransaction(swap.transaction.compileMessage());
+
+  const { value } = await connection.simulateTransaction(transaction, {
+    sigVerify: false,
+    replaceRecentBlockhash: true,
+    commitment: 'confirmed'
+  });
+  const logs = value.logs ?? [];
+
+  if (value.err) {
+    return { unitsConsumed: value.unitsConsumed, logs, error: decodeTransactionError(value.err, logs) };
+  }
+
+  return { amountOut: readAmountOut(logs), unitsConsumed: value.unitsConsumed, logs };
+}
+
+/**
+ * Describe a simulated or on-chain transaction error with the failing program and the message it logged, e.g.
+ * `Instruction 2 failed in program 675k...: custom program error 0x1e (exceeds desired slippage limit)`
+ */
+export function decodeTransactionError(error: TransactionError | string, logs: string[]): string {
+  const instructionError = typeof error === 'object' && 'InstructionError' in error
+    ? (error as { InstructionError: [number, unknown] }).InstructionError
+    : null;
+
+  if (!instructionError) {
+    return `Transaction failed: ${typeof error === 'string' ? error : JSON.stringify(error)}`;
+  }
+
+  const [index, detail] = instructionError;
+  const custom = typeof detail === 'object' && detail !== null && 'Custom' in detail
+    ? (detail as { Custom: number }).Custom
+    : null;
+  const reason = custom !== null
+    ? `custom program error 0x${custom.toString(16)}`
+    : typeof detail === 'string' ? detail : JSON.stringify(detail);
+
+  // Runtime reports `Program <id> failed: <reason>`; programs log their own message just before
+  const failedProgram = logs.map(line => line.match(/^Program (\w+) failed: /)?.[1]).find(Boolean);
+  const programMessage = [...logs].reverse()
+    .map(line => line.match(/^Program log: (?:AnchorError.*Error Message: (.+?)\.?$|Error: (.+)$)/))
+    .find(Boolean);
+  const message = programMessage ? programMessage[1] ?? programMessage[2] : null;
+
+  return `Instruction ${index} failed${failedProgram ? ` in program ${failedProgram}` : ''}: ${reason}` +
+    (message ? ` (${message})` : '');
+}
+
+/**
+ * Time a cheap read against a venue and report whether it answered
+ */
+export async function probeHealth(dex: string, probe: () => Promise<unknown>): Promise<DexHealth> {
+  const startedAt = Date.now();
+
+  try {
+    await probe();
+    return { dex, healthy: true, latencyMs: Date.now() - startedAt };
+  } catch (error) {
+    return {
+      dex,
+      healthy: false,
+      latencyMs: Date.now() - startedAt,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
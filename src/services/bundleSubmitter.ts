@@ -0,0 +1,130 @@
+import { Connection, PublicKey, SystemProgram, Transaction, VersionedTransaction } from '@solana/web3.js';
+import bs58 from 'bs58';
+import { BuiltSwap, SentTransaction, SubmissionMode, TradingWallet } from '../types';
+import { signSwap } from './adapters/swapHelpers';
+
+const DEFAULT_TIP_LAMPORTS = 10000;
+const DEFAULT_INCLUSION_TIMEOUT_MS = 15000;
+const DEFAULT_TIMEOUT_MS = 10000;
+
+export interface BundleSubmitterOptions {
+  tipLamports?: number;
+  inclusionTimeoutMs?: number; // how long the bundle may take to land before the swap is also sent over RPC
+  timeoutMs?: number; // per block engine request
+}
+
+/**
+ * Sends swaps to a Jito-style block engine as a bundle of the swap and a tip
+ * transfer, so the swap cannot be sandwiched in the public mempool.
+ *
+ * The block engine is spoken to over JSON-RPC at `url`: `getTipAccounts`
+ * and `sendBundle`. A rejected bundle falls back to sending the same signed
+ * swap over RPC straight away; an accepted one carries that send as its
+ * fallback, for the ConfirmationTracker to use when the swap has not landed
+ * in time. Being the same transaction, at most one of the two can land.
+ */
+export class BundleSubmitter {
+  private connection: Connection;
+  private url: string;
+  private options: BundleSubmitterOptions;
+  private tipAccounts: PublicKey[] | null = null;
+  private requestId = 0;
+
+  constructor(connection: Connection, url: string, options: BundleSubmitterOptions = {}) {
+    this.connection = connection;
+    this.url = url;
+    this.options = options;
+  }
+
+  /**
+   * Sign the swap with a fresh blockhash and send it in a tipped bundle,
+   * falling back to RPC. Returns once the bundle is accepted, so the wallet
+   * is not held while it lands; inclusion and confirmation are left to the
+   * ConfirmationTracker.
+   */
+  async send(swap: BuiltSwap, wallet: TradingWallet): Promise<SentTransaction> {
+    const { transaction, blockhash, lastValidBlockHeight } = await signSwap(this.connection, swap, wallet);
+    const signature = bs58.encode(transaction instanceof VersionedTransaction ? transaction.signatures[0] : transaction.signature!);
+    const tipLamports = this.options.tipLamports ?? DEFAULT_TIP_LAMPORTS;
+
+    try {
+      const tip = await this.buildTip(wallet, blockhash, tipLamports);
+      const bundleId = await this.request<string>('sendBundle', [
+        [Buffer.from(transaction.serialize()).toString('base64'), tip.serialize().toString('base64')],
+        { encoding: 'base64' }
+      ]);
+      console.log(`Swap ${signature} sent in bundle ${bundleId}`);
+
+      return {
+        signature,
+        lastValidBlockHeight,
+        submittedVia: SubmissionMode.BUNDLE,
+        bundleId,
+        tipSignature: bs58.encode(tip.signature!),
+        tipLamports,
+        fallback: {
+          afterMs: this.options.inclusionTimeoutMs ?? DEFAULT_INCLUSION_TIMEOUT_MS,
+          send: async () => {
+            console.warn(`Bundle ${bundleId} was not included, sending swap ${signature} over RPC`);
+            await this.connection.sendRawTransaction(transaction.serialize());
+          }
+        }
+      };
+    } catch (error) {
+      console.warn(`Bundle submission failed, sending swap ${signature} over RPC:`, error);
+    }
+
+    await this.connection.sendRawTransaction(transaction.serialize());
+    return { signature, lastValidBlockHeight, submittedVia: SubmissionMode.RPC };
+  }
+
+  /**
+   * Tip transfer to one of the block engine's tip accounts, paid by the swap's wallet
+   */
+  private async buildTip(wallet: TradingWallet, blockhash: string, tipLamports: number): Promise<Transaction> {
+    const tipAccounts = await this.getTipAccounts();
+    const tipAccount = tipAccounts[Math.floor(Math.random() * tipAccounts.length)];
+
+    const tip = new Transaction().add(SystemProgram.transfer({
+      fromPubkey: wallet.signer.publicKey,
+      toPubkey: tipAccount,
+      lamports: tipLamports
+    }));
+    tip.feePayer = wallet.signer.publicKey;
+    tip.recentBlockhash = blockhash;
+
+    await wallet.signer.signTransaction(tip);
+    return tip;
+  }
+
+  private async getTipAccounts(): Promise<PublicKey[]> {
+    if (!this.tipAccounts) {
+      const accounts = await this.request<string[]>('getTipAccounts', []);
+      if (accounts.length === 0) {
+        throw new Error('Block engine returned no tip accounts');
+      }
+      this.tipAccounts = accounts.map(account => new PublicKey(account));
+    }
+    return this.tipAccounts;
+  }
+
+  private async request<T>(method: string, params: unknown[]): Promise<T> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: ++this.requestId, method, params }),
+      signal: AbortSignal.timeout(this.options.timeoutMs ?? DEFAULT_TIMEOUT_MS)
+    });
+
+    if (!response.ok) {
+      throw new Error(`Block engine returned ${response.status} for ${method}: ${await response.text()}`);
+    }
+
+    const body = await response.json() as { result?: T; error?: { message?: string } };
+    if (body.error) {
+      throw new Error(`Block engine ${method} failed: ${body.error.message ?? JSON.stringify(body.error)}`);
+    }
+
+    return body.result as T;
+  }
+}
@@ -0,0 +1,193 @@
+import { Connection, PublicKey, SignatureStatus, TokenBalance, TransactionConfirmationStatus } from '@solana/web3.js';
+import { SentTransaction, TransactionConfirmation } from '../types';
+import { decodeTransactionError } from './adapters/swapHelpers';
+import { sleep } from '../utils/errorHandler';
+
+const DEFAULT_POLL_INTERVAL_MS = 1000;
+const DEFAULT_MAX_RESUBMITS = 2;
+const DEFAULT_MAX_POLL_ERRORS = 10;
+
+// Commitment levels in the order a transaction reaches them
+const COMMITMENT_ORDER: TransactionConfirmationStatus[] = ['processed', 'confirmed', 'finalized'];
+
+export interface ConfirmationTrackerOptions {
+  pollIntervalMs?: number;
+  maxResubmits?: number; // resubmissions after an expired blockhash before the swap is given up
+  maxPollErrors?: number; // RPC errors in a row tolerated while polling before the outcome is given up as unknown
+  commitment?: 'confirmed' | 'finalized'; // level a transaction must reach to count as confirmed
+}
+
+/**
+ * Follows sent transactions until they are confirmed, fail on-chain or expire.
+ * A transaction whose blockhash expired without it landing can never land,
+ * so it is safe to re-sign with a fresh blockhash and send again.
+ */
+export class ConfirmationTracker {
+  private connection: Connection;
+  private pollIntervalMs: number;
+  private maxResubmits: number;
+  private maxPollErrors: number;
+  private commitment: 'confirmed' | 'finalized';
+
+  constructor(connection: Connection, options: ConfirmationTrackerOptions = {}) {
+    this.connection = connection;
+    this.pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+    this.maxResubmits = options.maxResubmits ?? DEFAULT_MAX_RESUBMITS;
+    this.maxPollErrors = options.maxPollErrors ?? DEFAULT_MAX_POLL_ERRORS;
+    this.commitment = options.commitment ?? 'confirmed';
+  }
+
+  /**
+   * Send with `send`, which must re-sign with a fresh blockhash on every call,
+   * and follow the transaction to its outcome. Expired submissions are sent
+   * again up to `maxResubmits` times. A transaction the caller already sent
+   * is followed first, in place of the first call to `send`.
+   */
+  async confirm(send: () => Promise<SentTransaction>, firstSent?: SentTransaction): Promise<TransactionConfirmation> {
+    let sent = firstSent ?? await send();
+
+    for (let resubmits = 0; ; resubmits++) {
+      const outcome = await this.track(sent);
+
+      if (outcome.status !== 'expired' || resubmits >= this.maxResubmits) {
+        return { ...outcome, resubmits };
+      }
+
+      console.warn(`Transaction ${sent.signature} expired before landing, resubmitting (${resubmits + 1}/${this.maxResubmits})`);
+      sent = await send();
+    }
+  }
+
+  /**
+   * Poll one submission until it reaches the target commitment, fails on-chain,
+   * or the chain passes its last valid block height without it. A submission
+   * with a fallback, such as a bundle, is sent through it once if it has not
+   * been seen after the fallback's delay. RPC errors while polling are
+   * retried; after `maxPollErrors` in a row it throws, as the transaction may
+   * still land.
+   */
+  async track(sent: SentTransaction): Promise<Omit<TransactionConfirmation, 'resubmits'>> {
+    const { signature } = sent;
+    let reached: TransactionConfirmationStatus | undefined;
+    let pollErrors = 0;
+    let fallbackAt = sent.fallback ? Date.now() + sent.fallback.afterMs : undefined;
+
+    for (;;) {
+      let status: SignatureStatus | null;
+
+      try {
+        status = await this.getStatus(signature);
+
+        // Only a transaction that never landed can expire; check its status once more
+        // after the height, in case it landed between the two reads
+        if (!status && await this.connection.getBlockHeight('confirmed') > sent.lastValidBlockHeight) {
+          status = await this.getStatus(signature);
+          if (!status) {
+            return { signature, status: 'expired' };
+          }
+        }
+        pollErrors = 0;
+      } catch (error) {
+        if (++pollErrors > this.maxPollErrors) {
+          throw new Error(`Could not poll transaction ${signature}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+        console.warn(`Polling transaction ${signature} failed (${pollErrors}/${this.maxPollErrors}), retrying:`, error);
+        await sleep(this.pollIntervalMs);
+        continue;
+      }
+
+      if (status?.err) {
+        return { signature, status: 'failed', slot: status.slot, error: await this.describeFailure(signature, status) };
+      }
+
+      const level = status?.confirmationStatus;
+      if (status && level) {
+        if (level !== reached) {
+          reached = level;
+          console.log(`Transaction ${signature} ${level} at slot ${status.slot}`);
+        }
+
+        if (COMMITMENT_ORDER.indexOf(level) >= COMMITMENT_ORDER.indexOf(this.commitment)) {
+          return { signature, status: level === 'finalized' ? 'finalized' : 'confirmed', slot: status.slot };
+        }
+      }
+
+      if (!status && fallbackAt !== undefined && Date.now() >= fallbackAt) {
+        fallbackAt = undefined;
+        try {
+          await sent.fallback!.send();
+        } catch (error) {
+          console.warn(`Fallback send of transaction ${signature} failed, still polling:`, error);
+        }
+      }
+
+      await sleep(this.pollIntervalMs);
+    }
+  }
+
+  /**
+   * Base units of `mint` that `owner` gained in a confirmed transaction, from
+   * its token balances before and after. Undefined when the transaction or
+   * its balances cannot be read.
+   */
+  async amountReceived(signature: string, owner: PublicKey, mint: string): Promise<string | undefined> {
+    try {
+      const transaction = await this.connection.getTransaction(signature, {
+        commitment: 'confirmed',
+        maxSupportedTransactionVersion: 0
+      });
+      const meta = transaction?.meta;
+      if (!meta?.preTokenBalances || !meta.postTokenBalances) {
+        return undefined;
+      }
+
+      const held = (balances: TokenBalance[]) => balances
+        .filter(balance => balance.mint === mint && balance.owner === owner.toString())
+        .reduce((total, balance) => total + BigInt(balance.uiTokenAmount.amount), BigInt(0));
+
+      const received = held(meta.postTokenBalances) - held(meta.preTokenBalances);
+      return received > BigInt(0) ? received.toString() : undefined;
+    } catch (error) {
+      console.warn(`Could not read balances of transaction ${signature}:`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Whether a transaction landed without error, such as the tip sent in a
+   * bundle with a confirmed swap. False when its status cannot be read.
+   */
+  async hasLanded(signature: string): Promise<boolean> {
+    try {
+      const status = await this.getStatus(signature);
+      return !!status && !status.err;
+    } catch (error) {
+      console.warn(`Could not read the status of transaction ${signature}:`, error);
+      return false;
+    }
+  }
+
+  private async getStatus(signature: string): Promise<SignatureStatus | null> {
+    const { value } = await this.connection.getSignatureStatuses([signature]);
+    return value[0];
+  }
+
+  /**
+   * On-chain error of a failed transaction, decoded with its program logs when they can be fetched
+   */
+  private async describeFailure(signature: string, status: SignatureStatus): Promise<string> {
+    let logs: string[] = [];
+
+    try {
+      const transaction = await this.connection.getTransaction(signature, {
+        commitment: 'confirmed',
+        maxSupportedTransactionVersion: 0
+      });
+      logs = transaction?.meta?.logMessages ?? [];
+    } catch (error) {
+      console.warn(`Could not fetch logs of failed transaction ${signature}:`, error);
+    }
+
+    return decodeTransactionError(status.err!, logs);
+  }
+}
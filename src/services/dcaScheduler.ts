@@ -0,0 +1,199 @@
+import { Queue, Worker, Job } from 'bullmq';
+import Redis from 'ioredis';
+import { v4 as uuidv4 } from 'uuid';
+import { ethers } from 'ethers';
+import { Account, Order, OrderStatus, OrderType, Schedule, ScheduleStatus, TradingWallet } from '../types';
+import { Database, RiskLimitError } from '../database/connection';
+import { OrderQueue } from './queue';
+import { SolanaConnectionManager } from './solanaConnection';
+import { WalletManager } from './walletManager';
+import { RiskManager } from './riskManager';
+import { TokenRegistry } from './tokenRegistry';
+
+interface ScheduleJobData {
+  scheduleId: string;
+}
+
+/**
+ * Runs DCA schedules as BullMQ job schedulers: every interval a tick places a
+ * market order linked to its schedule. Job schedulers live in Redis, so
+ * schedules keep running across restarts.
+ */
+export class DcaScheduler {
+  private redis: Redis;
+  private queue: Queue<ScheduleJobData>;
+  private worker: Worker<ScheduleJobData>;
+  private database: Database;
+  private orderQueue: OrderQueue;
+  private solanaManager: SolanaConnectionManager;
+  private walletManager: WalletManager;
+  private riskManager: RiskManager;
+  private tokenRegistry: TokenRegistry;
+
+  constructor(
+    redisConfig: { host: string; port: number; url?: string },
+    database: Database,
+    orderQueue: OrderQueue,
+    solanaManager: SolanaConnectionManager,
+    walletManager: WalletManager,
+    riskManager: RiskManager,
+    tokenRegistry: TokenRegistry
+  ) {
+    this.redis = redisConfig.url
+      ? new Redis(redisConfig.url, { maxRetriesPerRequest: null })
+      : new Redis({ host: redisConfig.host, port: redisConfig.port, maxRetriesPerRequest: null });
+
+    this.database = database;
+    this.orderQueue = orderQueue;
+    this.solanaManager = solanaManager;
+    this.walletManager = walletManager;
+    this.riskManager = riskManager;
+    this.tokenRegistry = tokenRegistry;
+
+    this.queue = new Queue<ScheduleJobData>('dca-schedules', { connection: this.redis });
+
+    this.worker = new Worker<ScheduleJobData>(
+      'dca-schedules',
+      async (job: Job<ScheduleJobData>) => await this.runTick(job.data.scheduleId),
+      { connection: this.redis }
+    );
+
+    this.worker.on('failed', (job: Job<ScheduleJobData> | undefined, error: Error) => {
+      console.error(`Tick of schedule ${job?.data.scheduleId} failed:`, error.message);
+    });
+
+    console.log('DCA scheduler initialized');
+  }
+
+  /**
+   * Start, or restart, the schedule's ticks; the first one runs right away
+   */
+  async start(schedule: Schedule): Promise<void> {
+    await this.queue.upsertJobScheduler(
+      schedule.id,
+      { every: schedule.intervalMs },
+      { name: `schedule-${schedule.id}`, data: { scheduleId: schedule.id } }
+    );
+    console.log(`Schedule ${schedule.id} ticking every ${schedule.intervalMs}ms`);
+  }
+
+  async stop(scheduleId: string): Promise<void> {
+    await this.queue.removeJobScheduler(scheduleId);
+    console.log(`Schedule ${scheduleId} stopped`);
+  }
+
+  /**
+   * Place the schedule's next order. A tick the wallet balance or the account's
+   * risk limits cannot cover places nothing and is recorded as skipped; the
+   * schedule completes on the first tick after its budget is spent.
+   */
+  async runTick(scheduleId: string): Promise<void> {
+    const schedule = await this.database.getSchedule(scheduleId);
+
+    // Paused or deleted after this tick was queued
+    if (!schedule || schedule.status !== ScheduleStatus.ACTIVE) {
+      return;
+    }
+
+    const amountIn = await this.nextAmount(schedule);
+    if (amountIn <= BigInt(0)) {
+      if (await this.database.updateScheduleStatus(scheduleId, ScheduleStatus.COMPLETED, [ScheduleStatus.ACTIVE])) {
+        await this.stop(scheduleId);
+        console.log(`Schedule ${scheduleId} completed: budget of ${schedule.totalAmount} spent`);
+      }
+      return;
+    }
+
+    const order = this.createOrder(schedule, amountIn);
+    const account = await this.database.getAccount(schedule.accountId);
+
+    let skipReason = account ? await this.checkTick(order, account) : `Account ${schedule.accountId} does not exist`;
+    if (!skipReason) {
+      try {
+        await this.database.createOrder(order, this.riskManager.guard(account!, [order]));
+      } catch (error) {
+        if (!(error instanceof RiskLimitError)) {
+          throw error;
+        }
+        skipReason = error.message;
+      }
+    }
+
+    if (skipReason) {
+      await this.database.recordScheduleTick(scheduleId, skipReason);
+      console.log(`Schedule ${scheduleId} skipped a tick: ${skipReason}`);
+      return;
+    }
+
+    await this.orderQueue.addOrder(order);
+    await this.database.recordScheduleTick(scheduleId);
+
+    console.log(`Schedule ${scheduleId} placed order ${order.id}`);
+  }
+
+  async close(): Promise<void> {
+    await this.worker.close();
+    await this.queue.close();
+    await this.redis.quit();
+  }
+
+  /**
+   * Size of the next order: the schedule's amount, or what is left of its budget when less
+   */
+  private async nextAmount(schedule: Schedule): Promise<bigint> {
+    const amountIn = BigInt(schedule.amountIn);
+    if (schedule.totalAmount === undefined) {
+      return amountIn;
+    }
+
+    const remaining = BigInt(schedule.totalAmount) - BigInt(await this.database.getScheduleSpent(schedule.id));
+    return remaining < amountIn ? remaining : amountIn;
+  }
+
+  private createOrder(schedule: Schedule, amountIn: bigint): Order {
+    return {
+      id: uuidv4(),
+      type: OrderType.MARKET,
+      tokenIn: schedule.tokenIn,
+      tokenOut: schedule.tokenOut,
+      tokenInMint: schedule.tokenInMint,
+      tokenOutMint: schedule.tokenOutMint,
+      amountIn: amountIn.toString(),
+      slippageBps: schedule.slippageBps,
+      status: OrderStatus.PENDING,
+      accountId: schedule.accountId,
+      strategy: schedule.strategy,
+      submissionMode: schedule.submissionMode,
+      scheduleId: schedule.id,
+      retryCount: 0,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+  }
+
+  /**
+   * Why the order should not be placed this tick, if anything
+   */
+  private async checkTick(order: Order, account: Account): Promise<string | undefined> {
+    const token = this.tokenRegistry.resolve(order.tokenInMint);
+    if (!token) {
+      return `Unsupported token: ${order.tokenIn}`;
+    }
+
+    let wallet: TradingWallet;
+    try {
+      wallet = await this.walletManager.walletFor(order);
+    } catch (error) {
+      return error instanceof Error ? error.message : 'No wallet for the schedule';
+    }
+
+    const balance = await this.solanaManager.getBalance(wallet.signer.publicKey, order.tokenInMint);
+    if (ethers.parseUnits(balance, token.decimals) < BigInt(order.amountIn)) {
+      const needed = ethers.formatUnits(order.amountIn, token.decimals);
+      return `Insufficient ${token.symbol} balance: ${balance} available, ${needed} needed`;
+    }
+
+    const risk = await this.riskManager.checkOrder(order, account);
+    return risk.isValid ? undefined : risk.error;
+  }
+}
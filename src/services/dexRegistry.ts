@@ -0,0 +1,59 @@
+import { DexAdapter } from '../types';
+import { SolanaConnectionManager } from './solanaConnection';
+import { RaydiumAdapter } from './adapters/raydiumAdapter';
+import { MeteoraAdapter } from './adapters/meteoraAdapter';
+
+/**
+ * Venues available to the router. Adapters can be registered but left
+ * disabled, so single venues can be switched off from config.
+ */
+export class DexRegistry {
+  private adapters: Map<string, DexAdapter> = new Map();
+  private enabledDexes: Set<string> | null;
+
+  /**
+   * @param enabledDexes venue names to route to; every registered venue when omitted or empty
+   */
+  constructor(enabledDexes?: string[]) {
+    this.enabledDexes = enabledDexes && enabledDexes.length > 0 ? new Set(enabledDexes) : null;
+  }
+
+  register(adapter: DexAdapter): void {
+    if (this.adapters.has(adapter.name)) {
+      throw new Error(`DEX ${adapter.name} is already registered`);
+    }
+    this.adapters.set(adapter.name, adapter);
+  }
+
+  isEnabled(name: string): boolean {
+    return this.adapters.has(name) && (this.enabledDexes === null || this.enabledDexes.has(name));
+  }
+
+  /**
+   * Look up an enabled venue by name
+   */
+  get(name: string): DexAdapter | undefined {
+    return this.isEnabled(name) ? this.adapters.get(name) : undefined;
+  }
+
+  getEnabled(): DexAdapter[] {
+    return Array.from(this.adapters.values()).filter(adapter => this.isEnabled(adapter.name));
+  }
+}
+
+/**
+ * Registry with every built-in venue
+ */
+export function createDefaultRegistry(solanaManager: SolanaConnectionManager, enabledDexes?: string[]): DexRegistry {
+  const registry = new DexRegistry(enabledDexes);
+
+  registry.register(new RaydiumAdapter(solanaManager));
+  registry.register(new MeteoraAdapter(solanaManager));
+
+  const unknownDexes = (enabledDexes ?? []).filter(name => !registry.isEnabled(name));
+  if (unknownDexes.length > 0) {
+    console.warn(`Ignoring unknown DEXes in config: ${unknownDexes.join(', ')}`);
+  }
+
+  return registry;
+}
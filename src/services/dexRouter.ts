@@ -1,304 +1,594 @@
-import { PublicKey, Transaction, sendAndConfirmTransaction, SystemProgram } from '@solana/web3.js';
-import {
-    getAssociatedTokenAddress,
-    createAssociatedTokenAccountInstruction,
-    NATIVE_MINT,
-    createSyncNativeInstruction,
-    createCloseAccountInstruction,
-    getAccount,
-    getAssociatedTokenAddressSync,
-} from '@solana/spl-token';
-import { DexQuote, RouteResult, ExecutionResult, Order } from '../types';
+import { BuiltSwap, DexAdapter, DexQuote, DexQuoter, DexHealth, PoolConfig, RouteResult, RouteSplit, RouteHop, ExecutionResult, ExecutionErrorCode, Order, SentTransaction, SubmissionMode, SwapFee, SwapSimulation, TokenInfo, TradingWallet } from '../types';
 import { SolanaConnectionManager } from './solanaConnection';
-import { ApiV3PoolInfoStandardItem, Raydium, TxVersion } from '@raydium-io/raydium-sdk-v2';
-import { AmmImpl } from '@meteora-ag/dynamic-amm-sdk';
-import BN from 'bn.js';
+import { DexRegistry, createDefaultRegistry } from './dexRegistry';
+import { TokenRegistry } from './tokenRegistry';
+import { WalletManager } from './walletManager';
+import { ConfirmationTracker } from './confirmationTracker';
+import { FeeStrategy, LAMPORTS_PER_SIGNATURE } from './feeStrategy';
+import { BundleSubmitter } from './bundleSubmitter';
 import { ethers } from 'ethers';
 
-export const TOKEN_MINTS = {
-    SOL: {
-        mint: NATIVE_MINT.toString(),
-        decimals: 9
-    },
-    USDC: {
-        mint: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v', // USDC
-        decimals: 6
-    }
-  };
+// Slippage tolerance applied when an order does not specify one (1%)
+export const DEFAULT_SLIPPAGE_BPS = 100;
+
+// Split ratios tried when dividing an order across two venues (tenths of the order)
+const SPLIT_STEPS = 10;
+
+// Extra output a split must deliver over the best single venue before it is used
+const MIN_SPLIT_GAIN_BPS = 5;
+
+// A venue's quoter for one pool serving the pair being routed
+type Venue = { dex: string; quoteAmount: DexQuoter };
+
+// A swap sent while its wallet was held, to be confirmed once the wallet is free again
+type SentSwap = {
+    wallet: TradingWallet;
+    swap: BuiltSwap;
+    freshQuote: DexQuote;
+    minAmountOut?: string;
+    simulation: SwapSimulation;
+    fee: SwapFee;
+    firstSent: SentTransaction;
+};
+
+const compareAmounts = (a: string, b: string): number => {
+    const difference = BigInt(a) - BigInt(b);
+    return difference > BigInt(0) ? 1 : difference < BigInt(0) ? -1 : 0;
+};
 
 export class dexRouter {
-    private solanaManager: SolanaConnectionManager;
+    private registry: DexRegistry;
+    private tokenRegistry: TokenRegistry;
+    private walletManager: WalletManager;
+    private confirmationTracker: ConfirmationTracker;
+    private feeStrategy: FeeStrategy;
+    private bundleSubmitter?: BundleSubmitter;
     private initialized = false;
-    private raydium: Raydium | null = null;
-    private meteora: AmmImpl | null = null;
-
-    // Pool addresses as PublicKeys
-    private readonly POOL_ADDRESSES = {
-        raydium: '58oQChx4yWmvKdwLLZzBi4ChoCc2fqCUWBkwMihLYQo2', // Raydium SOL/USDC pool
-        meteora: '6SWtsTzXrurtVWZdEHvnQdE9oM8tTtyg8rfEo3b4nM93'  // Meteora SOL/USDC pool
-    };
 
-    constructor(solanaManager: SolanaConnectionManager) {
-        this.solanaManager = solanaManager;
+    constructor(
+        solanaManager: SolanaConnectionManager,
+        registry?: DexRegistry,
+        tokenRegistry?: TokenRegistry,
+        walletManager?: WalletManager,
+        confirmationTracker?: ConfirmationTracker,
+        feeStrategy?: FeeStrategy,
+        bundleSubmitter?: BundleSubmitter
+    ) {
+        this.registry = registry ?? createDefaultRegistry(solanaManager);
+        this.tokenRegistry = tokenRegistry ?? TokenRegistry.fromFile();
+        this.walletManager = walletManager ?? new WalletManager(solanaManager.signer);
+        this.confirmationTracker = confirmationTracker ?? new ConfirmationTracker(solanaManager.connection);
+        this.feeStrategy = feeStrategy ?? new FeeStrategy(solanaManager.connection);
+        this.bundleSubmitter = bundleSubmitter;
     }
 
     /**
-     * Initialize the DEX router
+     * Initialize the DEX router and every enabled venue
      */
     async initialize(): Promise<void> {
         if (this.initialized) return;
 
-        // Initialize Raydium SDK
-        try {
-            this.raydium = await Raydium.load({
-                owner: this.solanaManager.wallet,
-                connection: this.solanaManager.connection,
-                cluster: 'mainnet',
-                blockhashCommitment: 'finalized',
-                disableFeatureCheck: true,
-            });
-
-            this.raydium.account.updateTokenAccount(await this.solanaManager.fetchTokenAccountData())
-
-            console.log('Raydium SDK initialized');
-        } catch (error) {
-            console.warn('Raydium SDK initialization failed:', error);
-        }
-
-        // Initialize Meteora SDK
-        try {
-            // Initialize Meteora SDK for specific pool
-            this.meteora = await AmmImpl.create(
-                this.solanaManager.connection as any, // Type assertion to handle compatibility
-                new PublicKey(this.POOL_ADDRESSES.meteora)
-            );
-        } catch (error) {
-            console.warn('Meteora SDK initialization failed:', error);
-        }
+        // A venue that fails to load is left out of routing rather than failing startup
+        await Promise.all(this.registry.getEnabled().map(async (adapter) => {
+            try {
+                await adapter.initialize();
+            } catch (error) {
+                console.warn(`${adapter.name} initialization failed:`, error);
+            }
+        }));
 
         this.initialized = true;
         console.log('DEX Router initialized successfully');
     }
 
     /**
-     * Get quote from Raydium
+     * Get quote from a single venue for the full order size, priced against live pool state
      */
-    async getRaydiumQuote(tokenIn: string, tokenOut: string, amount: string): Promise<DexQuote> {
-        console.log(`Getting Raydium quote: ${amount} ${tokenIn} -> ${tokenOut}`);
-
-        try {
-            if (!this.raydium) {
-                throw new Error('Raydium SDK not initialized');
-            }
-
-            // Get RPC data for more accurate calculations
-            const data = await this.raydium.api.fetchPoolById({ ids: this.POOL_ADDRESSES.raydium })
-            const poolInfo = data[0] as ApiV3PoolInfoStandardItem
+    async getQuote(dex: string, tokenIn: string, tokenOut: string, amount: string): Promise<DexQuote> {
+        console.log(`Getting ${dex} quote: ${amount} ${tokenIn} -> ${tokenOut}`);
 
-            const normalizedPrice = tokenIn === 'SOL' ? poolInfo.price : 1 / poolInfo.price;
+        await this.initialize();
 
-            const quote: DexQuote = {
-                dex: 'raydium',
-                price: normalizedPrice,
-            };
+        const inputToken = this.resolveToken(tokenIn);
+        const outputToken = this.resolveToken(tokenOut);
+        const pool = this.getPool(dex, inputToken, outputToken);
 
-            return quote;
-        } catch (error) {
-            console.error('Raydium quote failed:', error);
-            throw new Error(`Raydium quote failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
-        }
+        const quoteAmount = await this.loadQuoter(this.getAdapter(dex), pool, inputToken, outputToken);
+        return quoteAmount(amount);
     }
 
     /**
-     * Get quote from Meteora
+     * Route order along the path with the highest expected output for its size.
+     * Direct routes may split across the two best venues; paths through base
+     * tokens swap on the best venue for each hop.
      */
-    async getMeteoraQuote(tokenIn: string, tokenOut: string, amount: string): Promise<DexQuote> {
+    async selectBestDex(tokenIn: string, tokenOut: string, amount: string): Promise<RouteResult> {
+        console.log(`Routing order: ${amount} ${tokenIn} -> ${tokenOut}`);
+
+        await this.initialize();
+
         try {
-            console.log(`Getting Meteora quote: ${amount} ${tokenIn} -> ${tokenOut}`);
+            const inputToken = this.resolveToken(tokenIn);
+            const outputToken = this.resolveToken(tokenOut);
+
+            // Hops shared between paths only load their pools once
+            const venueQuoters = new Map<string, Promise<Venue[]>>();
+            const venuesFor = (from: TokenInfo, to: TokenInfo): Promise<Venue[]> => {
+                const key = `${from.mint}:${to.mint}`;
+                if (!venueQuoters.has(key)) {
+                    venueQuoters.set(key, this.loadVenueQuoters(from, to));
+                }
+                return venueQuoters.get(key)!;
+            };
 
-            if (!this.meteora) {
-                throw new Error('Meteora SDK not initialized');
+            const routes: RouteResult[] = [];
+            for (const path of this.tokenRegistry.findPaths(inputToken.mint, outputToken.mint)) {
+                const route = path.length === 2
+                    ? this.routeDirect(inputToken, outputToken, amount, await venuesFor(inputToken, outputToken))
+                    : await this.routeHops(path, amount, venuesFor);
+                if (route) {
+                    routes.push(route);
+                }
             }
 
-            // Get quote for 1 SOL input to get USDC output
-            const quote = this.meteora.getSwapQuote(new PublicKey(TOKEN_MINTS["SOL"].mint), new BN(ethers.parseUnits("1", 9)), 0);
-            const usdcPerSol = parseFloat(ethers.formatUnits(quote.swapOutAmount.toString(), 6));
-
-            const normalizedPrice = tokenIn === 'SOL' ? usdcPerSol : 1 / usdcPerSol;
+            if (routes.length === 0) {
+                throw new Error(`No DEX returned a quote for ${tokenIn}/${tokenOut}`);
+            }
 
-            const dexQuote: DexQuote = {
-                dex: 'meteora',
-                price: normalizedPrice,
-            };
+            const [best, runnerUp] = routes.sort((a, b) => compareAmounts(b.expectedAmountOut!, a.expectedAmountOut!));
+            if (best.hops && runnerUp) {
+                best.routingReason += ` vs ${runnerUp.expectedAmountOut} on ${runnerUp.dex}`;
+            }
+            return best;
 
-            return dexQuote;
         } catch (error) {
-            console.error('Meteora quote failed:', error);
-            throw new Error(`Meteora quote failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            console.error('DEX routing failed:', error);
+            throw new Error(`DEX routing failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
         }
     }
 
     /**
-     * Route order to the best DEX
+     * Best single venue for a pooled pair, or a split across the two best
+     * when that yields more in total
      */
-    async selectBestDex(tokenIn: string, tokenOut: string, amount: string): Promise<RouteResult> {
-        console.log(`Routing order: ${amount} ${tokenIn} -> ${tokenOut}`);
+    private routeDirect(inputToken: TokenInfo, outputToken: TokenInfo, amount: string, venues: Venue[]): RouteResult | null {
+        if (venues.length === 0) {
+            return null;
+        }
 
-        await this.initialize();
+        const tokenIn = inputToken.symbol;
+        const tokenOut = outputToken.symbol;
+        const quotes = venues.map(venue => venue.quoteAmount(amount));
+        quotes.forEach(quote => console.log(`${quote.dex} quote:`, quote));
 
-        try {
-            // Get quotes from both DEXs with retry logic
-            const [raydiumQuote, meteoraQuote] = await Promise.all([
-                this.getRaydiumQuote(tokenIn, tokenOut, amount),
-                this.getMeteoraQuote(tokenIn, tokenOut, amount)
-            ]);
-
-            console.log('Raydium quotes:', raydiumQuote);
-            console.log('Meteora quotes:', meteoraQuote);
-
-            let bestQuote: DexQuote;
-            let routingReason: string;
-
-            // Select the best DEX - higher normalized price is always better
-            if (raydiumQuote.price > meteoraQuote.price) {
-                bestQuote = raydiumQuote;
-                routingReason = `raydium selected: better effective price (${raydiumQuote.price.toFixed(6)} vs ${meteoraQuote.price.toFixed(6)})`;
-            } else {
-                bestQuote = meteoraQuote;
-                routingReason = `meteora selected: better effective price (${meteoraQuote.price.toFixed(6)} vs ${raydiumQuote.price.toFixed(6)})`;
-            }
+        // Rank venues by output - fees and price impact are already netted out of amountOut
+        const ranked = venues
+            .map((venue, index) => ({ ...venue, quote: quotes[index] }))
+            .sort((a, b) => compareAmounts(b.quote.amountOut!, a.quote.amountOut!));
+        const [best, runnerUp] = ranked;
+        const bestQuote = best.quote;
+        const bestSingleOut = BigInt(bestQuote.amountOut!);
 
+        if (!runnerUp) {
             return {
                 dex: bestQuote.dex,
                 bestQuote: bestQuote,
-                allQuotes: [raydiumQuote, meteoraQuote],
-                routingReason: routingReason
+                allQuotes: quotes,
+                routingReason: `${bestQuote.dex} selected: only venue quoting ${tokenIn}/${tokenOut}`,
+                expectedAmountOut: bestQuote.amountOut
             };
+        }
 
-        } catch (error) {
-            console.error('DEX routing failed:', error);
-            throw new Error(`DEX routing failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        // Each leg is its own transaction, so only split when it clearly beats one venue
+        const splits = this.findBestSplit(amount, best, runnerUp);
+        const splitOut = splits.reduce((total, split) => total + BigInt(split.quote.amountOut!), BigInt(0));
+
+        if (splitOut * BigInt(10000) > bestSingleOut * BigInt(10000 + MIN_SPLIT_GAIN_BPS)) {
+            const splitQuote = this.combineSplitQuotes(inputToken, outputToken, amount, splits);
+            const routingReason = `split selected: ${splits.map(split => `${split.amountIn} via ${split.dex}`).join(', ')} ` +
+                `returns ${splitOut} vs ${bestSingleOut} ${tokenOut} on ${bestQuote.dex} alone`;
+
+            return {
+                dex: splitQuote.dex,
+                bestQuote: splitQuote,
+                allQuotes: quotes,
+                routingReason: routingReason,
+                expectedAmountOut: splitQuote.amountOut,
+                splits: splits
+            };
         }
+
+        const otherQuote = runnerUp.quote;
+        const routingReason = `${bestQuote.dex} selected: higher expected output for ${amount} ${tokenIn} ` +
+            `(${bestQuote.amountOut} vs ${otherQuote.amountOut} ${tokenOut} on ${otherQuote.dex}, ` +
+            `impact ${(bestQuote.priceImpact! * 100).toFixed(4)}% vs ${(otherQuote.priceImpact! * 100).toFixed(4)}%)`;
+
+        return {
+            dex: bestQuote.dex,
+            bestQuote: bestQuote,
+            allQuotes: quotes,
+            routingReason: routingReason,
+            expectedAmountOut: bestQuote.amountOut
+        };
     }
 
     /**
-     * Execute swap on the selected DEX using real SDK
+     * Quote a path through intermediate tokens, feeding each hop's expected
+     * output into the next. Returns null when some hop cannot be quoted.
      */
-    async executeSwap(dex: string, order: Order): Promise<ExecutionResult> {
-        console.log(`Executing ${dex} swap on Solana for order ${order.id}`);
+    private async routeHops(
+        path: TokenInfo[],
+        amount: string,
+        venuesFor: (from: TokenInfo, to: TokenInfo) => Promise<Venue[]>
+    ): Promise<RouteResult | null> {
+        const hops: RouteHop[] = [];
+        let hopAmount = amount;
+
+        for (let index = 0; index < path.length - 1; index++) {
+            const [from, to] = [path[index], path[index + 1]];
+            const venues = await venuesFor(from, to);
+            if (venues.length === 0) {
+                return null;
+            }
+
+            const quote = venues
+                .map(venue => venue.quoteAmount(hopAmount))
+                .reduce((best, candidate) => compareAmounts(candidate.amountOut!, best.amountOut!) > 0 ? candidate : best);
+
+            hops.push({
+                dex: quote.dex,
+                tokenIn: from.symbol,
+                tokenOut: to.symbol,
+                tokenInMint: from.mint,
+                tokenOutMint: to.mint,
+                amountIn: hopAmount,
+                quote
+            });
+
+            hopAmount = quote.amountOut!;
+            if (BigInt(hopAmount) === BigInt(0)) {
+                return null;
+            }
+        }
+
+        const hopQuote = this.combineHopQuotes(path[0], path[path.length - 1], amount, hops);
+        const routingReason = `${path.map(token => token.symbol).join(' -> ')} selected: ` +
+            `${hops.map(hop => `${hop.tokenIn}/${hop.tokenOut} via ${hop.dex}`).join(', ')} ` +
+            `returns ${hopAmount} ${path[path.length - 1].symbol}`;
+
+        return {
+            dex: hopQuote.dex,
+            bestQuote: hopQuote,
+            allQuotes: hops.map(hop => hop.quote),
+            routingReason: routingReason,
+            expectedAmountOut: hopAmount,
+            hops: hops
+        };
+    }
+
+    /**
+     * Report the health of every enabled venue
+     */
+    async checkHealth(): Promise<DexHealth[]> {
+        await this.initialize();
+
+        return await Promise.all(this.registry.getEnabled().map(async (adapter) => {
+            const [pool] = this.tokenRegistry.getPoolsForDex(adapter.name);
+            if (!pool) {
+                return { dex: adapter.name, healthy: false, error: 'No pools configured' };
+            }
+            return await adapter.checkHealth(pool);
+        }));
+    }
+
+    /**
+     * Load quoters from every enabled pool serving the pair; pools that cannot quote are left out of routing
+     */
+    private async loadVenueQuoters(inputToken: TokenInfo, outputToken: TokenInfo): Promise<Venue[]> {
+        const pools = this.tokenRegistry
+            .getPools(inputToken.mint, outputToken.mint)
+            .filter(pool => this.registry.isEnabled(pool.dex));
+
+        const results = await Promise.allSettled(
+            pools.map(pool => this.loadQuoter(this.getAdapter(pool.dex), pool, inputToken, outputToken))
+        );
+
+        return results.flatMap((result, index) => {
+            if (result.status === 'rejected') {
+                console.error(`${pools[index].dex} pool ${pools[index].address} excluded from routing:`, result.reason);
+                return [];
+            }
+            return [{ dex: pools[index].dex, quoteAmount: result.value }];
+        });
+    }
 
+    private async loadQuoter(adapter: DexAdapter, pool: PoolConfig, tokenIn: TokenInfo, tokenOut: TokenInfo): Promise<DexQuoter> {
         try {
-            return dex === 'raydium' ? await this.executeRaydiumSwap(order) : await this.executeMeteorSwap(order);
+            return await adapter.loadQuoter(pool, tokenIn, tokenOut);
         } catch (error) {
-            console.error(`${dex} swap execution failed:`, error);
-            return {
-                success: false,
-                error: error instanceof Error ? error.message : 'Unknown execution error'
-            };
+            console.error(`${adapter.name} quote failed:`, error);
+            throw new Error(`${adapter.name} quote failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
         }
     }
 
     /**
-     * Execute Raydium swap using real SDK
+     * Find the two-venue split of `amount` with the highest total output, in steps of 1/SPLIT_STEPS
      */
-    private async executeRaydiumSwap(order: Order): Promise<ExecutionResult> {
-        if (!this.raydium) {
-            throw new Error('Raydium SDK not initialized');
+    private findBestSplit(
+        amount: string,
+        first: Venue,
+        second: Venue
+    ): RouteSplit[] {
+        const totalIn = BigInt(amount);
+        let bestSplits: RouteSplit[] = [];
+        let bestOut = BigInt(0);
+
+        for (let step = 1; step < SPLIT_STEPS; step++) {
+            const firstIn = totalIn * BigInt(step) / BigInt(SPLIT_STEPS);
+            const secondIn = totalIn - firstIn;
+            if (firstIn === BigInt(0) || secondIn === BigInt(0)) continue;
+
+            const splits: RouteSplit[] = [
+                { dex: first.dex, amountIn: firstIn.toString(), quote: first.quoteAmount(firstIn.toString()) },
+                { dex: second.dex, amountIn: secondIn.toString(), quote: second.quoteAmount(secondIn.toString()) },
+            ];
+            const totalOut = splits.reduce((total, split) => total + BigInt(split.quote.amountOut!), BigInt(0));
+
+            if (totalOut > bestOut) {
+                bestOut = totalOut;
+                bestSplits = splits;
+            }
         }
 
-        const inputToken = TOKEN_MINTS[order.tokenIn as keyof typeof TOKEN_MINTS];
-        const outputToken = TOKEN_MINTS[order.tokenOut as keyof typeof TOKEN_MINTS];
-        const poolId = this.POOL_ADDRESSES.raydium;
-
-        try {
-            // Get pool info
-            const data = await this.raydium.api.fetchPoolById({ ids: poolId })
-            const poolInfo = data[0] as ApiV3PoolInfoStandardItem
-            const poolKeys = await this.raydium.liquidity.getAmmPoolKeys(poolId)
-            const rpcData = await this.raydium.liquidity.getRpcPoolInfo(poolId)
-
-            const [baseReserve, quoteReserve, status] = [rpcData.baseReserve, rpcData.quoteReserve, rpcData.status.toNumber()]
-
-            // swap pool mintA for mintB
-            const out = this.raydium.liquidity.computeAmountOut({
-                poolInfo: {
-                    ...poolInfo,
-                    baseReserve,
-                    quoteReserve,
-                    status,
-                    version: 4,
-                },
-                amountIn: new BN(order.amountIn),
-                mintIn: inputToken.mint,
-                mintOut: outputToken.mint,
-                slippage: 0.01, // range: 1 ~ 0.0001, means 100% ~ 0.01%
-            })
-
-            console.log('Out:', out);
-
-            const { execute } = await this.raydium.liquidity.swap({
-                poolInfo,
-                poolKeys,
-                amountIn: new BN(order.amountIn),
-                amountOut: out.minAmountOut, // out.amountOut means amount 'without' slippage
-                fixedSide: 'in',
-                inputMint: inputToken.mint,
-                txVersion: TxVersion.V0,
-            })
-
-            const { txId } = await execute({ sendAndConfirm: true })
-            console.log('Swap transaction signature: https://solscan.io/tx/' + txId);
+        return bestSplits;
+    }
 
-            return {
-                success: true,
-                txHash: txId,
-                executedPrice: inputToken.decimals == 9 ? poolInfo.price : 1 / poolInfo.price,
-                actualAmountOut: parseFloat(ethers.formatUnits(out.minAmountOut.toString(), outputToken.decimals)),
-            };
+    /**
+     * Summarize split legs as a single quote for the whole order
+     */
+    private combineSplitQuotes(inputToken: TokenInfo, outputToken: TokenInfo, amountIn: string, splits: RouteSplit[]): DexQuote {
+        const totalOut = splits.reduce((total, split) => total + BigInt(split.quote.amountOut!), BigInt(0));
+        const totalFee = splits.reduce((total, split) => total + BigInt(split.quote.feeAmount ?? '0'), BigInt(0));
+
+        // Weight each leg's impact by its share of the order
+        const priceImpact = splits.reduce(
+            (total, split) => total + (split.quote.priceImpact ?? 0) * Number(split.amountIn) / Number(amountIn),
+            0
+        );
+
+        return {
+            dex: splits.map(split => split.dex).join('+'),
+            price: parseFloat(ethers.formatUnits(totalOut, outputToken.decimals)) /
+                parseFloat(ethers.formatUnits(amountIn, inputToken.decimals)),
+            amountOut: totalOut.toString(),
+            priceImpact,
+            feeAmount: totalFee.toString(),
+        };
+    }
 
-        } catch (error) {
-            console.error('Raydium swap execution failed:', error);
-            throw error;
-        }
+    /**
+     * Summarize the hops of a path as a single quote from its first token to its last
+     */
+    private combineHopQuotes(inputToken: TokenInfo, outputToken: TokenInfo, amountIn: string, hops: RouteHop[]): DexQuote {
+        const amountOut = hops[hops.length - 1].quote.amountOut!;
+
+        // Impact compounds: each hop keeps (1 - impact) of the value passed into it
+        const retained = hops.reduce((total, hop) => total * (1 - (hop.quote.priceImpact ?? 0)), 1);
+
+        return {
+            dex: hops.map(hop => hop.dex).join('>'),
+            price: parseFloat(ethers.formatUnits(amountOut, outputToken.decimals)) /
+                parseFloat(ethers.formatUnits(amountIn, inputToken.decimals)),
+            amountOut,
+            priceImpact: 1 - retained,
+        };
     }
 
     /**
-     * Execute Meteora swap using real SDK
+     * Execute swap on the selected DEX, signed with the order's wallet.
+     * `routedQuote` is the quote the order was routed on; the fresh quote
+     * taken here must stay within the order's slippage tolerance of it.
+     * The built swap is simulated first and only sent if the simulation
+     * succeeds, after `onSimulated` has run; a failing hook stops the send.
+     * Its compute budget is sized from the simulation and priced by the order's urgency.
+     * Orders in bundle mode go to the block engine when one is configured.
+     * Succeeds only once the transaction is confirmed on-chain; it is re-signed
+     * and resubmitted if its blockhash expires before it lands.
      */
-    private async executeMeteorSwap(order: Order): Promise<ExecutionResult> {
-        const inputToken = TOKEN_MINTS[order.tokenIn as keyof typeof TOKEN_MINTS];
-        const outputToken = TOKEN_MINTS[order.tokenOut as keyof typeof TOKEN_MINTS];
+    async executeSwap(
+        dex: string,
+        order: Order,
+        routedQuote?: DexQuote,
+        onSimulated?: (simulation: SwapSimulation) => Promise<void>
+    ): Promise<ExecutionResult> {
+        console.log(`Executing ${dex} swap on Solana for order ${order.id}`);
+
+        // Once a send has started, the swap may land whatever fails afterwards
+        let sendStarted = false;
+        let sent: SentTransaction | undefined;
 
         try {
-            if (!this.meteora) {
-                throw new Error('Meteora SDK not initialized');
+            await this.initialize();
+
+            const adapter = this.getAdapter(dex);
+            const inputToken = this.resolveToken(order.tokenIn);
+            const outputToken = this.resolveToken(order.tokenOut);
+
+            const pool = this.getPool(dex, inputToken, outputToken, routedQuote?.poolAddress);
+
+            const send = async (swap: BuiltSwap, wallet: TradingWallet): Promise<SentTransaction> => {
+                sendStarted = true;
+                sent = this.bundleSubmitter && order.submissionMode === SubmissionMode.BUNDLE
+                    ? await this.bundleSubmitter.send(swap, wallet)
+                    : await adapter.executeSwap(swap, wallet);
+                return sent;
+            };
+
+            // Quoted once the wallet is free, so the guard reflects the price at send time. The wallet is
+            // held to build, sign and send only; its next swap does not wait for this one to confirm
+            const prepared = await this.walletManager.withWallet(order, async (wallet): Promise<ExecutionResult | SentSwap> => {
+                const quoteAmount = await adapter.loadQuoter(pool, inputToken, outputToken);
+                const freshQuote = quoteAmount(order.amountIn);
+
+                const guard = this.checkSlippage(order, routedQuote, freshQuote);
+                if (guard.error) {
+                    return { success: false, error: guard.error, errorCode: ExecutionErrorCode.SLIPPAGE_EXCEEDED };
+                }
+
+                const builtSwap = await adapter.buildSwap(pool, inputToken, outputToken, order.amountIn, guard.minAmountOut!, wallet);
+
+                const simulation = await adapter.simulateSwap(builtSwap);
+                if (simulation.error) {
+                    return { success: false, error: `Simulation failed: ${simulation.error}`, errorCode: ExecutionErrorCode.SIMULATION_FAILED, simulation };
+                }
+                console.log(`${dex} swap simulated for order ${order.id}: ${simulation.amountOut ?? 'unknown'} out, ${simulation.unitsConsumed ?? 'unknown'} CU`);
+
+                const fee = await this.feeStrategy.getFee(order, builtSwap, simulation.unitsConsumed);
+                const swap = await this.feeStrategy.applyFee(builtSwap, fee);
+                console.log(`${dex} swap for order ${order.id} budgeted ${fee.computeUnitLimit} CU at ${fee.computeUnitPrice} micro-lamports, ${fee.feeLamports} lamports in fees`);
+
+                await onSimulated?.(simulation);
+
+                return { wallet, swap, freshQuote, minAmountOut: guard.minAmountOut, simulation, fee, firstSent: await send(swap, wallet) };
+            });
+            if ('success' in prepared) {
+                return prepared;
             }
-            const priceQuote = this.meteora.getSwapQuote(new PublicKey(TOKEN_MINTS["SOL"].mint), new BN(ethers.parseUnits("1", 9)), 0);
-            const usdcPerSol = parseFloat(ethers.formatUnits(priceQuote.swapOutAmount.toString(), 6));
 
-            const quote = this.meteora.getSwapQuote(new PublicKey(inputToken.mint), new BN(order.amountIn), 0.01);
+            const { wallet, swap, freshQuote, minAmountOut, simulation, fee, firstSent } = prepared;
 
-            const swapTx = await this.meteora.swap(
-                this.solanaManager.wallet.publicKey,
-                new PublicKey(inputToken.mint),
-                new BN(order.amountIn),
-                new BN(0));
+            // Resubmissions re-sign with a fresh blockhash, so they take the wallet again
+            const confirmation = await this.confirmationTracker.confirm(
+                () => this.walletManager.withWallet(order, () => send(swap, wallet)),
+                firstSent
+            );
 
-            swapTx.sign(this.solanaManager.wallet);
-            const sig = await this.solanaManager.connection.sendRawTransaction(swapTx.serialize());
+            // A swap whose bundle landed, even after its RPC fallback was sent, also paid the tip and the
+            // tip transaction's base fee; the tip lands only with the bundle
+            const tipPaid = confirmation.status !== 'expired' && !!sent?.tipSignature
+                && await this.confirmationTracker.hasLanded(sent.tipSignature);
+            const paidFee = tipPaid
+                ? { ...fee, tipLamports: sent!.tipLamports, feeLamports: fee.feeLamports + sent!.tipLamports! + LAMPORTS_PER_SIGNATURE }
+                : fee;
+            const submittedVia = tipPaid ? SubmissionMode.BUNDLE : SubmissionMode.RPC;
+
+            if (confirmation.status === 'failed') {
+                return {
+                    success: false,
+                    txHash: confirmation.signature,
+                    error: `Transaction failed on-chain: ${confirmation.error}`,
+                    errorCode: ExecutionErrorCode.TRANSACTION_FAILED,
+                    simulation,
+                    resubmits: confirmation.resubmits,
+                    submittedVia,
+                    fee: paidFee,
+                };
+            }
 
-            console.log('Swap transaction signature: https://solscan.io/tx/' + sig);
+            if (confirmation.status === 'expired') {
+                return {
+                    success: false,
+                    error: `Transaction expired without landing after ${confirmation.resubmits} resubmissions`,
+                    errorCode: ExecutionErrorCode.TRANSACTION_EXPIRED,
+                    simulation,
+                    resubmits: confirmation.resubmits,
+                };
+            }
+
+            // What actually landed in the wallet, which can be anywhere from the minimum up
+            const amountReceived = await this.confirmationTracker.amountReceived(confirmation.signature, wallet.signer.publicKey, outputToken.mint);
 
             return {
                 success: true,
-                txHash: sig,
-                executedPrice: inputToken.decimals == 9 ? usdcPerSol : 1 / usdcPerSol,
-                actualAmountOut: parseFloat(ethers.formatUnits(quote.swapOutAmount.toString(), outputToken.decimals)),
+                txHash: confirmation.signature,
+                executedPrice: freshQuote.price,
+                actualAmountOut: parseFloat(ethers.formatUnits(amountReceived ?? freshQuote.amountOut!, outputToken.decimals)),
+                minAmountOut,
+                amountReceived,
+                simulation,
+                confirmationStatus: confirmation.status,
+                resubmits: confirmation.resubmits,
+                submittedVia,
+                fee: paidFee,
             };
-
         } catch (error) {
-            console.error('Meteora swap execution failed:', error);
-            throw error;
+            console.error(`${dex} swap execution failed:`, error);
+            const message = error instanceof Error ? error.message : 'Unknown execution error';
+
+            // Final, so the order is not requeued and sent a second time while the first may still land
+            if (sendStarted) {
+                return {
+                    success: false,
+                    txHash: sent?.signature,
+                    error: `Swap sent but its outcome is unknown: ${message}`,
+                    errorCode: ExecutionErrorCode.OUTCOME_UNKNOWN
+                };
+            }
+
+            return {
+                success: false,
+                error: message
+            };
+        }
+    }
+
+    /**
+     * Check a fresh execution quote against the order's tolerance and work out
+     * the minimum output to enforce on-chain
+     */
+    private checkSlippage(
+        order: Order,
+        routedQuote: DexQuote | undefined,
+        freshQuote: DexQuote
+    ): { minAmountOut?: string; error?: string } {
+        const slippageBps = order.slippageBps ?? DEFAULT_SLIPPAGE_BPS;
+
+        if (routedQuote && freshQuote.price < routedQuote.price * (1 - slippageBps / 10000)) {
+            return {
+                error: `Price moved beyond ${slippageBps} bps tolerance: routed at ${routedQuote.price}, now ${freshQuote.price}`
+            };
+        }
+
+        const amountOut = BigInt(freshQuote.amountOut!);
+        const userMinAmountOut = BigInt(order.minAmountOut ?? '0');
+        if (amountOut < userMinAmountOut) {
+            return {
+                error: `Expected output ${amountOut} is below minimum ${userMinAmountOut}`
+            };
+        }
+
+        const toleratedAmountOut = amountOut * BigInt(10000 - slippageBps) / BigInt(10000);
+        return {
+            minAmountOut: (toleratedAmountOut > userMinAmountOut ? toleratedAmountOut : userMinAmountOut).toString()
+        };
+    }
+
+    private getAdapter(dex: string): DexAdapter {
+        const adapter = this.registry.get(dex);
+        if (!adapter) {
+            throw new Error(`Unsupported DEX: ${dex}`);
+        }
+        return adapter;
+    }
+
+    /**
+     * Pool on `dex` serving the pair; the routed pool when one is given
+     */
+    private getPool(dex: string, tokenIn: TokenInfo, tokenOut: TokenInfo, poolAddress?: string): PoolConfig {
+        const pools = this.tokenRegistry.getPools(tokenIn.mint, tokenOut.mint).filter(pool => pool.dex === dex);
+        const pool = pools.find(pool => pool.address === poolAddress) ?? pools[0];
+
+        if (!pool) {
+            throw new Error(`No ${dex} pool for ${tokenIn.symbol}/${tokenOut.symbol}`);
+        }
+        return pool;
+    }
+
+    private resolveToken(symbolOrMint: string): TokenInfo {
+        const token = this.tokenRegistry.resolve(symbolOrMint);
+        if (!token) {
+            throw new Error(`Unsupported token: ${symbolOrMint}`);
         }
+        return token;
     }
-}
\ No newline at end of file
+}
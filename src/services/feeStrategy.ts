@@ -0,0 +1,157 @@
+import {
+  ComputeBudgetProgram,
+  Connection,
+  PublicKey,
+  Transaction,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction
+} from '@solana/web3.js';
+import { BuiltSwap, Order, OrderType, SwapFee } from '../types';
+
+// Base fee the runtime charges per transaction signature
+export const LAMPORTS_PER_SIGNATURE = 5000;
+
+// Compute units a transaction may request at most, and what to request when simulation did not report usage
+const MAX_COMPUTE_UNIT_LIMIT = 1_400_000;
+const DEFAULT_COMPUTE_UNIT_LIMIT = 200_000;
+
+// Headroom over simulated usage, plus the two compute budget instructions themselves
+const COMPUTE_UNIT_MARGIN = 0.2;
+const COMPUTE_BUDGET_UNITS = 300;
+
+// Accounts the RPC accepts in one getRecentPrioritizationFees call
+const MAX_FEE_ACCOUNTS = 128;
+
+// Percentile of recent fees to bid by urgency, in the order `OrderQueue.getOrderPriority` ranks order types
+const URGENCY_PERCENTILES: Record<OrderType, number> = {
+  [OrderType.SNIPER]: 90,
+  [OrderType.STOP_LOSS]: 90,
+  [OrderType.MARKET]: 75,
+  [OrderType.TAKE_PROFIT]: 75,
+  [OrderType.LIMIT]: 50,
+  [OrderType.TWAP]: 50 // never sent itself; its slices are market orders
+};
+
+export interface FeeStrategyOptions {
+  minComputeUnitPrice?: number; // micro-lamports; also used when no recent fees are known
+  maxComputeUnitPrice?: number; // micro-lamports
+}
+
+/**
+ * Prices and sizes the compute budget of swaps. The unit price bids a
+ * percentile of fees recently paid to lock the swap's writable accounts,
+ * higher for more urgent order types; the unit limit is the simulated usage
+ * plus headroom, since the priority fee is charged on the limit requested.
+ */
+export class FeeStrategy {
+  private connection: Connection;
+  private minComputeUnitPrice: number;
+  private maxComputeUnitPrice: number;
+
+  constructor(connection: Connection, options: FeeStrategyOptions = {}) {
+    this.connection = connection;
+    this.minComputeUnitPrice = options.minComputeUnitPrice ?? 1_000;
+    this.maxComputeUnitPrice = options.maxComputeUnitPrice ?? 2_000_000;
+  }
+
+  /**
+   * Work out the compute budget for a simulated swap of the order
+   */
+  async getFee(order: Order, swap: BuiltSwap, unitsConsumed?: number): Promise<SwapFee> {
+    const computeUnitLimit = unitsConsumed
+      ? Math.min(Math.ceil(unitsConsumed * (1 + COMPUTE_UNIT_MARGIN)) + COMPUTE_BUDGET_UNITS, MAX_COMPUTE_UNIT_LIMIT)
+      : DEFAULT_COMPUTE_UNIT_LIMIT;
+    const computeUnitPrice = await this.getComputeUnitPrice(order.type, this.getWritableAccounts(swap.transaction));
+
+    // Charged on the requested limit, not the units used, rounded up to whole lamports
+    const priorityFeeLamports = Math.ceil(computeUnitLimit * computeUnitPrice / 1_000_000);
+    const signatures = swap.transaction instanceof VersionedTransaction
+      ? swap.transaction.message.header.numRequiredSignatures
+      : swap.transaction.compileMessage().header.numRequiredSignatures;
+
+    return {
+      computeUnitLimit,
+      computeUnitPrice,
+      priorityFeeLamports,
+      feeLamports: signatures * LAMPORTS_PER_SIGNATURE + priorityFeeLamports
+    };
+  }
+
+  /**
+   * The swap with compute budget instructions for `fee` in front of its own,
+   * replacing any the venue added
+   */
+  async applyFee(swap: BuiltSwap, fee: SwapFee): Promise<BuiltSwap> {
+    const budget = [
+      ComputeBudgetProgram.setComputeUnitLimit({ units: fee.computeUnitLimit }),
+      ComputeBudgetProgram.setComputeUnitPrice({ microLamports: fee.computeUnitPrice })
+    ];
+    const withBudget = (instructions: TransactionInstruction[]) => [
+      ...budget,
+      ...instructions.filter(instruction => !instruction.programId.equals(ComputeBudgetProgram.programId))
+    ];
+
+    if (!(swap.transaction instanceof VersionedTransaction)) {
+      const transaction = new Transaction();
+      transaction.feePayer = swap.transaction.feePayer;
+      transaction.recentBlockhash = swap.transaction.recentBlockhash;
+      transaction.add(...withBudget(swap.transaction.instructions));
+      return { ...swap, transaction };
+    }
+
+    // Versioned messages only reference lookup-table accounts by index, so the tables are needed to rebuild them
+    const message = swap.transaction.message;
+    const lookupTables = await Promise.all(message.addressTableLookups.map(async (lookup) => {
+      const { value } = await this.connection.getAddressLookupTable(lookup.accountKey);
+      if (!value) {
+        throw new Error(`Address lookup table ${lookup.accountKey.toBase58()} not found`);
+      }
+      return value;
+    }));
+
+    const decompiled = TransactionMessage.decompile(message, { addressLookupTableAccounts: lookupTables });
+    const rebuilt = new TransactionMessage({
+      payerKey: decompiled.payerKey,
+      recentBlockhash: decompiled.recentBlockhash,
+      instructions: withBudget(decompiled.instructions)
+    });
+
+    return { ...swap, transaction: new VersionedTransaction(rebuilt.compileToV0Message(lookupTables)) };
+  }
+
+  /**
+   * Recent fee percentile for the order type, within the configured bounds.
+   * Falls back to the minimum when recent fees cannot be read.
+   */
+  private async getComputeUnitPrice(type: OrderType, writableAccounts: PublicKey[]): Promise<number> {
+    let fees: number[] = [];
+
+    try {
+      const recent = await this.connection.getRecentPrioritizationFees({
+        lockedWritableAccounts: writableAccounts.slice(0, MAX_FEE_ACCOUNTS)
+      });
+      fees = recent.map(entry => entry.prioritizationFee).sort((a, b) => a - b);
+    } catch (error) {
+      console.warn('Could not read recent prioritization fees, bidding the minimum:', error);
+    }
+
+    if (fees.length === 0) {
+      return this.minComputeUnitPrice;
+    }
+
+    const percentile = URGENCY_PERCENTILES[type] ?? URGENCY_PERCENTILES[OrderType.MARKET];
+    const fee = fees[Math.ceil(fees.length * percentile / 100) - 1];
+
+    return Math.min(Math.max(fee, this.minComputeUnitPrice), this.maxComputeUnitPrice);
+  }
+
+  /**
+   * Accounts the swap locks for writing, which is what its local fee market is keyed on
+   */
+  private getWritableAccounts(transaction: Transaction | VersionedTransaction): PublicKey[] {
+    const message = transaction instanceof VersionedTransaction ? transaction.message : transaction.compileMessage();
+
+    return message.staticAccountKeys.filter((_, index) => message.isAccountWritable(index));
+  }
+}
@@ -13,79 +13,149 @@ function generateMockTxHash() {
     return txHash;
 }
 
+// Simulated venue: fee rate, pool depth in input token units, and price spread around the base price
+interface MockVenue {
+    name: string;
+    fee: number;
+    liquidity: number;
+    spreadFloor: number;
+    spreadRange: number;
+}
+
 export class MockDexRouter {
     basePriceInUsdc = 250;
     basePriceInSol = 0.004;
-    
+
+    venues: MockVenue[] = [
+        { name: 'raydium', fee: 0.003, liquidity: 50000, spreadFloor: 0.98, spreadRange: 0.04 },
+        { name: 'meteora', fee: 0.002, liquidity: 20000, spreadFloor: 0.97, spreadRange: 0.05 },
+    ];
+
     async getRaydiumQuote(tokenIn: string, tokenOut: string, amount: string) {
+        return this.getQuote('raydium', tokenIn, tokenOut, amount);
+    }
+
+    async getMeteoraQuote(tokenIn: string, tokenOut: string, amount: string) {
+        return this.getQuote('meteora', tokenIn, tokenOut, amount);
+    }
+
+    async getQuote(dex: string, tokenIn: string, tokenOut: string, amount: string) {
+        const venue = this.getVenue(dex);
+
         // Simulate network delay
         await sleep(2000 + Math.random() * 1000);
 
         // Return price with some variance
+        const spread = venue.spreadFloor + Math.random() * venue.spreadRange;
+        const price = tokenIn === "SOL" ? this.basePriceInUsdc * spread : this.basePriceInSol * spread;
+        const fee = venue.fee;
+
         return {
-            price: tokenIn === "SOL" ? this.basePriceInUsdc * (0.98 + Math.random() * 0.04) : this.basePriceInSol * (0.98 + Math.random() * 0.04),
-            fee: 0.003,
+            price,
+            fee,
+            ...this.simulateSwap(amount, price, fee, venue.liquidity),
         };
     }
 
-    async getMeteoraQuote(tokenIn: string, tokenOut: string, amount: string) {
-        // Simulate network delay
-        await sleep(2000 + Math.random() * 1000);
+    private getVenue(dex: string): MockVenue {
+        const venue = this.venues.find(venue => venue.name === dex);
+        if (!venue) {
+            throw new Error(`Unsupported DEX: ${dex}`);
+        }
+        return venue;
+    }
+
+    /**
+     * Constant-product output for the given size, so deeper pools win large orders
+     */
+    private simulateSwap(amount: string, price: number, fee: number, liquidity: number) {
+        const amountIn = Number(amount);
+        const amountInAfterFee = amountIn * (1 - fee);
 
-        // Return price with some variance
         return {
-            price: tokenIn === "SOL" ? this.basePriceInUsdc * (0.97 + Math.random() * 0.05) : this.basePriceInSol * (0.97 + Math.random() * 0.05),
-            fee: 0.002,
+            amountOut: amountInAfterFee * price * liquidity / (liquidity + amountInAfterFee),
+            priceImpact: amountInAfterFee / (liquidity + amountInAfterFee),
+            feeAmount: amountIn * fee,
         };
     }
 
+    /**
+     * Best division of the order between two venues, in tenths of the order
+     */
+    private findBestSplit(
+        amount: string,
+        first: { dex: string; price: number; fee: number },
+        second: { dex: string; price: number; fee: number }
+    ) {
+        const amountIn = Number(amount);
+        let bestSplits: { dex: string; amountIn: string; quote: { dex: string; price: number; amountOut: number } }[] = [];
+        let bestAmountOut = 0;
+
+        for (let step = 1; step < 10; step++) {
+            const firstIn = amountIn * step / 10;
+            const secondIn = amountIn - firstIn;
+            const firstOut = this.simulateSwap(String(firstIn), first.price, first.fee, this.getVenue(first.dex).liquidity).amountOut;
+            const secondOut = this.simulateSwap(String(secondIn), second.price, second.fee, this.getVenue(second.dex).liquidity).amountOut;
+
+            if (firstOut + secondOut > bestAmountOut) {
+                bestAmountOut = firstOut + secondOut;
+                bestSplits = [
+                    { dex: first.dex, amountIn: String(firstIn), quote: { dex: first.dex, price: firstOut / firstIn, amountOut: firstOut } },
+                    { dex: second.dex, amountIn: String(secondIn), quote: { dex: second.dex, price: secondOut / secondIn, amountOut: secondOut } },
+                ];
+            }
+        }
+
+        return bestSplits;
+    }
+
     async selectBestDex(tokenIn: string, tokenOut: string, amount: string) {
         await sleep(5000 + Math.random() * 1000); // Simulate network delay to connect with websocket
 
-        // Get quotes from both DEXs
-        const [raydiumQuote, meteoraQuote] = await Promise.all([
-            this.getRaydiumQuote(tokenIn, tokenOut, amount),
-            this.getMeteoraQuote(tokenIn, tokenOut, amount)
-        ]);
+        // Get quotes from every venue
+        const allQuotes = await Promise.all(this.venues.map(async (venue) => ({
+            dex: venue.name,
+            ...(await this.getQuote(venue.name, tokenIn, tokenOut, amount)),
+        })));
+
+        // Determine best DEX based on output amount after fees and price impact
+        const [selectedQuote, runnerUp] = [...allQuotes].sort((a, b) => b.amountOut - a.amountOut);
+        const selectedDex = selectedQuote.dex;
 
-        // Calculate effective prices (after fees)
-        const raydiumEffective = raydiumQuote.price * (1 - raydiumQuote.fee);
-        const meteoraEffective = meteoraQuote.price * (1 - meteoraQuote.fee);
+        // Split across the two best venues when the combined output beats the best single venue
+        const splits = runnerUp ? this.findBestSplit(amount, selectedQuote, runnerUp) : [];
+        const splitAmountOut = splits.reduce((total, split) => total + split.quote.amountOut, 0);
 
-        // Calculate output amounts
-        const raydiumOutput = BigInt(amount) * BigInt(Math.floor(raydiumEffective));
-        const meteoraOutput = BigInt(amount) * BigInt(Math.floor(meteoraEffective));
+        if (splitAmountOut > selectedQuote.amountOut) {
+            const splitDex = splits.map(split => split.dex).join('+');
+            const splitReason = `split provides ${(splitAmountOut - selectedQuote.amountOut).toFixed(6)} more ${tokenOut} than ${selectedDex} alone`;
+            console.log(`Routing Decision: ${splitReason}`);
 
-        // Determine best DEX based on output amount
-        const isRaydiumBetter = raydiumOutput > meteoraOutput;
-        const selectedDex = isRaydiumBetter ? 'raydium' : 'meteora';
-        const selectedQuote = isRaydiumBetter ? raydiumQuote : meteoraQuote;
-        const outputDifference = Math.abs(Number(raydiumOutput) - Number(meteoraOutput) );
+            return {
+                dex: splitDex,
+                bestQuote: {
+                    dex: splitDex,
+                    price: splitAmountOut / Number(amount),
+                    amountOut: splitAmountOut,
+                },
+                allQuotes,
+                routingReason: splitReason,
+                expectedAmountOut: splitAmountOut,
+                splits
+            };
+        }
 
+        const outputDifference = runnerUp ? selectedQuote.amountOut - runnerUp.amountOut : 0;
         const reason = `${selectedDex} provides ${outputDifference.toFixed(6)} more ${tokenOut}`;
 
         console.log(`Routing Decision: ${reason}`);
 
         return {
             dex: selectedDex,
-            bestQuote: {
-                dex: selectedDex,
-                price: selectedQuote.price,
-                fee: selectedQuote.fee,
-            },
-            allQuotes: [
-                {
-                    dex: 'raydium',
-                    price: raydiumQuote.price,
-                    fee: raydiumQuote.fee,
-                },
-                {
-                    dex: 'meteora',
-                    price: meteoraQuote.price,
-                    fee: meteoraQuote.fee,
-                }
-            ],
-            routingReason: reason
+            bestQuote: selectedQuote,
+            allQuotes,
+            routingReason: reason,
+            expectedAmountOut: selectedQuote.amountOut
         };
     }
 
@@ -106,20 +176,12 @@ export class MockDexRouter {
 
         // Simulate final execution price with some slippage
         const txHash = generateMockTxHash();
-        let finalQuote;
-
-        if (dex === 'raydium') {
-            finalQuote = await this.getRaydiumQuote(order.tokenIn, order.tokenOut, order.amountIn);
-        } else if (dex === 'meteora') {
-            finalQuote = await this.getMeteoraQuote(order.tokenIn, order.tokenOut, order.amountIn);
-        } else {
-            throw new Error(`Unsupported DEX: ${dex}`);
-        }
+        const finalQuote = await this.getQuote(dex, order.tokenIn, order.tokenOut, order.amountIn);
 
         // Calculate final execution price with slippage (simulate 0-0.5% additional slippage)
         const slippageFactor = 1 - (Math.random() * 0.005);
         const finalPrice = finalQuote.price * slippageFactor;
-        const actualAmountOut = BigInt(order.amountIn) * BigInt(Math.floor(finalPrice));
+        const actualAmountOut = finalQuote.amountOut * slippageFactor;
 
         console.log(`Swap completed`);
         console.log(`Transaction: ${txHash}`);
@@ -129,7 +191,7 @@ export class MockDexRouter {
             success: true,
             txHash,
             executedPrice: parseFloat(finalPrice.toFixed(6)),
-            actualAmountOut: parseFloat(Number(actualAmountOut).toFixed(6))
+            actualAmountOut: parseFloat(actualAmountOut.toFixed(6))
         };
     }
 }
\ No newline at end of file
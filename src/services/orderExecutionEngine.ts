@@ -1,22 +1,79 @@
-import { Order, OrderStatus, ExecutionResult, RouteResult } from '../types';
+import { v4 as uuidv4 } from 'uuid';
+import { Order, OrderStatus, OrderType, ExecutionResult, ExecutionErrorCode, DexQuote, DexHealth, RouteResult, RouteSplit, RouteHop, OrderFill, OrderHop, FillStatus, SwapSimulation, SwapFee, SubmissionMode, TwapProgress } from '../types';
+import { PublicKey } from '@solana/web3.js';
+import { ethers } from 'ethers';
 import { MockDexRouter } from './mockDexRouter';
 import { dexRouter } from './dexRouter';
+import { createDefaultRegistry } from './dexRegistry';
+import { TokenRegistry } from './tokenRegistry';
 import { SolanaConnectionManager } from './solanaConnection';
+import { WalletManager } from './walletManager';
+import { ConfirmationTracker } from './confirmationTracker';
+import { FeeStrategy } from './feeStrategy';
+import { BundleSubmitter } from './bundleSubmitter';
 import { Database } from '../database/connection';
 import { WebSocketManager } from './websocketManager';
-import { retryWithBackoff, sleep } from '../utils/errorHandler';
+import { retryWithBackoff } from '../utils/errorHandler';
 import { OrderQueue } from './queue';
+import { InvalidTransitionError, canTransition, isTerminal } from '../models/orderStateMachine';
+
+// Failed attempts requeued before an order is failed for good
+const MAX_RETRIES = 3;
+
+// Failures that are not retried: the price moved past the order's tolerance, the swap failed in
+// simulation or on-chain, it was resubmitted until the resubmission limit without landing, or
+// it was sent and may still land
+const FINAL_ERROR_CODES = [
+  ExecutionErrorCode.SLIPPAGE_EXCEEDED,
+  ExecutionErrorCode.SIMULATION_FAILED,
+  ExecutionErrorCode.TRANSACTION_FAILED,
+  ExecutionErrorCode.TRANSACTION_EXPIRED,
+  ExecutionErrorCode.OUTCOME_UNKNOWN
+];
 
 export class OrderExecutionEngine {
   private dexRouter: dexRouter;
   // private dexRouter: MockDexRouter;
   private database: Database;
+  private tokenRegistry: TokenRegistry;
   private wsManager: WebSocketManager;
   private orderQueue: OrderQueue | null = null;
+  private cancelRequested: Set<string> = new Set(); // in-flight orderIds to stop at their next step
+  private bundlesEnabled: boolean;
   
-  constructor(database: Database, solanaManager: SolanaConnectionManager, wsManager: WebSocketManager) {
+  /**
+   * @param options.enabledDexes venues to route to; all built-in venues when omitted
+   * @param options.tokenRegistry tradable tokens and pools; the bundled token list when omitted
+   * @param options.walletManager per-account signing wallets; every order signs with the engine wallet when omitted
+   * @param options.confirmationTracker follows sent swaps to confirmation; default polling and resubmit limit when omitted
+   * @param options.feeStrategy prices and sizes each swap's compute budget; default fee bounds when omitted
+   * @param options.bundleSubmitter sends bundle-mode orders to a block engine; bundle mode is rejected when omitted
+   */
+  constructor(
+    database: Database,
+    solanaManager: SolanaConnectionManager,
+    wsManager: WebSocketManager,
+    options: {
+      enabledDexes?: string[];
+      tokenRegistry?: TokenRegistry;
+      walletManager?: WalletManager;
+      confirmationTracker?: ConfirmationTracker;
+      feeStrategy?: FeeStrategy;
+      bundleSubmitter?: BundleSubmitter;
+    } = {}
+  ) {
     this.database = database;
-    this.dexRouter = new dexRouter(solanaManager);
+    this.tokenRegistry = options.tokenRegistry ?? TokenRegistry.fromFile();
+    this.dexRouter = new dexRouter(
+      solanaManager,
+      createDefaultRegistry(solanaManager, options.enabledDexes),
+      this.tokenRegistry,
+      options.walletManager,
+      options.confirmationTracker,
+      options.feeStrategy,
+      options.bundleSubmitter
+    );
+    this.bundlesEnabled = options.bundleSubmitter !== undefined;
     // this.dexRouter = new MockDexRouter();
     this.wsManager = wsManager;
 
@@ -33,12 +90,35 @@ export class OrderExecutionEngine {
   async processOrder(order: Order): Promise<void> {
     console.log(`Starting execution of order ${order.id}`);
 
+    // The order turns submitted once its first swap has passed simulation, just before it is sent;
+    // a cancel that arrived meanwhile fails that swap and is left for the caller to stop on
+    let submitted = false;
+    const onSimulated = async (simulation: SwapSimulation): Promise<void> => {
+      if (submitted) return;
+      if (this.cancelRequested.has(order.id)) {
+        throw new Error('Order cancelled before submission');
+      }
+      await this.updateOrderStatus(order.id, OrderStatus.SUBMITTED, {
+        simulation,
+        message: `Simulated ${simulation.amountOut ?? 'unknown'} out using ${simulation.unitsConsumed ?? 'unknown'} compute units`
+      });
+      submitted = true;
+    };
+
     try {
+      if (this.stopIfCancelled(order.id)) return;
+
+      // A sniper order's pool may be unlisted, e.g. after a restart; it travels with the order
+      if (order.sniperPool) {
+        this.tokenRegistry.registerSniperPool(order);
+      }
+
       // Step 1: Update to routing status
       await this.updateOrderStatus(order.id, OrderStatus.ROUTING);
 
       // Step 2: Route to best DEX
       const routeResult = await this.routeOrder(order);
+      if (this.stopIfCancelled(order.id)) return;
 
       // Step 3: Update to building status
       await this.updateOrderStatus(order.id, OrderStatus.BUILDING, {
@@ -46,38 +126,289 @@ export class OrderExecutionEngine {
         dex: routeResult.dex
       });
 
-      // Step 4: Build and submit transaction
-      await this.buildTransaction(order);
-      await this.updateOrderStatus(order.id, OrderStatus.SUBMITTED);
+      // Split and multi-hop routes are submitted swap by swap; each swap is simulated just before it is sent
+      const isSplit = routeResult.splits !== undefined && routeResult.splits.length > 1;
+      const isMultiHop = routeResult.hops !== undefined && routeResult.hops.length > 1;
+      if (isSplit || isMultiHop) {
+        if (this.stopIfCancelled(order.id)) return;
+
+        if (isSplit) {
+          // Split routes execute one swap per pool and report through their fills
+          await this.executeSplitOrder(order, routeResult.splits!, onSimulated);
+        } else {
+          // Routes through intermediate tokens swap hop by hop
+          await this.executeMultiHopOrder(order, routeResult.hops!, onSimulated);
+        }
+        return;
+      }
 
-      // Step 5: Execute the swap
-      const executionResult = await this.executeOrder(order, routeResult.dex);
+      // Step 4: Build and simulate the swap, then submit it once the simulation has passed
+      const executionResult = await this.executeOrder(order, routeResult.dex, routeResult.bestQuote, onSimulated);
+      if (!submitted && this.stopIfCancelled(order.id)) return;
 
       if (executionResult.success) {
-        // Step 6: Confirm successful execution
+        // Step 6: Confirmed on-chain
         await this.updateOrderStatus(order.id, OrderStatus.CONFIRMED, {
           txHash: executionResult.txHash,
           executedPrice: executionResult.executedPrice,
-          executedAt: new Date()
+          actualAmountOut: executionResult.actualAmountOut,
+          executedAt: new Date(),
+          fee: executionResult.fee,
+          feeLamports: executionResult.fee?.feeLamports,
+          message: `Transaction ${executionResult.confirmationStatus} via ${executionResult.submittedVia}` +
+            (executionResult.resubmits ? ` after ${executionResult.resubmits} resubmissions` : '')
         });
       } else {
-        // Handle execution failure
+        // Swaps outside the order's tolerance, failing simulation or failing on-chain are final
+        await this.retryOrFail(order, {
+          txHash: executionResult.txHash,
+          errorMessage: executionResult.error,
+          errorCode: executionResult.errorCode,
+          simulation: executionResult.simulation,
+          fee: executionResult.fee,
+          feeLamports: executionResult.fee?.feeLamports
+        }, !submitted && !this.isFinalError(executionResult.errorCode));
+      }
+
+    } catch (error) {
+      // The order was moved on elsewhere, e.g. cancelled between the last check and the next step
+      if (error instanceof InvalidTransitionError) {
+        this.cancelRequested.delete(order.id);
+        console.log(`Order ${order.id} stopped: ${error.message}`);
+        return;
+      }
+
+      console.error(`Order ${order.id} failed:`, error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+      // Running the route again would repeat swaps that were already sent, so the order
+      // is failed for reconciliation against its transactions instead
+      if (submitted) {
         await this.updateOrderStatus(order.id, OrderStatus.FAILED, {
-          errorMessage: executionResult.error
+          errorMessage: `${errorMessage}; swaps were already sent, reconcile against the order's transactions`,
+          errorCode: ExecutionErrorCode.OUTCOME_UNKNOWN
         });
+        return;
+      }
 
-        if (this.orderQueue && order.retryCount < 3) {
-          await this.orderQueue.addOrder(order);
-        }
+      await this.retryOrFail(order, { errorMessage }, true);
+    } finally {
+      if (order.parentOrderId) {
+        await this.updateTwapProgress(order.parentOrderId);
+      }
+    }
+  }
+
+  /**
+   * Roll the settled slices of a TWAP order up into its progress, and settle
+   * the order once every slice has. Progress is recomputed from the slices,
+   * so a slice processed again is not counted twice.
+   */
+  private async updateTwapProgress(orderId: string): Promise<void> {
+    try {
+      const order = await this.database.getOrder(orderId);
+      if (!order?.twap) return;
+
+      const slices = await this.database.getSliceOrders(orderId);
+      const settled = slices.filter(slice => isTerminal(slice.status));
+      const filled = settled.filter(slice => slice.status === OrderStatus.CONFIRMED || slice.status === OrderStatus.PARTIALLY_FILLED);
+
+      let amountFilled = BigInt(0);
+      for (const slice of filled) {
+        // Only the legs that filled count towards a partially filled slice
+        const fills = slice.status === OrderStatus.PARTIALLY_FILLED ? await this.database.getOrderFills(slice.id) : [];
+        amountFilled += slice.status === OrderStatus.CONFIRMED
+          ? BigInt(slice.amountIn)
+          : fills.filter(fill => fill.status === FillStatus.CONFIRMED).reduce((total, fill) => total + BigInt(fill.amountIn), BigInt(0));
+      }
+
+      const actualAmountOut = filled.reduce((total, slice) => total + (slice.actualAmountOut ?? 0), 0);
+      const feeLamports = settled.reduce((total, slice) => total + (slice.feeLamports ?? 0), 0);
+      const tokenIn = this.tokenRegistry.resolve(order.tokenInMint);
+
+      const twap: TwapProgress = {
+        ...order.twap,
+        settledSlices: settled.length,
+        filledSlices: filled.length,
+        amountFilled: amountFilled.toString(),
+        amountRemaining: slices
+          .filter(slice => !isTerminal(slice.status))
+          .reduce((total, slice) => total + BigInt(slice.amountIn), BigInt(0))
+          .toString(),
+        actualAmountOut,
+        averagePrice: amountFilled > BigInt(0) && tokenIn
+          ? actualAmountOut / parseFloat(ethers.formatUnits(amountFilled, tokenIn.decimals))
+          : undefined
+      };
+
+      // A slice settling at the same time already stored later progress
+      if (!await this.database.updateTwapProgress(orderId, twap)) return;
+
+      const progress = `${twap.filledSlices} of ${twap.slices} slices filled`;
+
+      if (twap.settledSlices < twap.slices) {
+        // The order stays submitted until its last slice has settled
+        this.wsManager.broadcastOrderUpdate({
+          orderId,
+          status: OrderStatus.SUBMITTED,
+          timestamp: new Date(),
+          data: {
+            message: `${twap.settledSlices}/${twap.slices} slices settled, ${progress}`,
+            actualAmountOut,
+            feeLamports,
+            twap
+          }
+        });
+        return;
       }
 
+      // Only the user cancels slices; the order keeps what its sent slices filled
+      if (settled.some(slice => slice.status === OrderStatus.CANCELLED)) {
+        await this.updateOrderStatus(orderId, OrderStatus.CANCELLED, {
+          executedAt: twap.filledSlices > 0 ? new Date() : undefined,
+          actualAmountOut: twap.filledSlices > 0 ? actualAmountOut : undefined,
+          feeLamports,
+          twap,
+          message: twap.filledSlices > 0
+            ? `Cancelled with ${progress} at an average price of ${twap.averagePrice}`
+            : 'Cancelled before any slice filled'
+        });
+      } else if (twap.filledSlices === 0) {
+        await this.updateOrderStatus(orderId, OrderStatus.FAILED, {
+          errorMessage: `No slice filled: ${settled.map(slice => slice.errorMessage).filter(Boolean).join('; ')}`,
+          feeLamports,
+          twap
+        });
+      } else {
+        await this.updateOrderStatus(orderId, amountFilled === BigInt(order.amountIn) ? OrderStatus.CONFIRMED : OrderStatus.PARTIALLY_FILLED, {
+          executedAt: new Date(),
+          actualAmountOut,
+          feeLamports,
+          twap,
+          message: `${progress} at an average price of ${twap.averagePrice}`
+        });
+      }
     } catch (error) {
-      console.error(`Order ${order.id} failed:`, error);
-      await this.updateOrderStatus(order.id, OrderStatus.FAILED, {
-        errorMessage: error instanceof Error ? error.message : 'Unknown error'
+      // Another slice settled the order first
+      if (error instanceof InvalidTransitionError) return;
+      console.error(`Failed to update progress of TWAP order ${orderId}:`, error);
+    }
+  }
+
+  /**
+   * Send a failed attempt back to the queue while retries remain, otherwise
+   * fail the order. Retries go back through PENDING, so FAILED is always final;
+   * only attempts that sent no transaction may be retried.
+   */
+  private async retryOrFail(
+    order: Order,
+    failure: {
+      txHash?: string;
+      errorMessage?: string;
+      errorCode?: ExecutionErrorCode;
+      fills?: OrderFill[];
+      hops?: OrderHop[];
+      simulation?: SwapSimulation;
+      fee?: SwapFee;
+      feeLamports?: number;
+    },
+    isRetryable: boolean
+  ): Promise<void> {
+    if (this.orderQueue && isRetryable && order.retryCount < MAX_RETRIES) {
+      await this.updateOrderStatus(order.id, OrderStatus.PENDING, {
+        ...failure,
+        message: `Retrying after failed attempt ${order.retryCount + 1}`
       });
-      throw error; // Re-throw for queue retry mechanism
+      await this.orderQueue.addOrder({ ...order, status: OrderStatus.PENDING, retryCount: order.retryCount + 1 });
+      return;
     }
+
+    await this.updateOrderStatus(order.id, OrderStatus.FAILED, failure);
+  }
+
+  private isFinalError(errorCode?: ExecutionErrorCode): boolean {
+    return errorCode !== undefined && FINAL_ERROR_CODES.includes(errorCode);
+  }
+
+  /**
+   * Cancel an order that has not been submitted yet. The state machine
+   * rejects the cancel once the order is submitted or finished. Queued jobs
+   * are removed; an order already being executed stops at its next step.
+   */
+  async cancelOrder(order: Order): Promise<void> {
+    await this.updateOrderStatus(order.id, OrderStatus.CANCELLED, {
+      message: 'Order cancelled'
+    });
+
+    if (order.status === OrderStatus.WAITING_TRIGGER) {
+      await this.cancelOcoOrder(order, `Cancelled with OCO order ${order.id}`);
+      return; // Not queued; watchers only read waiting orders from the database
+    }
+
+    const removed = order.status === OrderStatus.PENDING && this.orderQueue
+      ? await this.orderQueue.removeOrder(order)
+      : false;
+
+    if (!removed) {
+      this.cancelRequested.add(order.id);
+    }
+  }
+
+  /**
+   * Cancel the slices of a TWAP order that have not been submitted yet. The
+   * order itself stays submitted until its sent slices settle, then is
+   * cancelled with what they filled. Returns how many slices were cancelled.
+   */
+  async cancelTwapOrder(order: Order): Promise<number> {
+    let cancelled = 0;
+
+    for (const slice of await this.database.getSliceOrders(order.id)) {
+      if (!canTransition(slice.status, OrderStatus.CANCELLED)) continue;
+
+      try {
+        await this.cancelOrder(slice);
+        cancelled++;
+      } catch (error) {
+        // The slice was submitted in the meantime and will settle on its own
+        if (!(error instanceof InvalidTransitionError)) throw error;
+      }
+    }
+
+    // Removed slices never reach a worker, so the order's progress is rolled up here
+    await this.updateTwapProgress(order.id);
+    return cancelled;
+  }
+
+  /**
+   * Cancel the other order of an OCO pair while it still rests. Returns false
+   * when it has already moved on, e.g. because it fired first.
+   */
+  async cancelOcoOrder(order: Order, message: string): Promise<boolean> {
+    if (!order.ocoOrderId) {
+      return true;
+    }
+
+    try {
+      await this.updateOrderStatus(order.ocoOrderId, OrderStatus.CANCELLED, { message });
+      return true;
+    } catch (error) {
+      if (error instanceof InvalidTransitionError) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Consume a pending cancel request for an in-flight order
+   */
+  private stopIfCancelled(orderId: string): boolean {
+    if (!this.cancelRequested.delete(orderId)) {
+      return false;
+    }
+
+    console.log(`Order ${orderId} cancelled, stopping execution`);
+    return true;
   }
 
   /**
@@ -108,22 +439,33 @@ export class OrderExecutionEngine {
   }
 
   /**
-   * Build transaction (simulated for mock implementation)
+   * Quote a swap on the best available DEX without executing it
    */
-  private async buildTransaction(order: Order): Promise<void> {
-    console.log(`Building transaction for order ${order.id}`);
-    await sleep(500 + Math.random() * 500);
-    console.log(`Transaction built for order ${order.id}`);
+  async getQuote(tokenIn: string, tokenOut: string, amountIn: string): Promise<RouteResult> {
+    return await this.dexRouter.selectBestDex(tokenIn, tokenOut, amountIn);
   }
 
   /**
-   * Execute the order on the selected DEX
+   * Health of every enabled venue
    */
-  private async executeOrder(order: Order, dex: string): Promise<ExecutionResult> {
+  async checkDexHealth(): Promise<DexHealth[]> {
+    return await this.dexRouter.checkHealth();
+  }
+
+  /**
+   * Execute the order on the selected DEX; `onSimulated` runs once the swap
+   * has passed simulation, just before it is sent
+   */
+  private async executeOrder(
+    order: Order,
+    dex: string,
+    routedQuote?: DexQuote,
+    onSimulated?: (simulation: SwapSimulation) => Promise<void>
+  ): Promise<ExecutionResult> {
     console.log(`Executing order ${order.id} on ${dex}`);
 
     try {
-      const result = await this.dexRouter.executeSwap(dex, order);
+      const result = await this.dexRouter.executeSwap(dex, order, routedQuote, onSimulated);
 
       if (result.success) {
         console.log(`Order ${order.id} executed successfully: ${result.txHash}`);
@@ -141,10 +483,257 @@ export class OrderExecutionEngine {
     }
   }
 
+  /**
+   * Execute each leg of a split route as its own swap, then roll the
+   * fills up into the parent order. The order is only requeued when every leg
+   * failed before any was sent: otherwise requeueing the parent would repeat
+   * legs that may have filled. `onSimulated` runs before each leg is sent.
+   */
+  private async executeSplitOrder(
+    order: Order,
+    splits: RouteSplit[],
+    onSimulated: (simulation: SwapSimulation) => Promise<void>
+  ): Promise<void> {
+    const now = new Date();
+    const pendingFills: OrderFill[] = splits.map((split, index) => ({
+      id: uuidv4(),
+      orderId: order.id,
+      legIndex: index,
+      dex: split.dex,
+      amountIn: split.amountIn,
+      expectedAmountOut: split.quote.amountOut,
+      status: FillStatus.PENDING,
+      createdAt: now,
+      updatedAt: now
+    }));
+
+    await this.database.createOrderFills(pendingFills);
+
+    // Settled fills replace their pending entries as each leg completes
+    const fills = [...pendingFills];
+    const errorCodes: (ExecutionErrorCode | undefined)[] = [];
+
+    // Until a leg has been sent, the order can still be cancelled between legs
+    let submitted = false;
+    const onLegSimulated = async (simulation: SwapSimulation): Promise<void> => {
+      await onSimulated(simulation);
+      submitted = true;
+    };
+
+    for (const [index, pendingFill] of pendingFills.entries()) {
+      // Each leg is held to its pro-rata share of the order's minimum output
+      const legOrder: Order = {
+        ...order,
+        amountIn: pendingFill.amountIn,
+        minAmountOut: order.minAmountOut
+          ? (BigInt(order.minAmountOut) * BigInt(pendingFill.amountIn) / BigInt(order.amountIn)).toString()
+          : undefined
+      };
+
+      const result = await this.executeOrder(legOrder, pendingFill.dex, splits[index].quote, onLegSimulated);
+      if (!result.success) {
+        errorCodes.push(result.errorCode);
+      }
+
+      const fill: OrderFill = {
+        ...pendingFill,
+        status: result.success ? FillStatus.CONFIRMED : FillStatus.FAILED,
+        txHash: result.txHash,
+        executedPrice: result.executedPrice,
+        actualAmountOut: result.actualAmountOut,
+        feeLamports: result.fee?.feeLamports,
+        errorMessage: result.error,
+        updatedAt: new Date()
+      };
+      fills[index] = fill;
+      await this.database.updateOrderFill(fill);
+
+      // Parent stays submitted until every leg has settled
+      this.wsManager.broadcastOrderUpdate({
+        orderId: order.id,
+        status: OrderStatus.SUBMITTED,
+        timestamp: new Date(),
+        data: {
+          txHash: fill.txHash,
+          error: fill.errorMessage,
+          errorCode: result.errorCode,
+          message: `Leg ${index + 1}/${fills.length} on ${fill.dex} ${fill.status}`,
+          fills: [...fills]
+        }
+      });
+
+      if (!submitted && this.stopIfCancelled(order.id)) return;
+    }
+
+    const filled = fills.filter(fill => fill.status === FillStatus.CONFIRMED);
+    const failed = fills.filter(fill => fill.status === FillStatus.FAILED);
+    const actualAmountOut = filled.reduce((total, fill) => total + (fill.actualAmountOut ?? 0), 0);
+    const feeLamports = fills.reduce((total, fill) => total + (fill.feeLamports ?? 0), 0);
+    const errorMessage = failed.map(fill => `Leg ${fill.legIndex + 1} on ${fill.dex}: ${fill.errorMessage}`).join('; ');
+
+    if (failed.length === 0) {
+      await this.updateOrderStatus(order.id, OrderStatus.CONFIRMED, {
+        executedAt: new Date(),
+        actualAmountOut,
+        feeLamports,
+        fills,
+        message: `All ${fills.length} legs filled`
+      });
+    } else if (filled.length > 0) {
+      await this.updateOrderStatus(order.id, OrderStatus.PARTIALLY_FILLED, {
+        executedAt: new Date(),
+        errorMessage,
+        actualAmountOut,
+        feeLamports,
+        fills,
+        message: `${filled.length} of ${fills.length} legs filled`
+      });
+    } else {
+      await this.retryOrFail(order, {
+        errorMessage,
+        feeLamports,
+        fills
+      }, !submitted && !errorCodes.some(errorCode => this.isFinalError(errorCode)));
+    }
+  }
+
+  /**
+   * Execute the hops of a multi-hop route in order, each spending what the
+   * previous hop was guaranteed to deliver. Only the last hop is held to the
+   * order's minimum output. Once a hop has filled, a later failure is not
+   * requeued: the earlier hops have already swapped into the intermediate token.
+   * `onSimulated` runs before each hop is sent.
+   */
+  private async executeMultiHopOrder(
+    order: Order,
+    routeHops: RouteHop[],
+    onSimulated: (simulation: SwapSimulation) => Promise<void>
+  ): Promise<void> {
+    const hops: OrderHop[] = routeHops.map((hop, index) => ({
+      hopIndex: index,
+      dex: hop.dex,
+      tokenIn: hop.tokenIn,
+      tokenOut: hop.tokenOut,
+      amountIn: hop.amountIn,
+      expectedAmountOut: hop.quote.amountOut!,
+      status: FillStatus.PENDING
+    }));
+
+    await this.database.updateOrderHops(order.id, hops);
+
+    // The order's minimum holds for the whole route, so a route quoted below it fails before anything is sent
+    const routeAmountOut = BigInt(hops[hops.length - 1].expectedAmountOut);
+    if (order.minAmountOut && routeAmountOut < BigInt(order.minAmountOut)) {
+      await this.retryOrFail(order, {
+        errorMessage: `Route output ${routeAmountOut} is below minimum ${order.minAmountOut}`,
+        errorCode: ExecutionErrorCode.SLIPPAGE_EXCEEDED,
+        hops: [...hops]
+      }, false);
+      return;
+    }
+
+    let amountIn = order.amountIn;
+
+    for (const [index, routeHop] of routeHops.entries()) {
+      const isLastHop = index === routeHops.length - 1;
+      const hopOrder: Order = {
+        ...order,
+        tokenIn: routeHop.tokenIn,
+        tokenOut: routeHop.tokenOut,
+        tokenInMint: routeHop.tokenInMint,
+        tokenOutMint: routeHop.tokenOutMint,
+        amountIn,
+        minAmountOut: isLastHop ? order.minAmountOut : this.hopMinAmountOut(order, hops[index], routeAmountOut)
+      };
+
+      const result = await this.executeOrder(hopOrder, routeHop.dex, routeHop.quote, onSimulated);
+
+      const hop: OrderHop = {
+        ...hops[index],
+        amountIn,
+        status: result.success ? FillStatus.CONFIRMED : FillStatus.FAILED,
+        minAmountOut: result.minAmountOut,
+        actualAmountOut: result.actualAmountOut,
+        txHash: result.txHash,
+        fee: result.fee,
+        errorMessage: result.error
+      };
+      hops[index] = hop;
+      await this.database.updateOrderHops(order.id, hops);
+
+      const feeLamports = hops.reduce((total, paid) => total + (paid.fee?.feeLamports ?? 0), 0);
+
+      const label = `Hop ${index + 1}/${hops.length} ${hop.tokenIn}/${hop.tokenOut} on ${hop.dex}`;
+
+      if (!result.success) {
+        if (index === 0 && this.stopIfCancelled(order.id)) return;
+
+        const held = index > 0 ? `; holding ${amountIn} ${hop.tokenIn} base units from earlier hops` : '';
+
+        // Nothing has swapped yet if the first hop failed, so it can be retried like a single swap
+        await this.retryOrFail(order, {
+          errorMessage: `${label}: ${result.error}${held}`,
+          errorCode: result.errorCode,
+          hops: [...hops],
+          feeLamports
+        }, index === 0 && !this.isFinalError(result.errorCode));
+        return;
+      }
+
+      if (isLastHop) {
+        // Priced from what the order spent to what the last hop delivered, not at the last hop's own rate
+        const tokenIn = this.tokenRegistry.resolve(order.tokenInMint);
+        const executedPrice = result.actualAmountOut !== undefined && tokenIn
+          ? result.actualAmountOut / parseFloat(ethers.formatUnits(order.amountIn, tokenIn.decimals))
+          : undefined;
+
+        await this.updateOrderStatus(order.id, OrderStatus.CONFIRMED, {
+          txHash: result.txHash,
+          executedPrice,
+          actualAmountOut: result.actualAmountOut,
+          executedAt: new Date(),
+          hops: [...hops],
+          feeLamports,
+          message: `All ${hops.length} hops filled`
+        });
+        return;
+      }
+
+      // Parent stays submitted until the last hop has settled
+      this.wsManager.broadcastOrderUpdate({
+        orderId: order.id,
+        status: OrderStatus.SUBMITTED,
+        timestamp: new Date(),
+        data: {
+          txHash: hop.txHash,
+          message: `${label} confirmed`,
+          hops: [...hops]
+        }
+      });
+
+      // The next hop spends all this one delivered, surplus above its minimum included
+      amountIn = result.amountReceived ?? result.minAmountOut ?? hop.expectedAmountOut;
+    }
+  }
+
+  /**
+   * Least a hop before the last must deliver for the rest of the route to
+   * still reach the order's minimum: the minimum's share of the route, scaled
+   * by the hop's quoted output, rounded up
+   */
+  private hopMinAmountOut(order: Order, hop: OrderHop, routeAmountOut: bigint): string | undefined {
+    if (!order.minAmountOut || routeAmountOut === BigInt(0)) {
+      return undefined;
+    }
+
+    const scaled = BigInt(order.minAmountOut) * BigInt(hop.expectedAmountOut);
+    return ((scaled + routeAmountOut - BigInt(1)) / routeAmountOut).toString();
+  }
+
   /**
    * Update order status in database and notify WebSocket clients
    */
-  private async updateOrderStatus(
+  async updateOrderStatus(
     orderId: string,
     status: OrderStatus,
     additionalData?: {
@@ -152,8 +741,17 @@ export class OrderExecutionEngine {
       executedPrice?: number;
       executedAt?: Date;
       errorMessage?: string;
+      errorCode?: ExecutionErrorCode;
       dex?: string;
       routeResult?: RouteResult;
+      message?: string;
+      actualAmountOut?: number;
+      fills?: OrderFill[];
+      hops?: OrderHop[];
+      simulation?: SwapSimulation;
+      fee?: SwapFee;
+      feeLamports?: number;
+      twap?: TwapProgress;
     }
   ): Promise<void> {
     try {
@@ -162,7 +760,15 @@ export class OrderExecutionEngine {
         txHash: additionalData?.txHash,
         executedAt: additionalData?.executedAt,
         errorMessage: additionalData?.errorMessage,
-        dex: additionalData?.dex
+        errorCode: additionalData?.errorCode,
+        dex: additionalData?.dex,
+        routeResult: additionalData?.routeResult,
+        message: additionalData?.message,
+        simulation: additionalData?.simulation,
+        fee: additionalData?.fee,
+        feeLamports: additionalData?.feeLamports,
+        actualAmountOut: additionalData?.actualAmountOut,
+        executedPrice: additionalData?.executedPrice
       });
 
       // Send WebSocket update
@@ -173,7 +779,17 @@ export class OrderExecutionEngine {
         data: {
           txHash: additionalData?.txHash,
           error: additionalData?.errorMessage,
-          routeResult: additionalData?.routeResult
+          errorCode: additionalData?.errorCode,
+          routeResult: additionalData?.routeResult,
+          message: additionalData?.message,
+          actualAmountOut: additionalData?.actualAmountOut,
+          executedPrice: additionalData?.executedPrice,
+          fills: additionalData?.fills,
+          hops: additionalData?.hops,
+          simulation: additionalData?.simulation,
+          fee: additionalData?.fee,
+          feeLamports: additionalData?.feeLamports,
+          twap: additionalData?.twap
         }
       });
 
@@ -188,7 +804,151 @@ export class OrderExecutionEngine {
    * Validate order before processing (Market Order specific validation)
    */
   validateMarketOrder(order: Order): { isValid: boolean; error?: string } {
-    // Basic validation
+    const baseValidation = this.validateOrderFields(order);
+    if (!baseValidation.isValid) {
+      return baseValidation;
+    }
+
+    // Market order specific validation
+    if (order.type !== 'market') {
+      return { isValid: false, error: 'This engine only processes market orders' };
+    }
+
+    return { isValid: true };
+  }
+
+  /**
+   * Validate limit order before it starts waiting for its trigger price
+   */
+  validateLimitOrder(order: Order): { isValid: boolean; error?: string } {
+    const baseValidation = this.validateOrderFields(order);
+    if (!baseValidation.isValid) {
+      return baseValidation;
+    }
+
+    if (order.type !== OrderType.LIMIT) {
+      return { isValid: false, error: 'Order is not a limit order' };
+    }
+
+    if (!order.limitPrice || order.limitPrice <= 0) {
+      return { isValid: false, error: 'Limit price must be greater than zero' };
+    }
+
+    if (order.expiresAt && order.expiresAt.getTime() <= Date.now()) {
+      return { isValid: false, error: 'Expiry time must be in the future' };
+    }
+
+    return { isValid: true };
+  }
+
+  /**
+   * Validate stop-loss or take-profit order before it rests for its trigger price
+   */
+  validateTriggerOrder(order: Order): { isValid: boolean; error?: string } {
+    const baseValidation = this.validateOrderFields(order);
+    if (!baseValidation.isValid) {
+      return baseValidation;
+    }
+
+    if (order.type !== OrderType.STOP_LOSS && order.type !== OrderType.TAKE_PROFIT) {
+      return { isValid: false, error: 'Order is not a stop-loss or take-profit order' };
+    }
+
+    if (!order.triggerPrice || order.triggerPrice <= 0) {
+      return { isValid: false, error: 'Trigger price must be greater than zero' };
+    }
+
+    if (order.expiresAt && order.expiresAt.getTime() <= Date.now()) {
+      return { isValid: false, error: 'Expiry time must be in the future' };
+    }
+
+    return { isValid: true };
+  }
+
+  /**
+   * Validate both orders of an OCO pair; the stop-loss must sit below the take-profit
+   */
+  validateOcoOrders(stopLoss: Order, takeProfit: Order): { isValid: boolean; error?: string } {
+    for (const order of [stopLoss, takeProfit]) {
+      const validation = this.validateTriggerOrder(order);
+      if (!validation.isValid) {
+        return validation;
+      }
+    }
+
+    if (stopLoss.type !== OrderType.STOP_LOSS || takeProfit.type !== OrderType.TAKE_PROFIT) {
+      return { isValid: false, error: 'An OCO pair is a stop-loss and a take-profit order' };
+    }
+
+    if (stopLoss.triggerPrice! >= takeProfit.triggerPrice!) {
+      return { isValid: false, error: 'Stop-loss price must be below the take-profit price' };
+    }
+
+    return { isValid: true };
+  }
+
+  /**
+   * Validate sniper order before it is armed for pool detection
+   */
+  validateSniperOrder(order: Order): { isValid: boolean; error?: string } {
+    const baseValidation = this.validateOrderFields(order);
+    if (!baseValidation.isValid) {
+      return baseValidation;
+    }
+
+    if (order.type !== OrderType.SNIPER) {
+      return { isValid: false, error: 'Order is not a sniper order' };
+    }
+
+    try {
+      new PublicKey(order.tokenOutMint);
+    } catch {
+      return { isValid: false, error: 'Target mint is not a valid address' };
+    }
+
+    if (!order.maxPrice || order.maxPrice <= 0) {
+      return { isValid: false, error: 'Max price must be greater than zero' };
+    }
+
+    if (order.expiresAt && order.expiresAt.getTime() <= Date.now()) {
+      return { isValid: false, error: 'Expiry time must be in the future' };
+    }
+
+    return { isValid: true };
+  }
+
+  /**
+   * Validate TWAP order before its slices are scheduled
+   */
+  validateTwapOrder(order: Order): { isValid: boolean; error?: string } {
+    const baseValidation = this.validateOrderFields(order);
+    if (!baseValidation.isValid) {
+      return baseValidation;
+    }
+
+    if (order.type !== OrderType.TWAP || !order.twap) {
+      return { isValid: false, error: 'Order is not a TWAP order' };
+    }
+
+    if (!order.limitPrice || order.limitPrice <= 0) {
+      return { isValid: false, error: 'Limit price must be greater than zero' };
+    }
+
+    if (order.twap.slices < 2) {
+      return { isValid: false, error: 'A TWAP order needs at least 2 slices' };
+    }
+
+    if (BigInt(order.amountIn) < BigInt(order.twap.slices)) {
+      return { isValid: false, error: `Amount is too small to split into ${order.twap.slices} slices` };
+    }
+
+    return { isValid: true };
+  }
+
+  /**
+   * Validation shared by every order type
+   */
+  private validateOrderFields(order: Order): { isValid: boolean; error?: string } {
     if (!order.tokenIn || !order.tokenOut) {
       return { isValid: false, error: 'Token addresses are required' };
     }
@@ -201,9 +961,8 @@ export class OrderExecutionEngine {
       return { isValid: false, error: 'Amount must be greater than zero' };
     }
 
-    // Market order specific validation
-    if (order.type !== 'market') {
-      return { isValid: false, error: 'This engine only processes market orders' };
+    if (order.submissionMode === SubmissionMode.BUNDLE && !this.bundlesEnabled) {
+      return { isValid: false, error: 'Bundle submission is not configured' };
     }
 
     return { isValid: true };
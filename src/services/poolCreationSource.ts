@@ -0,0 +1,98 @@
+import { Connection, PublicKey, ParsedInstruction, PartiallyDecodedInstruction } from '@solana/web3.js';
+import { PoolCreatedEvent, PoolCreationSource } from '../types';
+
+// Programs whose pool-initialization logs we listen for
+const POOL_PROGRAMS = [
+  {
+    dex: 'raydium',
+    programId: '675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8', // Raydium AMM v4
+    logPattern: /initialize2/,
+    poolAccountIndex: 4, // amm id in initialize2 accounts
+  },
+  {
+    dex: 'meteora',
+    programId: 'Eo7WjKq67rjJQSZxS6z3YkapzY3eMj6Xy8X5EQVn5UaB', // Meteora dynamic AMM
+    logPattern: /Instruction: Initialize\w*Pool/,
+    poolAccountIndex: 0, // pool in initialize*Pool accounts
+  },
+];
+
+/**
+ * Detects new Raydium and Meteora pools from on-chain program logs
+ */
+export class SolanaPoolCreationSource implements PoolCreationSource {
+  private connection: Connection;
+  private subscriptionIds: number[] = [];
+
+  constructor(connection: Connection) {
+    this.connection = connection;
+  }
+
+  async start(onPoolCreated: (event: PoolCreatedEvent) => void): Promise<void> {
+    for (const program of POOL_PROGRAMS) {
+      const subscriptionId = this.connection.onLogs(
+        new PublicKey(program.programId),
+        async (logs) => {
+          if (logs.err || !logs.logs.some(line => program.logPattern.test(line))) {
+            return;
+          }
+
+          try {
+            const event = await this.parsePoolCreation(logs.signature, program);
+            if (event) {
+              onPoolCreated(event);
+            }
+          } catch (error) {
+            console.error(`Failed to parse ${program.dex} pool creation ${logs.signature}:`, error);
+          }
+        },
+        'confirmed'
+      );
+
+      this.subscriptionIds.push(subscriptionId);
+      console.log(`Listening for ${program.dex} pool creations`);
+    }
+  }
+
+  async stop(): Promise<void> {
+    await Promise.all(this.subscriptionIds.map(id => this.connection.removeOnLogsListener(id)));
+    this.subscriptionIds = [];
+  }
+
+  private async parsePoolCreation(
+    signature: string,
+    program: (typeof POOL_PROGRAMS)[number]
+  ): Promise<PoolCreatedEvent | null> {
+    const tx = await this.connection.getParsedTransaction(signature, {
+      maxSupportedTransactionVersion: 0,
+      commitment: 'confirmed',
+    });
+
+    if (!tx?.meta) {
+      return null;
+    }
+
+    const instruction = tx.transaction.message.instructions.find(
+      (ix: ParsedInstruction | PartiallyDecodedInstruction) =>
+        ix.programId.toString() === program.programId && 'accounts' in ix
+    ) as PartiallyDecodedInstruction | undefined;
+
+    // Token balances touched by the creation: both reserve mints, plus LP and creator accounts
+    const balances = tx.meta.postTokenBalances ?? [];
+    const mints = Array.from(new Set(balances.map(balance => balance.mint)));
+    const decimals = Object.fromEntries(balances.map(balance => [balance.mint, balance.uiTokenAmount.decimals]));
+
+    if (!instruction || mints.length < 2) {
+      return null;
+    }
+
+    return {
+      dex: program.dex,
+      poolAddress: instruction.accounts[program.poolAccountIndex].toString(),
+      mints,
+      decimals,
+      signature,
+      detectedAt: new Date(),
+    };
+  }
+}
@@ -3,6 +3,9 @@ import Redis from 'ioredis';
 import { QueueJobData, Order } from '../types';
 import { OrderExecutionEngine } from './orderExecutionEngine';
 
+// Job states no worker has picked up yet
+const REMOVABLE_STATES = ['waiting', 'prioritized', 'delayed'];
+
 export class OrderQueue {
   private redis: Redis;
   private queue: Queue<QueueJobData>;
@@ -94,18 +97,52 @@ export class OrderQueue {
     });
   }
 
-  async addOrder(order: Order): Promise<void> {
+  /**
+   * Queue an order for execution, after `delayMs` when given
+   */
+  async addOrder(order: Order, delayMs: number = 0): Promise<void> {
     const jobData: QueueJobData = {
       orderId: order.id,
       order,
     };
 
     await this.queue.add(`order-${order.id}`, jobData, {
+      jobId: this.jobId(order),
       priority: this.getOrderPriority(order),
-      delay: 0,
+      delay: delayMs,
     });
 
-    console.log(`Added order ${order.id} to queue`);
+    console.log(delayMs > 0 ? `Added order ${order.id} to queue, delayed ${delayMs}ms` : `Added order ${order.id} to queue`);
+  }
+
+  /**
+   * Remove the order's job for its current attempt if no worker has picked
+   * it up yet. Returns false when there was nothing left to remove.
+   */
+  async removeOrder(order: Order): Promise<boolean> {
+    const job = await this.queue.getJob(this.jobId(order));
+    if (!job || !REMOVABLE_STATES.includes(await job.getState())) {
+      return false;
+    }
+
+    try {
+      await job.remove();
+    } catch (error) {
+      // Picked up by a worker in the meantime
+      console.warn(`Could not remove job ${job.id} for order ${order.id}:`, error);
+      return false;
+    }
+
+    console.log(`Removed order ${order.id} from queue`);
+    return true;
+  }
+
+  /**
+   * One job per attempt: a retry is queued under a new id, while the job of
+   * the attempt that failed may still be kept as completed
+   */
+  private jobId(order: Order): string {
+    return `${order.id}-${order.retryCount}`;
   }
 
   private getOrderPriority(order: Order): number {
@@ -117,6 +154,10 @@ export class OrderQueue {
         return 2;
       case 'sniper':
         return 0; // Highest priority for sniper orders
+      case 'stop_loss':
+        return 0; // A stop-loss exits a falling position
+      case 'take_profit':
+        return 1;
       default:
         return 3;
     }
@@ -0,0 +1,52 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Quote } from '../types';
+
+// How long a quote may be referenced by an order
+export const DEFAULT_QUOTE_TTL_MS = 30 * 1000;
+
+/**
+ * Quotes served by GET /api/quote, kept in memory until they expire so a
+ * market order can be held to the price it was quoted. Quotes do not survive
+ * a restart; an order referencing a lost quote is rejected as expired.
+ */
+export class QuoteCache {
+  private ttlMs: number;
+  private quotes: Map<string, Quote> = new Map(); // quoteId -> quote
+
+  constructor(ttlMs: number = DEFAULT_QUOTE_TTL_MS) {
+    this.ttlMs = ttlMs;
+  }
+
+  save(quote: Omit<Quote, 'id' | 'createdAt' | 'expiresAt'>): Quote {
+    const now = Date.now();
+    this.prune(now);
+
+    const saved: Quote = {
+      ...quote,
+      id: uuidv4(),
+      createdAt: new Date(now),
+      expiresAt: new Date(now + this.ttlMs)
+    };
+    this.quotes.set(saved.id, saved);
+    return saved;
+  }
+
+  /**
+   * The quote, while it is live and belongs to the account
+   */
+  get(quoteId: string, accountId: string): Quote | null {
+    const quote = this.quotes.get(quoteId);
+    if (!quote || quote.accountId !== accountId || quote.expiresAt.getTime() <= Date.now()) {
+      return null;
+    }
+    return quote;
+  }
+
+  private prune(now: number): void {
+    for (const [quoteId, quote] of this.quotes) {
+      if (quote.expiresAt.getTime() <= now) {
+        this.quotes.delete(quoteId);
+      }
+    }
+  }
+}
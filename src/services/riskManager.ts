@@ -0,0 +1,171 @@
+import fs from 'fs';
+import { ethers } from 'ethers';
+import { Account, Order, RiskCheck, RiskConfig, RiskLimits, RiskUsage, RouteResult } from '../types';
+import { Database } from '../database/connection';
+import { TokenRegistry } from './tokenRegistry';
+import defaultConfig from '../config/riskLimits.json';
+
+// Quotes `amountIn` base units of `tokenIn` in `tokenOut`, as orders would be routed
+export type RiskQuoter = (tokenIn: string, tokenOut: string, amountIn: string) => Promise<RouteResult>;
+
+// How long a token's value in the quote token is reused before quoting it again
+const UNIT_VALUE_TTL_MS = 30_000;
+
+/**
+ * Pre-trade checks of an order against its account's limits: the configured
+ * defaults, overridden per account in the database. Orders are valued in the
+ * configured quote token, so one limit covers every pair.
+ */
+export class RiskManager {
+  private database: Database;
+  private tokenRegistry: TokenRegistry;
+  private quote: RiskQuoter;
+  private config: RiskConfig;
+  private unitValues: Map<string, { value: number; expiresAt: number }> = new Map(); // mint -> value of one whole token
+
+  constructor(database: Database, tokenRegistry: TokenRegistry, quote: RiskQuoter, config: RiskConfig) {
+    this.database = database;
+    this.tokenRegistry = tokenRegistry;
+    this.quote = quote;
+    this.config = config;
+  }
+
+  /**
+   * Load the default limits from a JSON file, or the bundled limits when no path is given
+   */
+  static fromFile(database: Database, tokenRegistry: TokenRegistry, quote: RiskQuoter, path?: string): RiskManager {
+    if (!path) {
+      return new RiskManager(database, tokenRegistry, quote, defaultConfig as RiskConfig);
+    }
+
+    const config = JSON.parse(fs.readFileSync(path, 'utf8')) as RiskConfig;
+    console.log(`Loaded risk limits from ${path}`);
+    return new RiskManager(database, tokenRegistry, quote, config);
+  }
+
+  /**
+   * Limits of an account: its own entries replace the defaults
+   */
+  limitsFor(account: Account): RiskLimits {
+    const overrides = account.riskLimits ?? {};
+    return {
+      maxOpenOrders: overrides.maxOpenOrders ?? this.config.maxOpenOrders,
+      maxOrderValue: overrides.maxOrderValue ?? this.config.maxOrderValue,
+      maxDailyValue: overrides.maxDailyValue ?? this.config.maxDailyValue,
+    };
+  }
+
+  /**
+   * Value a new order and validate it against the order value, open order and
+   * daily value limits of the submitting account; the value is kept on the
+   * order as `notionalValue`. `accepted` are orders accepted along with it
+   * that are not stored yet, such as earlier entries of a batch. The open
+   * order and daily limits are checked again when the order is stored, with
+   * `guard`.
+   */
+  async checkOrder(order: Order, account: Account, accepted: Order[] = []): Promise<{ isValid: boolean; error?: string }> {
+    const limits = this.limitsFor(account);
+    const quoteToken = this.quoteToken();
+
+    order.notionalValue = await this.valueOf(order);
+
+    if (order.notionalValue === undefined) {
+      if (limits.maxOrderValue !== undefined || limits.maxDailyValue !== undefined) {
+        return { isValid: false, error: `Order cannot be valued in ${quoteToken}` };
+      }
+      return { isValid: true };
+    }
+
+    if (limits.maxOrderValue !== undefined && order.notionalValue > limits.maxOrderValue) {
+      return {
+        isValid: false,
+        error: `Order value of ${order.notionalValue.toFixed(2)} ${quoteToken} exceeds the limit of ${limits.maxOrderValue} ${quoteToken} per order`
+      };
+    }
+
+    const error = this.evaluate(limits, await this.database.getRiskUsage(account.id, startOfUtcDay()), [...accepted, order]);
+    return error ? { isValid: false, error } : { isValid: true };
+  }
+
+  /**
+   * Check run as `orders` are stored, against the account's usage at that
+   * moment, so concurrent submissions cannot together go over its limits.
+   * Orders stored along with them that do not count on their own, such as
+   * TWAP slices or the take-profit of an OCO pair, are left out.
+   */
+  guard(account: Account, orders: Order[]): RiskCheck {
+    const limits = this.limitsFor(account);
+    return {
+      since: startOfUtcDay(),
+      evaluate: usage => this.evaluate(limits, usage, orders)
+    };
+  }
+
+  private evaluate(limits: RiskLimits, usage: RiskUsage, orders: Order[]): string | undefined {
+    const quoteToken = this.quoteToken();
+
+    if (limits.maxOpenOrders !== undefined) {
+      // The last of the orders is the one being checked
+      const openOrders = usage.openOrders + orders.length - 1;
+      if (openOrders >= limits.maxOpenOrders) {
+        return `Account has ${openOrders} open orders, the limit is ${limits.maxOpenOrders}`;
+      }
+    }
+
+    if (limits.maxDailyValue !== undefined) {
+      const [order] = orders.slice(-1);
+      const traded = orders.slice(0, -1).reduce((total, other) => total + (other.notionalValue ?? 0), usage.dailyValue);
+      if (traded + (order.notionalValue ?? 0) > limits.maxDailyValue) {
+        return `Order exceeds the daily limit of ${limits.maxDailyValue} ${quoteToken}; ` +
+          `${traded.toFixed(2)} ${quoteToken} already traded today`;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Value of the order's input in the quote token, at the rate one whole
+   * token of it quotes at, so a large order's price impact does not lower
+   * its value; the rate is reused for a short while. Undefined when it
+   * cannot be quoted.
+   */
+  private async valueOf(order: Order): Promise<number | undefined> {
+    const token = this.tokenRegistry.resolve(order.tokenInMint);
+    const quoteToken = this.tokenRegistry.resolve(this.config.quoteToken);
+    if (!token || !quoteToken) {
+      return undefined;
+    }
+
+    const amount = parseFloat(ethers.formatUnits(order.amountIn, token.decimals));
+    if (token.mint === quoteToken.mint) {
+      return amount;
+    }
+
+    const cached = this.unitValues.get(token.mint);
+    if (cached && cached.expiresAt > Date.now()) {
+      return amount * cached.value;
+    }
+
+    try {
+      const route = await this.quote(token.symbol, quoteToken.symbol, ethers.parseUnits('1', token.decimals).toString());
+      const amountOut = route.expectedAmountOut ?? route.bestQuote.amountOut;
+      const value = amountOut ? parseFloat(ethers.formatUnits(amountOut, quoteToken.decimals)) : route.bestQuote.price;
+      this.unitValues.set(token.mint, { value, expiresAt: Date.now() + UNIT_VALUE_TTL_MS });
+      return amount * value;
+    } catch (error) {
+      console.warn(`Could not value ${token.symbol} in ${quoteToken.symbol}:`, error);
+      return undefined;
+    }
+  }
+
+  private quoteToken(): string {
+    return this.tokenRegistry.resolve(this.config.quoteToken)?.symbol ?? this.config.quoteToken;
+  }
+}
+
+function startOfUtcDay(): Date {
+  const startOfDay = new Date();
+  startOfDay.setUTCHours(0, 0, 0, 0);
+  return startOfDay;
+}
@@ -0,0 +1,29 @@
+import { Keypair, Transaction, VersionedTransaction } from '@solana/web3.js';
+import { TransactionSigner } from '../../types';
+
+/**
+ * Signs with a keypair held in process memory
+ */
+export class KeypairSigner implements TransactionSigner {
+  private keypair: Keypair;
+
+  constructor(keypair: Keypair) {
+    this.keypair = keypair;
+  }
+
+  static fromBase64(privateKeyBase64: string): KeypairSigner {
+    return new KeypairSigner(Keypair.fromSecretKey(Buffer.from(privateKeyBase64, 'base64')));
+  }
+
+  get publicKey() {
+    return this.keypair.publicKey;
+  }
+
+  async signTransaction(transaction: Transaction | VersionedTransaction): Promise<void> {
+    if (transaction instanceof VersionedTransaction) {
+      transaction.sign([this.keypair]);
+    } else {
+      transaction.partialSign(this.keypair);
+    }
+  }
+}
@@ -0,0 +1,103 @@
+import { createPublicKey, verify } from 'crypto';
+import fs from 'fs';
+import { PublicKey, Transaction, VersionedTransaction } from '@solana/web3.js';
+import { TransactionSigner } from '../../types';
+
+// DER prefix turning a raw 32-byte ed25519 public key into an SPKI key
+const ED25519_SPKI_PREFIX = Buffer.from('302a300506032b6570032100', 'hex');
+
+const DEFAULT_TIMEOUT_MS = 10000;
+
+export interface RemoteSignerOptions {
+  authToken?: string; // sent as a bearer token
+  timeoutMs?: number;
+}
+
+// A signing service the operator lets account wallets sign through, with its own credential
+export interface RemoteSignerConfig extends RemoteSignerOptions {
+  url: string;
+}
+
+/**
+ * Signing services account wallets may name, from a JSON file mapping each
+ * name to `{ url, authToken? }`; none when no path is given
+ */
+export function loadRemoteSigners(path?: string): Record<string, RemoteSignerConfig> {
+  if (!path) {
+    return {};
+  }
+
+  const signers = JSON.parse(fs.readFileSync(path, 'utf8')) as Record<string, RemoteSignerConfig>;
+  console.log(`Loaded remote signers ${Object.keys(signers).join(', ')} from ${path}`);
+  return signers;
+}
+
+/**
+ * Signs through an HTTP signing service, so the key never enters this process.
+ *
+ * The service receives `POST {url}/sign` with `{ publicKey, message }`, the
+ * base58 wallet and the base64 transaction message, and answers
+ * `{ signature }`, the base64 ed25519 signature of the message. Signatures
+ * are checked against the wallet before they are added.
+ */
+export class RemoteSigner implements TransactionSigner {
+  readonly publicKey: PublicKey;
+  private url: string;
+  private options: RemoteSignerOptions;
+
+  constructor(url: string, publicKey: PublicKey | string, options: RemoteSignerOptions = {}) {
+    this.url = url.replace(/\/+$/, '');
+    this.publicKey = new PublicKey(publicKey);
+    this.options = options;
+  }
+
+  async signTransaction(transaction: Transaction | VersionedTransaction): Promise<void> {
+    const message = transaction instanceof VersionedTransaction
+      ? Buffer.from(transaction.message.serialize())
+      : transaction.serializeMessage();
+
+    const signature = await this.requestSignature(message);
+
+    if (!this.isValidSignature(message, signature)) {
+      throw new Error(`Remote signer returned an invalid signature for ${this.publicKey.toString()}`);
+    }
+
+    transaction.addSignature(this.publicKey, signature);
+  }
+
+  private async requestSignature(message: Buffer): Promise<Buffer> {
+    const response = await fetch(`${this.url}/sign`, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        ...(this.options.authToken ? { authorization: `Bearer ${this.options.authToken}` } : {})
+      },
+      body: JSON.stringify({ publicKey: this.publicKey.toString(), message: message.toString('base64') }),
+      signal: AbortSignal.timeout(this.options.timeoutMs ?? DEFAULT_TIMEOUT_MS)
+    });
+
+    if (!response.ok) {
+      throw new Error(`Remote signer returned ${response.status}: ${await response.text()}`);
+    }
+
+    const { signature } = await response.json() as { signature?: string };
+    if (typeof signature !== 'string') {
+      throw new Error('Remote signer response has no signature');
+    }
+
+    return Buffer.from(signature, 'base64');
+  }
+
+  private isValidSignature(message: Buffer, signature: Buffer): boolean {
+    if (signature.length !== 64) {
+      return false;
+    }
+
+    const key = createPublicKey({
+      key: Buffer.concat([ED25519_SPKI_PREFIX, this.publicKey.toBuffer()]),
+      format: 'der',
+      type: 'spki'
+    });
+    return verify(null, message, key, signature);
+  }
+}
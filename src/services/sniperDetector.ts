@@ -0,0 +1,174 @@
+import { Order, OrderStatus, OrderType, PoolCreatedEvent, PoolCreationSource, RouteResult, SniperPool } from '../types';
+import { Database } from '../database/connection';
+import { OrderExecutionEngine } from './orderExecutionEngine';
+import { OrderQueue } from './queue';
+import { TokenRegistry } from './tokenRegistry';
+import { retryWithBackoff } from '../utils/errorHandler';
+import { ethers } from 'ethers';
+
+/**
+ * Fires armed sniper orders as soon as a pool for their target token
+ * appears on a supported DEX and can be quoted at or below their max price.
+ * Orders whose pool launched above their max price are re-quoted every poll.
+ */
+export class SniperDetector {
+  private database: Database;
+  private executionEngine: OrderExecutionEngine;
+  private orderQueue: OrderQueue;
+  private source: PoolCreationSource;
+  private tokenRegistry: TokenRegistry;
+  private pollIntervalMs: number;
+  private timer: NodeJS.Timeout | null = null;
+  private firing: Set<string> = new Set(); // orderIds currently being fired
+
+  constructor(
+    database: Database,
+    executionEngine: OrderExecutionEngine,
+    orderQueue: OrderQueue,
+    source: PoolCreationSource,
+    tokenRegistry: TokenRegistry,
+    pollIntervalMs: number = 5000
+  ) {
+    this.database = database;
+    this.executionEngine = executionEngine;
+    this.orderQueue = orderQueue;
+    this.source = source;
+    this.tokenRegistry = tokenRegistry;
+    this.pollIntervalMs = pollIntervalMs;
+  }
+
+  async start(): Promise<void> {
+    await this.source.start((event) => {
+      this.handlePoolCreated(event);
+    });
+
+    this.timer = setInterval(() => {
+      this.checkArmedOrders();
+    }, this.pollIntervalMs);
+
+    console.log('Sniper detector started');
+  }
+
+  async stop(): Promise<void> {
+    await this.source.stop();
+
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    console.log('Sniper detector stopped');
+  }
+
+  /**
+   * Match a new pool against armed sniper orders. Armed orders are read
+   * from the database, so they survive a restart.
+   */
+  async handlePoolCreated(event: PoolCreatedEvent): Promise<void> {
+    console.log(`Pool ${event.poolAddress} created on ${event.dex} for ${event.mints.join(', ')}`);
+
+    try {
+      const armedOrders = await this.database.getOrdersByStatus(OrderStatus.WAITING_TRIGGER, [OrderType.SNIPER]);
+      const matchingOrders = armedOrders.filter(order =>
+        !order.sniperPool && event.mints.includes(order.tokenOutMint) && event.mints.includes(order.tokenInMint)
+      );
+
+      await Promise.all(matchingOrders.map(order => this.armOrder(order, event)));
+    } catch (error) {
+      console.error(`Failed to handle pool creation ${event.poolAddress}:`, error);
+    }
+  }
+
+  /**
+   * Re-quote the orders whose pool has launched but was priced above their
+   * max price when last quoted
+   */
+  async checkArmedOrders(): Promise<void> {
+    try {
+      const armedOrders = await this.database.getOrdersByStatus(OrderStatus.WAITING_TRIGGER, [OrderType.SNIPER]);
+
+      await Promise.all(armedOrders
+        .filter(order => order.sniperPool)
+        .map(order => this.fireOrder(order, () => this.executionEngine.getQuote(order.tokenIn, order.tokenOut, order.amountIn))));
+    } catch (error) {
+      console.error('Failed to check armed sniper orders:', error);
+    }
+  }
+
+  /**
+   * Store the new pool with the order, with the minimum output its max price
+   * allows, then fire it if the pool already quotes within that price
+   */
+  private async armOrder(order: Order, event: PoolCreatedEvent): Promise<void> {
+    const tokenOutDecimals = this.tokenRegistry.resolve(order.tokenOutMint)?.decimals ?? event.decimals?.[order.tokenOutMint];
+    if (tokenOutDecimals === undefined) {
+      console.log(`Sniper order ${order.id} not armed: decimals of ${order.tokenOutMint} unknown`);
+      return;
+    }
+
+    const sniperPool: SniperPool = { dex: event.dex, poolAddress: event.poolAddress, tokenOutDecimals };
+    const minAmountOut = this.minAmountOutAtMaxPrice(order, tokenOutDecimals);
+
+    try {
+      await this.database.updateSniperPool(order.id, sniperPool, minAmountOut);
+    } catch (error) {
+      console.error(`Failed to arm sniper order ${order.id} on pool ${event.poolAddress}:`, error);
+      return;
+    }
+
+    // A freshly created pool can take a moment before it is quotable
+    const armed: Order = { ...order, sniperPool, minAmountOut };
+    await this.fireOrder(armed, () => retryWithBackoff(async () => {
+      return await this.executionEngine.getQuote(order.tokenIn, order.tokenOut, order.amountIn);
+    }));
+  }
+
+  private async fireOrder(order: Order, quote: () => Promise<RouteResult>): Promise<void> {
+    if (this.firing.has(order.id)) return;
+    this.firing.add(order.id);
+
+    try {
+      if (order.expiresAt && new Date(order.expiresAt).getTime() <= Date.now()) {
+        return; // Left for the trigger watcher to expire
+      }
+
+      // Also registered by the execution engine, for jobs queued before a restart
+      this.tokenRegistry.registerSniperPool(order);
+      const routeResult = await quote();
+
+      // Quotes are tokenOut per tokenIn; maxPrice caps what we pay per target token
+      const pricePaid = 1 / routeResult.bestQuote.price;
+      if (order.maxPrice !== undefined && pricePaid > order.maxPrice) {
+        console.log(`Sniper order ${order.id} not fired: price ${pricePaid} above max ${order.maxPrice}`);
+        return;
+      }
+
+      const { dex, poolAddress } = order.sniperPool!;
+      console.log(`Sniper order ${order.id} fired on ${dex} pool ${poolAddress}`);
+
+      await this.executionEngine.updateOrderStatus(order.id, OrderStatus.PENDING, {
+        routeResult,
+        message: `Pool ${poolAddress} detected on ${dex}`
+      });
+
+      await this.orderQueue.addOrder({ ...order, status: OrderStatus.PENDING });
+    } catch (error) {
+      console.error(`Failed to fire sniper order ${order.id}:`, error);
+    } finally {
+      this.firing.delete(order.id);
+    }
+  }
+
+  /**
+   * tokenOut base units that amountIn buys at maxPrice (tokenIn per tokenOut),
+   * so the swap cannot fill above the max price on-chain
+   */
+  private minAmountOutAtMaxPrice(order: Order, tokenOutDecimals: number): string | undefined {
+    const tokenIn = this.tokenRegistry.resolve(order.tokenInMint);
+    if (order.maxPrice === undefined || !tokenIn) {
+      return undefined;
+    }
+
+    const maxAmountIn = ethers.parseUnits(order.maxPrice.toFixed(tokenIn.decimals), tokenIn.decimals);
+    return (BigInt(order.amountIn) * BigInt(10) ** BigInt(tokenOutDecimals) / maxAmountIn).toString();
+  }
+}
@@ -1,26 +1,40 @@
 import { parseTokenAccountResp } from '@raydium-io/raydium-sdk-v2';
-import { TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID } from '@solana/spl-token';
-import { Connection, Keypair } from '@solana/web3.js';
+import { NATIVE_MINT, TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import { Connection, PublicKey } from '@solana/web3.js';
 import { ethers } from 'ethers';
+import { TransactionSigner } from '../types';
 
 export class SolanaConnectionManager {
   public connection: Connection;
-  public wallet: Keypair;
+  public signer: TransactionSigner; // the engine wallet
 
-  constructor(rpcUrl: string, privateKeyBase64: string) {
+  constructor(rpcUrl: string, signer: TransactionSigner) {
     this.connection = new Connection(rpcUrl);
-
-    // Decode private key from base64
-    const privateKeyBytes = Buffer.from(privateKeyBase64, 'base64');
-    this.wallet = Keypair.fromSecretKey(privateKeyBytes);
+    this.signer = signer;
 
     console.log(`Connected to Solana: ${rpcUrl}`);
-    console.log(`Wallet address: ${this.wallet.publicKey.toString()}`);
+    console.log(`Wallet address: ${this.signer.publicKey.toString()}`);
   }
 
-  async getBalance(): Promise<string> {
-    const balance = await this.connection.getBalance(this.wallet.publicKey);
-    return ethers.formatUnits(balance, 9); // Convert lamports to SOL
+  /**
+   * Balance of `owner`, the engine wallet by default, in whole tokens: SOL, or
+   * the token of `mint` summed across the owner's token accounts
+   */
+  async getBalance(owner: PublicKey = this.signer.publicKey, mint: string = NATIVE_MINT.toBase58()): Promise<string> {
+    if (mint === NATIVE_MINT.toBase58()) {
+      const balance = await this.connection.getBalance(owner);
+      return ethers.formatUnits(balance, 9); // Convert lamports to SOL
+    }
+
+    const { value: accounts } = await this.connection.getParsedTokenAccountsByOwner(owner, { mint: new PublicKey(mint) });
+    let balance = BigInt(0);
+    let decimals = 0;
+    for (const { account } of accounts) {
+      const { tokenAmount } = account.data.parsed.info;
+      balance += BigInt(tokenAmount.amount);
+      decimals = tokenAmount.decimals;
+    }
+    return ethers.formatUnits(balance, decimals);
   }
 
   async checkConnection(): Promise<boolean> {
@@ -34,12 +48,15 @@ export class SolanaConnectionManager {
     }
   }
 
-  async fetchTokenAccountData(): Promise<any> {
-    const solAccountResp = await this.connection.getAccountInfo(this.wallet.publicKey)
-    const tokenAccountResp = await this.connection.getTokenAccountsByOwner(this.wallet.publicKey, { programId: TOKEN_PROGRAM_ID })
-    const token2022Req = await this.connection.getTokenAccountsByOwner(this.wallet.publicKey, { programId: TOKEN_2022_PROGRAM_ID })
+  /**
+   * Token accounts of `owner`, the engine wallet by default, in the shape the Raydium SDK expects
+   */
+  async fetchTokenAccountData(owner: PublicKey = this.signer.publicKey): Promise<any> {
+    const solAccountResp = await this.connection.getAccountInfo(owner)
+    const tokenAccountResp = await this.connection.getTokenAccountsByOwner(owner, { programId: TOKEN_PROGRAM_ID })
+    const token2022Req = await this.connection.getTokenAccountsByOwner(owner, { programId: TOKEN_2022_PROGRAM_ID })
     const tokenAccountData = parseTokenAccountResp({
-      owner: this.wallet.publicKey,
+      owner,
       solAccountResp,
       tokenAccountResp: {
         context: tokenAccountResp.context,
@@ -0,0 +1,122 @@
+import fs from 'fs';
+import { Order, PoolConfig, TokenInfo, TokenRegistryConfig } from '../types';
+import defaultConfig from '../config/tokens.json';
+
+/**
+ * Tokens the engine can trade and the pools that serve each pair.
+ * Tokens resolve by symbol (case-insensitive) or by mint address.
+ */
+export class TokenRegistry {
+  private tokensBySymbol: Map<string, TokenInfo> = new Map();
+  private tokensByMint: Map<string, TokenInfo> = new Map();
+  private pools: PoolConfig[] = [];
+  private baseTokens: string[];
+
+  constructor(config: TokenRegistryConfig) {
+    config.tokens.forEach(token => this.registerToken(token));
+    config.pools.forEach(pool => this.registerPool(pool));
+    this.baseTokens = config.baseTokens ?? [];
+  }
+
+  /**
+   * Load the registry from a JSON file, or the bundled token list when no path is given
+   */
+  static fromFile(path?: string): TokenRegistry {
+    if (!path) {
+      return new TokenRegistry(defaultConfig as TokenRegistryConfig);
+    }
+
+    const config = JSON.parse(fs.readFileSync(path, 'utf8')) as TokenRegistryConfig;
+    console.log(`Loaded ${config.tokens.length} tokens and ${config.pools.length} pools from ${path}`);
+    return new TokenRegistry(config);
+  }
+
+  resolve(symbolOrMint: string): TokenInfo | undefined {
+    return this.tokensByMint.get(symbolOrMint) ?? this.tokensBySymbol.get(symbolOrMint.toUpperCase());
+  }
+
+  registerToken(token: TokenInfo): void {
+    this.tokensByMint.set(token.mint, token);
+    this.tokensBySymbol.set(token.symbol.toUpperCase(), token);
+  }
+
+  registerPool(pool: PoolConfig): void {
+    if (this.pools.some(existing => existing.address === pool.address)) return;
+    this.pools.push(pool);
+  }
+
+  /**
+   * Make the pool a sniper order was armed on routable, listing its target
+   * token by mint when it is not listed; unlisted tokens have no symbol
+   */
+  registerSniperPool(order: Order): void {
+    const { dex, poolAddress, tokenOutDecimals } = order.sniperPool!;
+
+    if (!this.resolve(order.tokenOutMint)) {
+      this.registerToken({ symbol: order.tokenOutMint, mint: order.tokenOutMint, decimals: tokenOutDecimals });
+    }
+    this.registerPool({ dex, address: poolAddress, mints: [order.tokenInMint, order.tokenOutMint] });
+  }
+
+  /**
+   * Pools holding both mints, in either direction
+   */
+  getPools(mintA: string, mintB: string): PoolConfig[] {
+    return this.pools.filter(pool => pool.mints.includes(mintA) && pool.mints.includes(mintB));
+  }
+
+  getPoolsForDex(dex: string): PoolConfig[] {
+    return this.pools.filter(pool => pool.dex === dex);
+  }
+
+  /**
+   * Token paths from one mint to another: the direct pair, then through one
+   * or two base tokens. Only paths with a pool for every hop are returned.
+   */
+  findPaths(mintIn: string, mintOut: string): TokenInfo[][] {
+    const start = this.tokensByMint.get(mintIn);
+    const end = this.tokensByMint.get(mintOut);
+    if (!start || !end) {
+      return [];
+    }
+
+    const bases = this.baseTokens
+      .map(symbol => this.resolve(symbol))
+      .filter((token): token is TokenInfo => !!token && token.mint !== mintIn && token.mint !== mintOut);
+
+    const candidates: TokenInfo[][] = [
+      [start, end],
+      ...bases.map(base => [start, base, end]),
+      ...bases.flatMap(first => bases
+        .filter(second => second.mint !== first.mint)
+        .map(second => [start, first, second, end]))
+    ];
+
+    return candidates.filter(path =>
+      path.slice(1).every((token, index) => this.getPools(path[index].mint, token.mint).length > 0)
+    );
+  }
+
+  /**
+   * Resolve both sides of an order and check that the pair can be routed,
+   * directly or through base tokens
+   */
+  resolvePair(tokenIn: string, tokenOut: string): { tokenIn?: TokenInfo; tokenOut?: TokenInfo; error?: string } {
+    const inputToken = this.resolve(tokenIn);
+    if (!inputToken) {
+      return { error: `Unsupported token: ${tokenIn}` };
+    }
+
+    const outputToken = this.resolve(tokenOut);
+    if (!outputToken) {
+      return { error: `Unsupported token: ${tokenOut}` };
+    }
+
+    // Same-token orders are left for order validation to reject
+    if (inputToken.mint !== outputToken.mint && this.findPaths(inputToken.mint, outputToken.mint).length === 0) {
+      return { error: `Unsupported pair: ${inputToken.symbol}/${outputToken.symbol}` };
+    }
+
+    return { tokenIn: inputToken, tokenOut: outputToken };
+  }
+}
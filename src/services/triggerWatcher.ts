@@ -0,0 +1,131 @@
+import { Order, OrderStatus, OrderType } from '../types';
+import { Database } from '../database/connection';
+import { OrderExecutionEngine } from './orderExecutionEngine';
+import { OrderQueue } from './queue';
+
+// Order types released by price; other waiting orders (e.g. sniper) are only expired here
+const PRICE_TRIGGERED_TYPES: OrderType[] = [OrderType.LIMIT, OrderType.STOP_LOSS, OrderType.TAKE_PROFIT];
+
+/**
+ * Polls DEX quotes for resting orders and releases them to the
+ * execution queue once their trigger price is crossed
+ */
+export class TriggerWatcher {
+  private database: Database;
+  private executionEngine: OrderExecutionEngine;
+  private orderQueue: OrderQueue;
+  private pollIntervalMs: number;
+  private timer: NodeJS.Timeout | null = null;
+  private polling = false;
+
+  constructor(
+    database: Database,
+    executionEngine: OrderExecutionEngine,
+    orderQueue: OrderQueue,
+    pollIntervalMs: number = 5000
+  ) {
+    this.database = database;
+    this.executionEngine = executionEngine;
+    this.orderQueue = orderQueue;
+    this.pollIntervalMs = pollIntervalMs;
+  }
+
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.checkOrders();
+    }, this.pollIntervalMs);
+
+    console.log(`Trigger watcher started (polling every ${this.pollIntervalMs}ms)`);
+  }
+
+  stop(): void {
+    if (!this.timer) return;
+
+    clearInterval(this.timer);
+    this.timer = null;
+    console.log('Trigger watcher stopped');
+  }
+
+  /**
+   * Evaluate every order that is waiting for its trigger price.
+   * Orders are read from the database on each poll, so resting
+   * orders survive a restart.
+   */
+  async checkOrders(): Promise<void> {
+    // Skip this tick if the previous poll is still quoting
+    if (this.polling) return;
+    this.polling = true;
+
+    try {
+      const orders = await this.database.getOrdersByStatus(OrderStatus.WAITING_TRIGGER);
+
+      for (const order of orders) {
+        await this.evaluateOrder(order);
+      }
+    } catch (error) {
+      console.error('Trigger watcher poll failed:', error);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async evaluateOrder(order: Order): Promise<void> {
+    try {
+      if (order.expiresAt && new Date(order.expiresAt).getTime() <= Date.now()) {
+        await this.executionEngine.updateOrderStatus(order.id, OrderStatus.EXPIRED, {
+          errorMessage: 'Order expired before its trigger price was reached'
+        });
+        console.log(`Order ${order.id} expired while waiting for trigger`);
+        return;
+      }
+
+      if (!PRICE_TRIGGERED_TYPES.includes(order.type)) {
+        return;
+      }
+
+      const routeResult = await this.executionEngine.getQuote(order.tokenIn, order.tokenOut, order.amountIn);
+      const currentPrice = routeResult.bestQuote.price;
+
+      if (!this.isTriggered(order, currentPrice)) {
+        return;
+      }
+
+      // Cancel the other order of an OCO pair first, so at most one of them fires
+      if (!await this.executionEngine.cancelOcoOrder(order, `Cancelled: OCO order ${order.id} fired`)) {
+        console.log(`Order ${order.id} not triggered: OCO order ${order.ocoOrderId} already moved on`);
+        return;
+      }
+
+      console.log(`Order ${order.id} triggered at ${currentPrice} (trigger ${order.limitPrice ?? order.triggerPrice})`);
+
+      await this.executionEngine.updateOrderStatus(order.id, OrderStatus.PENDING, {
+        routeResult,
+        message: `Trigger price reached at ${currentPrice}`
+      });
+
+      await this.orderQueue.addOrder({ ...order, status: OrderStatus.PENDING });
+    } catch (error) {
+      console.error(`Failed to evaluate trigger for order ${order.id}:`, error);
+    }
+  }
+
+  /**
+   * Prices are quoted as tokenOut per tokenIn, so a limit or take-profit order
+   * fires once the best quote is at or above its price, and a stop-loss once
+   * it is at or below its trigger price
+   */
+  private isTriggered(order: Order, currentPrice: number): boolean {
+    switch (order.type) {
+      case OrderType.LIMIT:
+        return order.limitPrice !== undefined && currentPrice >= order.limitPrice;
+      case OrderType.TAKE_PROFIT:
+        return order.triggerPrice !== undefined && currentPrice >= order.triggerPrice;
+      case OrderType.STOP_LOSS:
+        return order.triggerPrice !== undefined && currentPrice <= order.triggerPrice;
+      default:
+        return false;
+    }
+  }
+}
@@ -0,0 +1,189 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import { Keypair, PublicKey } from '@solana/web3.js';
+import { v4 as uuidv4 } from 'uuid';
+import { Order, TradingWallet, TransactionSigner, Wallet } from '../types';
+import { Database } from '../database/connection';
+import { KeypairSigner } from './signers/keypairSigner';
+import { RemoteSigner, RemoteSignerConfig } from './signers/remoteSigner';
+
+// Strategy of an account's wallet when orders do not name one
+export const DEFAULT_STRATEGY = 'default';
+
+// Id of the engine's own wallet, used by accounts without a wallet
+const ENGINE_WALLET_ID = 'engine';
+
+/**
+ * Encrypt a secret key with AES-256-GCM, as base64 `iv:authTag:ciphertext`
+ */
+export function encryptSecretKey(secretKey: Uint8Array, encryptionKey: Buffer): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', encryptionKey, iv);
+  const ciphertext = Buffer.concat([cipher.update(secretKey), cipher.final()]);
+
+  return [iv, cipher.getAuthTag(), ciphertext].map(part => part.toString('base64')).join(':');
+}
+
+export function decryptSecretKey(encrypted: string, encryptionKey: Buffer): Uint8Array {
+  const [iv, authTag, ciphertext] = encrypted.split(':').map(part => Buffer.from(part, 'base64'));
+  const decipher = createDecipheriv('aes-256-gcm', encryptionKey, iv);
+  decipher.setAuthTag(authTag);
+
+  return new Uint8Array(Buffer.concat([decipher.update(ciphertext), decipher.final()]));
+}
+
+/**
+ * Picks the wallet each order is signed with and runs one swap at a time per
+ * wallet, so concurrent orders never race on the same wallet's token accounts.
+ * Wallets either store their key encrypted or name one of the operator's
+ * remote signers holding it.
+ * Without a database every order uses the engine wallet.
+ */
+export class WalletManager {
+  private engineWallet: TradingWallet;
+  private database: Database | null;
+  private encryptionKey: Buffer | null;
+  private remoteSigners: Record<string, RemoteSignerConfig>;
+  private signers: Map<string, TransactionSigner> = new Map(); // walletId -> signer of the decrypted key or remote signer
+  private locks: Map<string, Promise<void>> = new Map(); // walletId -> end of its queued swaps
+
+  /**
+   * @param remoteSigners signing services wallets may name, by name; accounts never give a URL themselves
+   */
+  constructor(engineSigner: TransactionSigner, database?: Database, encryptionKey?: Buffer, remoteSigners: Record<string, RemoteSignerConfig> = {}) {
+    if (encryptionKey && encryptionKey.length !== 32) {
+      throw new Error('Wallet encryption key must be 32 bytes');
+    }
+
+    this.engineWallet = { id: ENGINE_WALLET_ID, signer: engineSigner };
+    this.database = database ?? null;
+    this.encryptionKey = encryptionKey ?? null;
+    this.remoteSigners = remoteSigners;
+  }
+
+  /**
+   * Create a wallet for the account's strategy, from a new keypair unless one is given
+   */
+  async createWallet(accountId: string, strategy: string = DEFAULT_STRATEGY, keypair: Keypair = Keypair.generate()): Promise<Wallet> {
+    const { database, encryptionKey } = this.requireStorage();
+
+    const wallet: Wallet = {
+      id: uuidv4(),
+      accountId,
+      strategy,
+      publicKey: keypair.publicKey.toString(),
+      encryptedSecretKey: encryptSecretKey(keypair.secretKey, encryptionKey),
+      createdAt: new Date()
+    };
+
+    await database.createWallet(wallet);
+    console.log(`Created wallet ${wallet.publicKey} for account ${accountId} (${strategy})`);
+    return wallet;
+  }
+
+  hasRemoteSigner(name: string): boolean {
+    return Object.prototype.hasOwnProperty.call(this.remoteSigners, name);
+  }
+
+  /**
+   * Add a wallet for the account's strategy whose key stays with the
+   * configured signing service `remoteSigner`; only its public key is stored
+   */
+  async createRemoteWallet(accountId: string, strategy: string, publicKey: string, remoteSigner: string): Promise<Wallet> {
+    if (!this.database) {
+      throw new Error('Wallet storage is not configured');
+    }
+    if (!this.hasRemoteSigner(remoteSigner)) {
+      throw new Error(`Remote signer ${remoteSigner} is not configured`);
+    }
+
+    const wallet: Wallet = {
+      id: uuidv4(),
+      accountId,
+      strategy,
+      publicKey: new PublicKey(publicKey).toString(),
+      remoteSigner,
+      createdAt: new Date()
+    };
+
+    await this.database.createWallet(wallet);
+    console.log(`Added wallet ${wallet.publicKey} signed by ${remoteSigner} for account ${accountId} (${strategy})`);
+    return wallet;
+  }
+
+  async getWallet(accountId: string, strategy: string = DEFAULT_STRATEGY): Promise<Wallet | null> {
+    return this.database ? await this.database.getWallet(accountId, strategy) : null;
+  }
+
+  async getWallets(accountId: string): Promise<Wallet[]> {
+    return this.database ? await this.database.getWallets(accountId) : [];
+  }
+
+  /**
+   * The wallet an order signs with: its strategy's wallet when it names one,
+   * otherwise the account's default wallet, otherwise the engine wallet
+   */
+  async walletFor(order: Order): Promise<TradingWallet> {
+    if (!order.accountId) {
+      return this.engineWallet;
+    }
+
+    const wallet = await this.getWallet(order.accountId, order.strategy ?? DEFAULT_STRATEGY);
+    if (wallet) {
+      return { id: wallet.id, signer: this.unlock(wallet) };
+    }
+
+    if (order.strategy && order.strategy !== DEFAULT_STRATEGY) {
+      throw new Error(`No wallet for strategy ${order.strategy}`);
+    }
+    return this.engineWallet;
+  }
+
+  /**
+   * Run `swap` with the order's wallet once every swap queued before it on
+   * that wallet has finished. Callers hold it to build, sign and send only,
+   * not while waiting for confirmation.
+   */
+  async withWallet<T>(order: Order, swap: (wallet: TradingWallet) => Promise<T>): Promise<T> {
+    const wallet = await this.walletFor(order);
+    const previous = this.locks.get(wallet.id) ?? Promise.resolve();
+
+    const run = previous.then(() => swap(wallet));
+    const done = run.then(() => undefined, () => undefined);
+    this.locks.set(wallet.id, done);
+
+    try {
+      return await run;
+    } finally {
+      if (this.locks.get(wallet.id) === done) {
+        this.locks.delete(wallet.id);
+      }
+    }
+  }
+
+  private unlock(wallet: Wallet): TransactionSigner {
+    let signer = this.signers.get(wallet.id);
+
+    if (!signer) {
+      if (wallet.remoteSigner) {
+        if (!this.hasRemoteSigner(wallet.remoteSigner)) {
+          throw new Error(`Remote signer ${wallet.remoteSigner} of wallet ${wallet.publicKey} is not configured`);
+        }
+        const { url, ...options } = this.remoteSigners[wallet.remoteSigner];
+        signer = new RemoteSigner(url, wallet.publicKey, options);
+      } else {
+        const { encryptionKey } = this.requireStorage();
+        signer = new KeypairSigner(Keypair.fromSecretKey(decryptSecretKey(wallet.encryptedSecretKey!, encryptionKey)));
+      }
+      this.signers.set(wallet.id, signer);
+    }
+
+    return signer;
+  }
+
+  private requireStorage(): { database: Database; encryptionKey: Buffer } {
+    if (!this.database || !this.encryptionKey) {
+      throw new Error('Wallet storage is not configured');
+    }
+    return { database: this.database, encryptionKey: this.encryptionKey };
+  }
+}
@@ -17,7 +17,21 @@ export class WebSocketManager {
     const self = this;
     
     this.server.register(async function (fastify) {
-      fastify.get('/ws/:orderId', { websocket: true }, (connection, request) => {
+      fastify.get('/ws/:orderId', {
+        websocket: true,
+        // Only the owning account may subscribe; the handshake is refused before the upgrade otherwise
+        preValidation: async (request, reply) => {
+          const { orderId } = request.params as { orderId: string };
+          const order = await self.database.getOrder(orderId);
+
+          if (!order || order.accountId !== request.account.id) {
+            return reply.code(404).send({
+              error: 'Order not found',
+              message: `Order ${orderId} does not exist`
+            });
+          }
+        }
+      }, (connection, request) => {
         const orderId = (request.params as any).orderId;
         
         console.log(`WebSocket connection established for order ${orderId}`);
@@ -84,13 +98,23 @@ export class WebSocketManager {
           message: 'WebSocket connection established',
           txHash: order.txHash,
           error: order.errorMessage,
+          errorCode: order.errorCode,
           dex: order.dex,
           executedAt: order.executedAt,
+          executedPrice: order.executedPrice,
           amountIn: order.amountIn,
           tokenIn: order.tokenIn,
           tokenOut: order.tokenOut,
           createdAt: order.createdAt,
-          updatedAt: order.updatedAt
+          updatedAt: order.updatedAt,
+          limitPrice: order.limitPrice,
+          maxPrice: order.maxPrice,
+          triggerPrice: order.triggerPrice,
+          ocoOrderId: order.ocoOrderId,
+          expiresAt: order.expiresAt,
+          fills: order.fills,
+          hops: order.hops,
+          twap: order.twap
         }
       }));
       
@@ -1,3 +1,5 @@
+import { PublicKey, Signer, Transaction, TransactionConfirmationStatus, VersionedTransaction } from '@solana/web3.js';
+
 export interface Order {
   id: string;
   type: OrderType;
@@ -7,6 +9,9 @@ export interface Order {
   tokenOutMint: string;
   amountIn: string;
   status: OrderStatus;
+  accountId?: string; // account that submitted the order
+  strategy?: string; // picks the account's wallet for that strategy
+  submissionMode?: SubmissionMode; // how swaps are sent; public RPC when unset
   createdAt: Date;
   updatedAt: Date;
   executedAt?: Date;
@@ -14,26 +19,138 @@ export interface Order {
   errorMessage?: string;
   retryCount: number;
   dex?: string;
+  slippageBps?: number;
+  minAmountOut?: string;
+  errorCode?: ExecutionErrorCode;
+  limitPrice?: number;
+  maxPrice?: number;
+  sniperPool?: SniperPool; // pool a sniper order was armed on once its target pool went live
+  triggerPrice?: number; // tokenOut per tokenIn at which a stop-loss or take-profit order fires
+  ocoOrderId?: string; // the other order of an OCO pair, cancelled when this one fires
+  expiresAt?: Date;
+  fills?: OrderFill[];
+  hops?: OrderHop[];
+  simulation?: SwapSimulation; // pre-flight simulation of the swap, single-swap orders only
+  fee?: SwapFee; // compute budget and fee of the swap, single-swap orders only
+  feeLamports?: number; // network fees paid across all of the order's transactions
+  actualAmountOut?: number; // tokenOut units received
+  executedPrice?: number; // tokenOut per tokenIn across the whole order
+  notionalValue?: number; // amountIn valued in the risk quote token when the order was placed
+  parentOrderId?: string; // TWAP order this order is a slice of
+  scheduleId?: string; // DCA schedule that placed this order
+  twap?: TwapProgress; // TWAP orders only
+  idempotencyKey?: string;
+  requestHash?: string; // hash of the submitted request, to tell a retry from a reused key
 }
 
 export enum OrderType {
   MARKET = 'market',
   LIMIT = 'limit',
-  SNIPER = 'sniper'
+  SNIPER = 'sniper',
+  TWAP = 'twap', // split into market order slices spread over a duration
+  STOP_LOSS = 'stop_loss', // sells once the best quote falls to its trigger price
+  TAKE_PROFIT = 'take_profit' // sells once the best quote rises to its trigger price
+}
+
+export enum SubmissionMode {
+  RPC = 'rpc', // sent to the public RPC
+  BUNDLE = 'bundle' // sent to the block engine in a tipped bundle, falling back to RPC when not included
 }
 
 export enum OrderStatus {
   PENDING = 'pending',
+  WAITING_TRIGGER = 'waiting_trigger',
   ROUTING = 'routing',
   BUILDING = 'building',
   SUBMITTED = 'submitted',
   CONFIRMED = 'confirmed',
+  PARTIALLY_FILLED = 'partially_filled',
+  FAILED = 'failed',
+  EXPIRED = 'expired',
+  CANCELLED = 'cancelled'
+}
+
+// One status transition in an order's history
+export interface OrderEvent {
+  id: number;
+  orderId: string;
+  fromStatus?: OrderStatus; // absent for the event that created the order
+  toStatus: OrderStatus;
+  routeResult?: RouteResult;
+  errorMessage?: string;
+  errorCode?: ExecutionErrorCode;
+  message?: string;
+  createdAt: Date;
+}
+
+export enum FillStatus {
+  PENDING = 'pending',
+  SUBMITTED = 'submitted',
+  CONFIRMED = 'confirmed',
   FAILED = 'failed'
 }
 
+// One leg of a split order, executed as its own transaction
+export interface OrderFill {
+  id: string;
+  orderId: string;
+  legIndex: number;
+  dex: string;
+  amountIn: string;
+  expectedAmountOut?: string;
+  status: FillStatus;
+  txHash?: string;
+  executedPrice?: number;
+  actualAmountOut?: number;
+  feeLamports?: number; // network fee paid by the leg's transaction
+  errorMessage?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Slice schedule and progress of a TWAP order, kept on the order record
+export interface TwapProgress {
+  slices: number;
+  intervalMs: number; // between the start of one slice and the next
+  settledSlices: number; // slices that have filled or failed
+  filledSlices: number;
+  amountFilled: string; // tokenIn base units swapped by filled slices
+  amountRemaining: string; // tokenIn base units of slices yet to settle
+  actualAmountOut: number; // tokenOut units received
+  averagePrice?: number; // tokenOut per tokenIn across filled slices
+}
+
+// One swap of a multi-hop order, kept on the order record
+export interface OrderHop {
+  hopIndex: number;
+  dex: string;
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: string; // tokenIn base units
+  expectedAmountOut: string; // tokenOut base units, as routed
+  minAmountOut?: string; // tokenOut base units enforced on-chain, fed into the next hop
+  actualAmountOut?: number; // tokenOut units
+  status: FillStatus;
+  txHash?: string;
+  fee?: SwapFee;
+  errorMessage?: string;
+}
+
+export enum ExecutionErrorCode {
+  SLIPPAGE_EXCEEDED = 'SLIPPAGE_EXCEEDED',
+  SIMULATION_FAILED = 'SIMULATION_FAILED',
+  TRANSACTION_FAILED = 'TRANSACTION_FAILED', // landed on-chain with an error
+  TRANSACTION_EXPIRED = 'TRANSACTION_EXPIRED', // blockhash expired on every submission
+  OUTCOME_UNKNOWN = 'OUTCOME_UNKNOWN' // sent, but failed before it could be told whether it landed
+}
+
 export interface DexQuote {
   dex: string;
-  price: number;
+  price: number; // tokenOut per tokenIn, effective for the quoted size
+  amountOut?: string; // expected output after fees, tokenOut base units
+  priceImpact?: number; // fraction of spot price lost to the trade size
+  feeAmount?: string; // LP fee charged, tokenIn base units
+  poolAddress?: string; // pool the quote was priced on
 }
 
 export interface RouteResult {
@@ -41,6 +158,26 @@ export interface RouteResult {
   bestQuote: DexQuote;
   allQuotes: DexQuote[];
   routingReason: string;
+  expectedAmountOut?: string;
+  splits?: RouteSplit[];
+  hops?: RouteHop[];
+}
+
+export interface RouteSplit {
+  dex: string;
+  amountIn: string;
+  quote: DexQuote;
+}
+
+// One swap of a route through intermediate tokens, executed in order
+export interface RouteHop {
+  dex: string;
+  tokenIn: string;
+  tokenOut: string;
+  tokenInMint: string;
+  tokenOutMint: string;
+  amountIn: string; // tokenIn base units
+  quote: DexQuote;
 }
 
 export interface ExecutionResult {
@@ -48,7 +185,15 @@ export interface ExecutionResult {
   txHash?: string;
   executedPrice?: number;
   actualAmountOut?: number;
+  minAmountOut?: string; // tokenOut base units the swap was guaranteed to deliver
+  amountReceived?: string; // tokenOut base units the wallet received, read from the confirmed transaction
+  simulation?: SwapSimulation;
+  confirmationStatus?: TransactionConfirmationStatus; // commitment the transaction reached
+  resubmits?: number; // times the swap was re-signed and sent again after its blockhash expired
+  submittedVia?: SubmissionMode; // how the transaction that landed was sent
+  fee?: SwapFee; // set once the swap was sent; a swap failing on-chain still pays it
   error?: string;
+  errorCode?: ExecutionErrorCode;
 }
 
 export interface WebSocketMessage {
@@ -58,6 +203,7 @@ export interface WebSocketMessage {
   data?: {
     txHash?: string;
     error?: string;
+    errorCode?: ExecutionErrorCode;
     routeResult?: RouteResult;
     message?: string;
     dex?: string;
@@ -67,6 +213,20 @@ export interface WebSocketMessage {
     tokenOut?: string;
     createdAt?: Date;
     updatedAt?: Date;
+    limitPrice?: number;
+    maxPrice?: number;
+    triggerPrice?: number;
+    ocoOrderId?: string;
+    expiresAt?: Date;
+    poolAddress?: string;
+    fills?: OrderFill[];
+    hops?: OrderHop[];
+    actualAmountOut?: number;
+    executedPrice?: number;
+    simulation?: SwapSimulation;
+    fee?: SwapFee;
+    feeLamports?: number;
+    twap?: TwapProgress;
   };
 }
 
@@ -74,6 +234,321 @@ export interface OrderRequest {
   tokenIn: string;
   tokenOut: string;
   amountIn: number;
+  slippageBps?: number;
+  minAmountOut?: number;
+  strategy?: string;
+  submissionMode?: SubmissionMode;
+  quoteId?: string; // market orders only: hold the order to a quote from GET /api/quote
+}
+
+// Market orders submitted together; entries are validated one by one
+export interface BatchOrderRequest {
+  orders: OrderRequest[];
+  allOrNothing?: boolean; // reject the whole batch when any entry is invalid
+}
+
+export interface LimitOrderRequest extends OrderRequest {
+  limitPrice: number;
+  expiresAt?: string;
+}
+
+export interface TwapOrderRequest extends OrderRequest {
+  limitPrice: number; // no slice fills below this price
+  slices: number;
+  durationSeconds: number;
+}
+
+export interface TriggerOrderRequest extends OrderRequest {
+  triggerPrice: number;
+  expiresAt?: string;
+}
+
+// A stop-loss and a take-profit on the same tokens; the first to fire cancels the other
+export interface OcoOrderRequest extends OrderRequest {
+  stopLossPrice: number;
+  takeProfitPrice: number;
+  expiresAt?: string;
+}
+
+export interface SniperOrderRequest {
+  tokenIn: string;
+  targetMint: string;
+  amountIn: number;
+  maxPrice: number;
+  slippageBps?: number;
+  expiresAt?: string;
+  strategy?: string;
+  submissionMode?: SubmissionMode;
+}
+
+export enum ScheduleStatus {
+  ACTIVE = 'active',
+  PAUSED = 'paused',
+  COMPLETED = 'completed', // its budget has been spent
+  CANCELLED = 'cancelled'
+}
+
+/**
+ * A recurring market order: `amountIn` of tokenIn every `intervalMs`, until
+ * `totalAmount` has been spent when it has a budget. Amounts are tokenIn base units.
+ */
+export interface Schedule {
+  id: string;
+  accountId: string;
+  tokenIn: string;
+  tokenOut: string;
+  tokenInMint: string;
+  tokenOutMint: string;
+  amountIn: string; // spent on each tick
+  totalAmount?: string; // budget; the schedule runs until cancelled without one
+  intervalMs: number;
+  slippageBps: number;
+  strategy?: string;
+  submissionMode?: SubmissionMode;
+  status: ScheduleStatus;
+  orderCount: number; // ticks that placed an order
+  skippedTicks: number; // ticks that placed none, e.g. for a low wallet balance
+  lastTickAt?: Date;
+  lastError?: string; // why the last tick was skipped
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ScheduleRequest {
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: number; // per order
+  intervalSeconds: number;
+  totalAmount?: number;
+  slippageBps?: number;
+  strategy?: string;
+  submissionMode?: SubmissionMode;
+}
+
+export interface QuoteQuery {
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: number;
+}
+
+// A route quoted to an account, which its market orders may reference until it expires
+export interface Quote {
+  id: string;
+  accountId: string;
+  tokenIn: string;
+  tokenOut: string;
+  tokenInMint: string;
+  tokenOutMint: string;
+  amountIn: string; // tokenIn base units
+  route: RouteResult;
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+export interface OrderListQuery {
+  status?: string; // one or more statuses, comma-separated
+  type?: OrderType;
+  tokenIn?: string;
+  tokenOut?: string;
+  dex?: string;
+  scheduleId?: string;
+  createdFrom?: string;
+  createdTo?: string;
+  sortBy?: OrderSortField;
+  order?: 'asc' | 'desc';
+  limit?: number;
+  cursor?: string;
+}
+
+export type OrderSortField = 'createdAt' | 'updatedAt' | 'executedAt';
+
+// An API client; it authenticates with an API key, of which only the hash is stored
+export interface Account {
+  id: string;
+  name: string;
+  createdAt: Date;
+  rateLimitMax?: number; // requests per rate-limit window, when it differs from the configured default
+  riskLimits?: RiskLimits; // overrides of the configured risk limits
+}
+
+/**
+ * Pre-trade limits of an account. Values are of the order's input, in units
+ * of the configured quote token, so limits compare across pairs; limits
+ * without an entry are not enforced.
+ */
+export interface RiskLimits {
+  maxOpenOrders?: number;
+  maxOrderValue?: number;
+  maxDailyValue?: number; // per UTC day
+}
+
+// Configured default limits, and the token order values are quoted in
+export interface RiskConfig extends RiskLimits {
+  quoteToken: string; // symbol or mint
+}
+
+// What an account has in use against its risk limits
+export interface RiskUsage {
+  openOrders: number;
+  dailyValue: number; // value of the input of orders placed since `since`
+}
+
+// Risk limit check run while new orders are stored, against the account's usage at that moment
+export interface RiskCheck {
+  since: Date; // start of the day daily value is counted from
+  evaluate(usage: RiskUsage): string | undefined; // why the orders may not be stored, if they may not
+}
+
+export interface OrderListFilter {
+  accountId: string;
+  statuses?: OrderStatus[];
+  type?: OrderType;
+  tokenInMint?: string;
+  tokenOutMint?: string;
+  dex?: string;
+  scheduleId?: string;
+  createdFrom?: Date;
+  createdTo?: Date;
+  sortBy: OrderSortField;
+  sortDirection: 'asc' | 'desc';
+  limit: number;
+  after?: { value: Date; id: string }; // last row of the previous page
+}
+
+export interface PoolCreatedEvent {
+  dex: string;
+  poolAddress: string;
+  mints: string[];
+  decimals?: Record<string, number>; // by mint, where the creation transaction reveals it
+  signature?: string;
+  detectedAt: Date;
+}
+
+// Pool a sniper order was armed on; kept with the order, so it can still be routed after a restart
+export interface SniperPool {
+  dex: string;
+  poolAddress: string;
+  tokenOutDecimals: number;
+}
+
+export interface PoolCreationSource {
+  start(onPoolCreated: (event: PoolCreatedEvent) => void): Promise<void>;
+  stop(): Promise<void>;
+}
+
+export interface TokenInfo {
+  symbol: string;
+  mint: string;
+  decimals: number;
+}
+
+// A pool on one venue serving a token pair
+export interface PoolConfig {
+  dex: string;
+  address: string;
+  mints: [string, string];
+}
+
+export interface TokenRegistryConfig {
+  tokens: TokenInfo[];
+  pools: PoolConfig[];
+  baseTokens?: string[]; // liquid tokens multi-hop routes may pass through
+}
+
+// Prices any input size (tokenIn base units) against pool state loaded once
+export type DexQuoter = (amountIn: string) => DexQuote;
+
+// A stored wallet of an account; the secret key is only kept encrypted
+export interface Wallet {
+  id: string;
+  accountId: string;
+  strategy: string; // 'default' unless the account keeps a wallet per strategy
+  publicKey: string;
+  encryptedSecretKey?: string; // set unless the key is held by a remote signer
+  remoteSigner?: string; // name of the configured signing service holding the key, in place of a stored key
+  createdAt: Date;
+}
+
+// Signs transactions for one wallet, wherever its key is held
+export interface TransactionSigner {
+  readonly publicKey: PublicKey;
+  signTransaction(transaction: Transaction | VersionedTransaction): Promise<void>; // adds the wallet's signature
+}
+
+// The wallet an order's swaps are signed and paid for with
+export interface TradingWallet {
+  id: string;
+  signer: TransactionSigner;
+}
+
+// A signed-by-nobody swap transaction, ready to sign and send
+export interface BuiltSwap {
+  dex: string;
+  transaction: Transaction | VersionedTransaction;
+  signers: Signer[]; // extra signers required by the venue, besides the wallet
+  amountIn: string;
+  minAmountOut: string;
+}
+
+// Outcome of simulating a built swap against current chain state before it is sent
+export interface SwapSimulation {
+  amountOut?: string; // tokenOut base units delivered, when the venue's logs report it
+  unitsConsumed?: number; // compute units
+  logs: string[];
+  error?: string; // decoded program error; a swap whose simulation failed is never sent
+}
+
+// Compute budget a swap was sent with and the network fee it pays
+export interface SwapFee {
+  computeUnitLimit: number;
+  computeUnitPrice: number; // micro-lamports per compute unit
+  priorityFeeLamports: number; // charged on the requested limit, whether or not the units are used
+  tipLamports?: number; // block engine tip, when the swap landed in a bundle
+  feeLamports: number; // base fee per signature plus the priority fee, and the tip transaction when bundled
+}
+
+// A swap transaction as sent, before it has been confirmed
+export interface SentTransaction {
+  signature: string;
+  lastValidBlockHeight: number; // the transaction can no longer land once the chain is past this height
+  submittedVia?: SubmissionMode; // RPC when unset
+  bundleId?: string;
+  tipSignature?: string; // tip transaction sent in the bundle; the tip is paid only if it lands
+  tipLamports?: number; // tip sent alongside the swap in its bundle
+  fallback?: SendFallback;
+}
+
+// Another way to send the same signed transaction, used when it has not landed after `afterMs`
+export interface SendFallback {
+  afterMs: number;
+  send(): Promise<void>;
+}
+
+// Where a sent transaction ended up
+export interface TransactionConfirmation {
+  signature: string; // of the last submission
+  status: 'confirmed' | 'finalized' | 'failed' | 'expired';
+  slot?: number;
+  error?: string; // decoded on-chain error of a failed transaction
+  resubmits: number;
+}
+
+export interface DexHealth {
+  dex: string;
+  healthy: boolean;
+  latencyMs?: number;
+  error?: string;
+}
+
+// A trading venue the router can quote and execute on
+export interface DexAdapter {
+  readonly name: string;
+  initialize(): Promise<void>;
+  loadQuoter(pool: PoolConfig, tokenIn: TokenInfo, tokenOut: TokenInfo): Promise<DexQuoter>;
+  buildSwap(pool: PoolConfig, tokenIn: TokenInfo, tokenOut: TokenInfo, amountIn: string, minAmountOut: string, wallet: TradingWallet): Promise<BuiltSwap>;
+  simulateSwap(swap: BuiltSwap): Promise<SwapSimulation>;
+  executeSwap(swap: BuiltSwap, wallet: TradingWallet): Promise<SentTransaction>; // signs with a fresh blockhash and sends, without waiting for confirmation
+  checkHealth(pool: PoolConfig): Promise<DexHealth>; // probes one of the venue's pools
 }
 
 export interface QueueJobData {